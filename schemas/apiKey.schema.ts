@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { LimitSchema } from '#schemas/limits.schema';
+
+/**
+ * Zod schema for a gateway-issued API key that clients use to call the /v1 endpoints.
+ * Only a hash of the key is stored; the key itself is shown once when it is created.
+ */
+export const ApiKeySchema = z.object({
+  /** A unique system identifier, used in the management API. */
+  id: z.string(),
+
+  /** A unique, human-readable name. Usage is recorded in the usage ledger under this name. */
+  name: z.string().min(1).max(64).regex(/^[^,]+$/, "API key names cannot contain commas"),
+
+  /** SHA-256 hash of the key, hex encoded. */
+  keyHash: z.string(),
+
+  /** The first characters of the key, to help identify it. */
+  keyPrefix: z.string(),
+
+  /** When the key was created, as an ISO date. */
+  createdAt: z.string().datetime(),
+
+  /** When the key was revoked, as an ISO date. Revoked keys are rejected but kept for their usage history. */
+  revokedAt: z.string().datetime().optional(),
+
+  /** Mapped model names the key may use. All models are allowed if not set. */
+  allowedModels: z.array(z.string()).optional(),
+
+  /** Optional rate limits and spending budgets for all requests made with the key. */
+  limits: LimitSchema.optional(),
+});
+
+/**
+ * TypeScript type for a gateway API key.
+ * Inferred from the Zod schema.
+ */
+export type ApiKey = z.infer<typeof ApiKeySchema>;
@@ -1,5 +1,7 @@
 import { z } from 'zod';
 import { ProviderSchema } from '#schemas/provider.schema';
+import { LimitSchema } from '#schemas/limits.schema';
+import { ApiKeySchema } from '#schemas/apiKey.schema';
 
 /**
  * Zod schema for the main application configuration file (`config.json`).
@@ -9,6 +11,18 @@ export const AppConfigSchema = z.object({
   /** A list of all configured LLM providers. */
   providers: z.array(ProviderSchema).default([]),
 
+  /**
+   * Optional gateway-wide limits across every provider and model, e.g. a daily spending cap.
+   * They apply in addition to provider and model limits.
+   */
+  limits: LimitSchema.optional(),
+
+  /**
+   * Gateway API keys. Once any key exists, requests to the /v1 endpoints must present
+   * a valid one as a Bearer token.
+   */
+  apiKeys: z.array(ApiKeySchema).optional(),
+
   /**
    * Stores the state of the rate limiters to persist usage data across restarts.
    * The key is the limiter's identifier (e.g., "providerId/modelName/limitType"),
@@ -23,6 +37,30 @@ export const AppConfigSchema = z.object({
     z.object({}) // Allow empty objects for "no limit configured"
   ])).optional(),
 
+  /**
+   * Tuning for the per provider/model circuit breaker that stops routing to failing backends.
+   * All fields are optional and fall back to built-in defaults.
+   */
+  circuitBreaker: z.object({
+    /** Consecutive upstream failures that open the circuit. Defaults to 3. */
+    failureThreshold: z.number().int().positive().optional(),
+    /** Seconds an open circuit waits before letting requests through again. Defaults to 30. */
+    cooldownSeconds: z.number().positive().optional(),
+    /** Upper bound for the cooldown, which doubles each time a circuit re-opens. Defaults to 600. */
+    maxCooldownSeconds: z.number().positive().optional(),
+  }).optional(),
+
+  /**
+   * Retention for the per-request usage ledger, which is stored separately from this config.
+   * Records beyond either bound are removed when the ledger is compacted.
+   */
+  usageLedger: z.object({
+    /** Days to keep usage records. Defaults to 90. */
+    retentionDays: z.number().positive().optional(),
+    /** Maximum number of usage records to keep; the oldest are removed first. Defaults to 100000. */
+    maxRecords: z.number().int().positive().optional(),
+  }).optional(),
+
   /** 
    * The logging level for the application.
    * Controls the verbosity of server logs.
@@ -1,5 +1,17 @@
 import { z } from "zod";
 
+/**
+ * Checks that a string is an IANA timezone name the runtime knows, such as "Europe/Berlin".
+ */
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
 /**
  * Zod schema for rate limits. All properties are optional.
  */
@@ -7,16 +19,39 @@ export const LimitSchema = z.object({
   requestsPerMinute: z.number().positive().optional(),
   requestsPerHour: z.number().positive().optional(),
   requestsPerDay: z.number().positive().optional(),
+  requestsPerWeek: z.number().positive().optional(),
+  requestsPerMonth: z.number().positive().optional(),
   tokensPerMinute: z.number().positive().optional(),
   tokensPerHour: z.number().positive().optional(),
   tokensPerDay: z.number().positive().optional(),
+  tokensPerWeek: z.number().positive().optional(),
+  tokensPerMonth: z.number().positive().optional(),
   costPerMinute: z.number().positive().optional(),
   costPerHour: z.number().positive().optional(),
   costPerDay: z.number().positive().optional(),
+  costPerWeek: z.number().positive().optional(),
+  costPerMonth: z.number().positive().optional(),
+
+  /**
+   * How limit windows are aligned.
+   * - "rolling" (default): each window starts with the first request after the previous one
+   *   ended and lasts a fixed duration (a month is 30 days).
+   * - "calendar": windows follow the clock in `timezone`, so daily limits reset at midnight,
+   *   weekly limits on Monday at midnight and monthly limits on the 1st.
+   */
+  window: z.enum(["rolling", "calendar"]).optional(),
+
+  /** IANA timezone for calendar-aligned windows, e.g. "America/New_York". Defaults to "UTC". */
+  timezone: z.string().refine(isValidTimeZone, { message: "Invalid IANA timezone" }).optional(),
 });
 
 /**
  * TypeScript type representing a set of rate limits.
  * Inferred from the Zod schema.
  */
-export type Limits = z.infer<typeof LimitSchema>;
\ No newline at end of file
+export type Limits = z.infer<typeof LimitSchema>;
+
+/**
+ * The numeric limit fields of a set of limits, e.g. "requestsPerDay".
+ */
+export type LimitType = Exclude<keyof Limits, "window" | "timezone">;
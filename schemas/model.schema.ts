@@ -16,6 +16,18 @@ export const ModelSchema = z.object({
    */
   mappedName: z.string().optional(),
 
+  /**
+   * Whether the model accepts image input.
+   * Requests containing images are only routed to models with this flag set.
+   */
+  supportsVision: z.boolean().optional(),
+
+  /**
+   * The most tokens the model can generate in one response.
+   * Requests that set no max_tokens are assumed to use this many when checked against token and cost limits.
+   */
+  maxOutputTokens: z.number().int().positive().optional(),
+
   /** Optional pricing info for this specific model. */
   pricing: PricingSchema.optional(),
 
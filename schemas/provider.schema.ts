@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ModelSchema } from '#schemas/model.schema';
+import { LimitSchema } from '#schemas/limits.schema';
 
 /**
  * Supported AI SDK v5 provider types
@@ -34,6 +35,12 @@ export const ProviderTypeSchema = z.enum([
   "custom", // maps to openai-compatible
 ]);
 
+/**
+ * Provider fields that hold credentials. They are redacted whenever the config is shown,
+ * and encrypted at rest when a master key is set.
+ */
+export const PROVIDER_SECRET_FIELDS = ["apiKey", "oauthToken", "accessKeyId", "secretAccessKey"] as const;
+
 /**
  * Zod schema for a single LLM provider configuration.
  * Supports all AI SDK v4 providers with provider-specific validation.
@@ -73,6 +80,12 @@ export const ProviderSchema = z
 
     /** Supported models, each with optional pricing and limits. */
     models: z.array(ModelSchema).min(1, "At least one model must be listed"),
+
+    /**
+     * Optional limits shared by all of this provider's models, e.g. an account-wide quota.
+     * They apply in addition to each model's own limits.
+     */
+    limits: LimitSchema.optional(),
   })
   .refine((data) => {
     // Validation for providers that require API key
@@ -101,6 +114,13 @@ export const ProviderSchema = z
     message: "resourceName, deploymentName, and apiKey are required for Azure providers",
     path: ["resourceName", "deploymentName", "apiKey"],
   })
+  .refine((data) => {
+    // Azure serves every request from the provider's one deployment, so it can only be one model
+    return data.type !== "azure" || data.models.length === 1;
+  }, {
+    message: "Azure providers serve a single deployment and must list exactly one model; add one provider per deployment",
+    path: ["models"],
+  })
   .refine((data) => {
     // Validation for AWS Bedrock (accessKeyId, secretAccessKey, region required)
     return data.type !== "bedrock" || (data.accessKeyId && data.secretAccessKey && data.region);
@@ -1,13 +1,28 @@
 import { z } from "zod";
 
+/**
+ * A single completed request (or failed provider attempt) in the usage ledger.
+ */
 export const UsageRecordSchema = z.object({
   timestamp: z.string().datetime(),
+  /** Identifier shared with the request/response log lines for the same HTTP request. */
+  requestId: z.string(),
   providerId: z.string(),
+  /** The real model name sent to the provider. */
   model: z.string(),
+  /** The model name the client requested (the mapped name, or the real name if unmapped). */
+  mappedModel: z.string().optional(),
+  /** Name of the gateway API key the request was made with, if any. */
+  apiKey: z.string().optional(),
   promptTokens: z.number().int().nonnegative().default(0),
   completionTokens: z.number().int().nonnegative().default(0),
   totalTokens: z.number().int().nonnegative().default(0),
   cost: z.number().nonnegative().default(0),
+  /** Time from sending the request to the provider until the response completed. */
+  latencyMs: z.number().int().nonnegative().default(0),
+  status: z.enum(["success", "error"]).default("success"),
+  /** The upstream error message for failed attempts. */
+  error: z.string().optional(),
 });
 
 export const UsageDatabaseSchema = z.object({
@@ -15,4 +30,4 @@ export const UsageDatabaseSchema = z.object({
 });
 
 export type UsageRecord = z.infer<typeof UsageRecordSchema>;
-export type UsageDatabase = z.infer<typeof UsageDatabaseSchema>;
\ No newline at end of file
+export type UsageDatabase = z.infer<typeof UsageDatabaseSchema>;
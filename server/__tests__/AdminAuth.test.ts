@@ -0,0 +1,165 @@
+/**
+ * Unit tests for AdminAuth
+ * Tests admin token and session authentication for the admin routes
+ */
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('AdminAuth', () => {
+  const initialize = async (adminToken?: string) => {
+    const { AdminAuth } = await import('../components/AdminAuth.js');
+    AdminAuth.initialize({ adminToken });
+    return AdminAuth.getInstance();
+  };
+
+  const authenticate = async (authorization?: string, ip = '10.0.0.1') => {
+    const adminAuth = (await import('../components/AdminAuth.js')).AdminAuth.getInstance();
+    const req = { ip, originalUrl: '/config/get', headers: authorization ? { authorization } : {} };
+    const res: any = {
+      setHeader: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    const next = jest.fn();
+    await adminAuth.authenticate(req as any, res, next);
+    return { res, next };
+  };
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    const { AdminAuth } = await import('../components/AdminAuth.js');
+    (AdminAuth as any).instance = undefined;
+  });
+
+  it('should accept the admin token as a Bearer token', async () => {
+    await initialize('secret-admin-token');
+
+    const { next } = await authenticate('Bearer secret-admin-token');
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should reject missing and wrong tokens', async () => {
+    await initialize('secret-admin-token');
+
+    const missing = await authenticate();
+    expect(missing.res.status).toHaveBeenCalledWith(401);
+    expect(missing.next).not.toHaveBeenCalled();
+
+    const wrong = await authenticate('Bearer not-the-token');
+    expect(wrong.res.status).toHaveBeenCalledWith(401);
+    expect(wrong.res.json).toHaveBeenCalledWith({ error: 'Invalid or expired admin token.' });
+    expect(wrong.next).not.toHaveBeenCalled();
+  });
+
+  it('should generate a token when none is configured', async () => {
+    await initialize();
+
+    const { res } = await authenticate('Bearer ');
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    const { logger } = await import('../components/Logger.js');
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('generated one for this run'));
+  });
+
+  it('should issue sessions only for the admin token', async () => {
+    const adminAuth = await initialize('secret-admin-token');
+
+    expect(adminAuth.login('not-the-token')).toBeUndefined();
+
+    const result = adminAuth.login('secret-admin-token');
+    expect(result).toEqual({ session: expect.any(String), expiresAt: expect.any(String) });
+    expect((await authenticate(`Bearer ${result!.session}`)).next).toHaveBeenCalled();
+  });
+
+  it('should reject sessions after logout or expiry', async () => {
+    const adminAuth = await initialize('secret-admin-token');
+
+    const loggedOut = adminAuth.login('secret-admin-token')!;
+    adminAuth.logout(loggedOut.session);
+    expect((await authenticate(`Bearer ${loggedOut.session}`)).next).not.toHaveBeenCalled();
+
+    jest.useFakeTimers();
+    const expired = adminAuth.login('secret-admin-token')!;
+    jest.setSystemTime(Date.now() + 13 * 60 * 60 * 1000);
+    expect((await authenticate(`Bearer ${expired.session}`)).next).not.toHaveBeenCalled();
+  });
+
+  it('should refuse logins from a client after repeated failures', async () => {
+    const adminAuth = await initialize('secret-admin-token');
+    const login = async (token: string, ip = '10.0.0.1') => {
+      const res: any = {
+        setHeader: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis(),
+      };
+      await adminAuth.handleLogin({ ip, body: { token } } as any, res);
+      return res;
+    };
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await login('not-the-token')).status).toHaveBeenCalledWith(401);
+    }
+    const { logger } = await import('../components/Logger.js');
+    expect(logger.warn).toHaveBeenCalledWith('Rejected admin login from 10.0.0.1 with an invalid admin token.');
+
+    // Further wrong tokens are refused until the window expires
+    const limited = await login('not-the-token');
+    expect(limited.status).toHaveBeenCalledWith(429);
+    expect(limited.setHeader).toHaveBeenCalledWith('Retry-After', expect.any(String));
+
+    // Other clients are not affected
+    const other = await login('not-the-token', '10.0.0.2');
+    expect(other.status).toHaveBeenCalledWith(401);
+
+    // The right token still works, so a shared IP cannot lock the admin out
+    const admin = await login('secret-admin-token');
+    expect(admin.status).not.toHaveBeenCalled();
+    expect(admin.json).toHaveBeenCalledWith({ session: expect.any(String), expiresAt: expect.any(String) });
+  });
+
+  it('should count invalid Bearer tokens against the same limit as failed logins', async () => {
+    const adminAuth = await initialize('secret-admin-token');
+
+    for (let attempt = 0; attempt < 4; attempt++) {
+      expect((await authenticate('Bearer not-the-token')).res.status).toHaveBeenCalledWith(401);
+    }
+    const { logger } = await import('../components/Logger.js');
+    expect(logger.warn).toHaveBeenCalledWith('Rejected admin request to /config/get from 10.0.0.1 with an invalid admin token.');
+
+    // The fifth failure uses up the limit for both routes
+    const res: any = { setHeader: jest.fn(), status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis() };
+    await adminAuth.handleLogin({ ip: '10.0.0.1', body: { token: 'not-the-token' } } as any, res);
+    expect(res.status).toHaveBeenCalledWith(401);
+
+    const limited = await authenticate('Bearer not-the-token');
+    expect(limited.res.status).toHaveBeenCalledWith(429);
+    expect(limited.res.setHeader).toHaveBeenCalledWith('Retry-After', expect.any(String));
+    expect(limited.next).not.toHaveBeenCalled();
+
+    // The right token and active sessions still work
+    expect((await authenticate('Bearer secret-admin-token')).next).toHaveBeenCalled();
+    const { session } = adminAuth.login('secret-admin-token')!;
+    expect((await authenticate(`Bearer ${session}`)).next).toHaveBeenCalled();
+  });
+
+  it('should not count stale session tokens as failed attempts', async () => {
+    const adminAuth = await initialize('secret-admin-token');
+    const { session } = adminAuth.login('secret-admin-token')!;
+    adminAuth.logout(session);
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      expect((await authenticate(`Bearer ${session}`)).res.status).toHaveBeenCalledWith(401);
+    }
+    expect((await authenticate('Bearer not-the-token')).res.status).toHaveBeenCalledWith(401);
+  });
+});
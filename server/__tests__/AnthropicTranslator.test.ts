@@ -0,0 +1,207 @@
+/**
+ * Unit tests for AnthropicTranslator
+ * Tests conversion between the Anthropic Messages format and OpenAI Chat Completions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { AnthropicTranslator, anthropicResponseFormat } from '../components/AnthropicTranslator.js';
+
+describe('AnthropicTranslator', () => {
+  describe('toChatCompletionRequest', () => {
+    it('should convert the system prompt, sampling settings and tools', () => {
+      const request = AnthropicTranslator.toChatCompletionRequest({
+        model: 'claude-sonnet',
+        system: [{ type: 'text', text: 'Be brief.' }],
+        messages: [{ role: 'user', content: 'Hello' }],
+        max_tokens: 256,
+        temperature: 0.2,
+        stop_sequences: ['END'],
+        stream: true,
+        tools: [{ name: 'get_weather', description: 'Weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } }],
+        tool_choice: { type: 'any' },
+        metadata: { user_id: 'user-1' }
+      });
+
+      expect(request).toEqual({
+        model: 'claude-sonnet',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hello' }
+        ],
+        max_tokens: 256,
+        temperature: 0.2,
+        stop: ['END'],
+        stream: true,
+        tools: [{
+          type: 'function',
+          function: { name: 'get_weather', description: 'Weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } }
+        }],
+        tool_choice: 'required',
+        user: 'user-1'
+      });
+    });
+
+    it('should convert tool use and tool result blocks into tool calls and tool messages', () => {
+      const request = AnthropicTranslator.toChatCompletionRequest({
+        model: 'claude-sonnet',
+        messages: [
+          { role: 'user', content: 'What is the weather in Paris?' },
+          {
+            role: 'assistant',
+            content: [
+              { type: 'thinking' },
+              { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+            ]
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: '21C' }] },
+              { type: 'text', text: 'And tomorrow?' }
+            ]
+          }
+        ]
+      });
+
+      expect(request.messages.slice(1)).toEqual([
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+        },
+        { role: 'tool', tool_call_id: 'toolu_1', content: '21C' },
+        { role: 'user', content: [{ type: 'text', text: 'And tomorrow?' }] }
+      ]);
+    });
+
+    it('should convert base64 images into data URLs', () => {
+      const request = AnthropicTranslator.toChatCompletionRequest({
+        model: 'claude-sonnet',
+        messages: [{
+          role: 'user',
+          content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } }]
+        }]
+      });
+
+      expect(request.messages[0]).toEqual({
+        role: 'user',
+        content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }]
+      });
+    });
+
+    it('should reject requests without messages', () => {
+      expect(() => AnthropicTranslator.toChatCompletionRequest({ model: 'claude-sonnet' } as any))
+        .toThrow('messages must be an array');
+    });
+  });
+
+  describe('toAnthropicMessage', () => {
+    it('should convert text, tool calls, stop reason and usage', () => {
+      const message = AnthropicTranslator.toAnthropicMessage({
+        id: 'chatcmpl-123',
+        object: 'chat.completion',
+        created: 0,
+        model: 'claude-sonnet',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Let me check.',
+            refusal: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+          },
+          finish_reason: 'tool_calls',
+          logprobs: null
+        }],
+        usage: { prompt_tokens: 20, completion_tokens: 8, total_tokens: 28 }
+      });
+
+      expect(message).toEqual({
+        id: 'msg_123',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-sonnet',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }
+        ],
+        stop_reason: 'tool_use',
+        stop_sequence: null,
+        usage: { input_tokens: 20, output_tokens: 8 }
+      });
+    });
+  });
+
+  describe('anthropicResponseFormat', () => {
+    const createMockResponse = () => {
+      const written: string[] = [];
+      const res: any = {
+        writeHead: jest.fn(),
+        write: jest.fn((data: string) => written.push(data)),
+        end: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      const events = () => written.map((data) => {
+        const [, type, json] = /^event: (\S+)\ndata: (.*)\n\n$/s.exec(data)!;
+        return { type, data: JSON.parse(json) };
+      });
+      return { res, events };
+    };
+
+    const chunk = (delta: any, finishReason: string | null = null): any => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'claude-sonnet',
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+    });
+
+    it('should stream text and tool calls as Anthropic events', () => {
+      const { res, events } = createMockResponse();
+
+      const stream = anthropicResponseFormat.startStream(res);
+      stream.writeChunk(chunk({ role: 'assistant' }));
+      stream.writeChunk(chunk({ content: 'Hi' }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] }));
+      stream.writeChunk(chunk({}, 'tool_calls'));
+      stream.end({ prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 });
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+      expect(events().map(({ type, data }) => ({ type, index: data.index }))).toEqual([
+        { type: 'message_start', index: undefined },
+        { type: 'content_block_start', index: 0 },
+        { type: 'content_block_delta', index: 0 },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1 },
+        { type: 'content_block_delta', index: 1 },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', index: undefined },
+        { type: 'message_stop', index: undefined }
+      ]);
+      const [start, , textDelta, , toolStart, toolDelta, , messageDelta] = events();
+      expect(start.data.message).toEqual(expect.objectContaining({ id: 'msg_1', role: 'assistant', model: 'claude-sonnet' }));
+      expect(textDelta.data.delta).toEqual({ type: 'text_delta', text: 'Hi' });
+      expect(toolStart.data.content_block).toEqual({ type: 'tool_use', id: 'call_1', name: 'get_weather', input: {} });
+      expect(toolDelta.data.delta).toEqual({ type: 'input_json_delta', partial_json: '{"city":' });
+      expect(messageDelta.data).toEqual(expect.objectContaining({
+        delta: { stop_reason: 'tool_use', stop_sequence: null },
+        usage: { input_tokens: 12, output_tokens: 5 }
+      }));
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should send errors in the Anthropic error format', () => {
+      const { res } = createMockResponse();
+
+      anthropicResponseFormat.sendError(res, 429, 'Rate limit exceeded');
+
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.json).toHaveBeenCalledWith({
+        type: 'error',
+        error: { type: 'rate_limit_error', message: 'Rate limit exceeded' }
+      });
+    });
+  });
+});
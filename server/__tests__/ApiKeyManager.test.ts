@@ -0,0 +1,173 @@
+/**
+ * Unit tests for ApiKeyManager
+ * Tests issuing, revoking and authenticating gateway API keys
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+
+const mockEvents = new EventEmitter();
+let mockConfig: any;
+
+jest.mock('../components/config/ConfigManager.js', () => ({
+  ConfigManager: {
+    getInstance: () => ({
+      events: mockEvents,
+      getConfig: () => mockConfig,
+      updateConfig: async (newConfig: any) => {
+        mockConfig = newConfig;
+        mockEvents.emit('configUpdated', newConfig);
+      },
+    }),
+  },
+}));
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('ApiKeyManager', () => {
+  const initialize = async () => {
+    const { ApiKeyManager } = await import('../components/ApiKeyManager.js');
+    ApiKeyManager.initialize();
+    return ApiKeyManager.getInstance();
+  };
+
+  const authenticate = async (authorization?: string, headers: Record<string, string> = {}) => {
+    const manager = (await import('../components/ApiKeyManager.js')).ApiKeyManager.getInstance();
+    const req = { path: '/v1/chat/completions', headers: authorization ? { authorization, ...headers } : headers };
+    const res: any = {
+      locals: {},
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    const next = jest.fn();
+    manager.authenticate(req as any, res, next);
+    return { res, next };
+  };
+
+  beforeEach(() => {
+    mockEvents.removeAllListeners();
+    mockConfig = { providers: [] };
+  });
+
+  afterEach(async () => {
+    const { ApiKeyManager } = await import('../components/ApiKeyManager.js');
+    (ApiKeyManager as any).instance = undefined;
+  });
+
+  it('should not require a key while none are configured', async () => {
+    await initialize();
+
+    const { res, next } = await authenticate();
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.apiKey).toBeUndefined();
+  });
+
+  it('should issue keys that are stored only as a hash', async () => {
+    const manager = await initialize();
+
+    const result = await manager.createKey('team-a', { allowedModels: ['gpt-4o'], limits: { costPerDay: 5 } });
+
+    if ('error' in result) throw new Error(result.error);
+    expect(result.key).toMatch(/^cr-/);
+    expect(result.apiKey).toEqual(expect.objectContaining({
+      name: 'team-a',
+      keyPrefix: result.key.slice(0, 10),
+      allowedModels: ['gpt-4o'],
+      limits: { costPerDay: 5 },
+    }));
+    expect(result.apiKey).not.toHaveProperty('keyHash');
+    expect(JSON.stringify(mockConfig)).not.toContain(result.key);
+    expect(manager.listKeys()).toEqual([result.apiKey]);
+  });
+
+  it('should reject duplicate and invalid key names', async () => {
+    const manager = await initialize();
+    await manager.createKey('team-a');
+
+    expect(await manager.createKey('team-a')).toEqual(expect.objectContaining({ status: 409 }));
+    expect(await manager.createKey('a,b')).toEqual(expect.objectContaining({ status: 400 }));
+  });
+
+  it('should authenticate requests with a valid Bearer key', async () => {
+    const manager = await initialize();
+    const result = await manager.createKey('team-a');
+    if ('error' in result) throw new Error(result.error);
+
+    const { res, next } = await authenticate(`Bearer ${result.key}`);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.apiKey).toEqual(expect.objectContaining({ id: result.apiKey.id, name: 'team-a' }));
+  });
+
+  it('should accept the key in the x-api-key header', async () => {
+    const manager = await initialize();
+    const result = await manager.createKey('team-a');
+    if ('error' in result) throw new Error(result.error);
+
+    const { res, next } = await authenticate(undefined, { 'x-api-key': result.key });
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.apiKey).toEqual(expect.objectContaining({ id: result.apiKey.id }));
+  });
+
+  it('should accept the key in the x-goog-api-key header', async () => {
+    const manager = await initialize();
+    const result = await manager.createKey('team-a');
+    if ('error' in result) throw new Error(result.error);
+
+    const { res, next } = await authenticate(undefined, { 'x-goog-api-key': result.key });
+
+    expect(next).toHaveBeenCalled();
+    expect(res.locals.apiKey).toEqual(expect.objectContaining({ id: result.apiKey.id }));
+  });
+
+  it('should reject missing, unknown and revoked keys', async () => {
+    const manager = await initialize();
+    const result = await manager.createKey('team-a');
+    if ('error' in result) throw new Error(result.error);
+
+    const missing = await authenticate();
+    expect(missing.res.status).toHaveBeenCalledWith(401);
+    expect(missing.next).not.toHaveBeenCalled();
+
+    const unknown = await authenticate('Bearer cr-not-a-real-key');
+    expect(unknown.res.status).toHaveBeenCalledWith(401);
+    expect(unknown.res.json).toHaveBeenCalledWith({ error: 'Invalid API key.' });
+
+    await manager.revokeKey(result.apiKey.id);
+    const revoked = await authenticate(`Bearer ${result.key}`);
+    expect(revoked.res.status).toHaveBeenCalledWith(401);
+    expect(revoked.res.json).toHaveBeenCalledWith({ error: 'This API key has been revoked.' });
+    expect(manager.getKey(result.apiKey.id)?.revokedAt).toEqual(expect.any(String));
+  });
+
+  it('should replace the allowed models and limits of a key', async () => {
+    const manager = await initialize();
+    const created = await manager.createKey('team-a', { allowedModels: ['gpt-4o'] });
+    if ('error' in created) throw new Error(created.error);
+
+    const updated = await manager.updateKey(created.apiKey.id, { limits: { requestsPerMinute: 10 } });
+
+    expect(updated).toEqual({ apiKey: expect.objectContaining({ limits: { requestsPerMinute: 10 } }) });
+    expect(manager.getKey(created.apiKey.id)?.allowedModels).toBeUndefined();
+    expect(await manager.updateKey('missing', {})).toEqual(expect.objectContaining({ status: 404 }));
+  });
+
+  it('should only allow listed models', async () => {
+    const { ApiKeyManager } = await import('../components/ApiKeyManager.js');
+    const apiKey: any = { id: '1', name: 'team-a', allowedModels: ['gpt-4o'] };
+
+    expect(ApiKeyManager.allowsModel(apiKey, 'gpt-4o')).toBe(true);
+    expect(ApiKeyManager.allowsModel(apiKey, 'claude-3-opus')).toBe(false);
+    expect(ApiKeyManager.allowsModel({ ...apiKey, allowedModels: undefined }, 'claude-3-opus')).toBe(true);
+    expect(ApiKeyManager.allowsModel(undefined, 'claude-3-opus')).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for CircuitBreaker
+ * Tests the closed/open/half-open state machine driven by upstream errors
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+
+const mockEvents = new EventEmitter();
+const mockConfig = {
+  providers: [{ id: 'openai-provider', type: 'openai', models: [{ name: 'gpt-4' }] }],
+  circuitBreaker: { failureThreshold: 2, cooldownSeconds: 10, maxCooldownSeconds: 15 },
+};
+
+jest.mock('../components/config/ConfigManager.js', () => ({
+  ConfigManager: {
+    getInstance: () => ({
+      events: mockEvents,
+      getConfig: () => mockConfig,
+    }),
+  },
+}));
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('CircuitBreaker', () => {
+  const serverError = Object.assign(new Error('Service Unavailable'), { statusCode: 503 });
+  let now: number;
+
+  beforeEach(async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    (CircuitBreaker as any).instance = undefined;
+    mockEvents.removeAllListeners();
+    CircuitBreaker.initialize();
+
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should open after consecutive upstream failures reach the threshold', async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    const breaker = CircuitBreaker.getInstance();
+
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+    expect(breaker.isAvailable('openai-provider', 'gpt-4')).toBe(true);
+
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+    expect(breaker.isAvailable('openai-provider', 'gpt-4')).toBe(false);
+    expect(breaker.getStatus('openai-provider', 'gpt-4')).toEqual({
+      state: 'open',
+      consecutiveFailures: 2,
+      lastError: 'Service Unavailable',
+      retryAt: now + 10_000,
+    });
+  });
+
+  it('should count rejected credentials but ignore other client errors', async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    const breaker = CircuitBreaker.getInstance();
+    const unauthorized = Object.assign(new Error('Unauthorized'), { statusCode: 401 });
+    const badRequest = Object.assign(new Error('Bad Request'), { statusCode: 400 });
+
+    breaker.recordFailure('openai-provider', 'gpt-4', badRequest);
+    breaker.recordFailure('openai-provider', 'gpt-4', badRequest);
+    expect(breaker.getStatus('openai-provider', 'gpt-4').state).toBe('closed');
+
+    breaker.recordFailure('openai-provider', 'gpt-4', unauthorized);
+    breaker.recordFailure('openai-provider', 'gpt-4', unauthorized);
+    expect(breaker.getStatus('openai-provider', 'gpt-4').state).toBe('open');
+  });
+
+  it('should go half-open after the cooldown and close on success', async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    const breaker = CircuitBreaker.getInstance();
+
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+
+    now += 10_000;
+    expect(breaker.isAvailable('openai-provider', 'gpt-4')).toBe(true);
+    expect(breaker.startRequest('openai-provider', 'gpt-4')).toBe(true);
+    expect(breaker.getStatus('openai-provider', 'gpt-4').state).toBe('half-open');
+
+    breaker.recordSuccess('openai-provider', 'gpt-4');
+    expect(breaker.getStatus('openai-provider', 'gpt-4')).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should admit a single probe request while half-open', async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    const breaker = CircuitBreaker.getInstance();
+    const badRequest = Object.assign(new Error('Bad Request'), { statusCode: 400 });
+
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+
+    now += 10_000;
+    expect(breaker.startRequest('openai-provider', 'gpt-4')).toBe(true);
+    expect(breaker.isAvailable('openai-provider', 'gpt-4')).toBe(false);
+    expect(breaker.startRequest('openai-provider', 'gpt-4')).toBe(false);
+
+    // A probe that says nothing about the backend's health makes way for the next one
+    breaker.abandonRequest('openai-provider', 'gpt-4');
+    expect(breaker.startRequest('openai-provider', 'gpt-4')).toBe(true);
+    breaker.recordFailure('openai-provider', 'gpt-4', badRequest);
+    expect(breaker.startRequest('openai-provider', 'gpt-4')).toBe(true);
+    expect(breaker.getStatus('openai-provider', 'gpt-4').state).toBe('half-open');
+  });
+
+  it('should re-open a half-open circuit on failure with a longer, capped cooldown', async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    const breaker = CircuitBreaker.getInstance();
+
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+
+    now += 10_000;
+    breaker.startRequest('openai-provider', 'gpt-4');
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+
+    // The cooldown doubles to 20s but is capped at maxCooldownSeconds
+    expect(breaker.isAvailable('openai-provider', 'gpt-4')).toBe(false);
+    expect(breaker.startRequest('openai-provider', 'gpt-4')).toBe(false);
+    expect(breaker.getStatus('openai-provider', 'gpt-4').retryAt).toBe(now + 15_000);
+  });
+
+  it('should forget circuits for models removed from the config', async () => {
+    const { CircuitBreaker } = await import('../components/CircuitBreaker.js');
+    const breaker = CircuitBreaker.getInstance();
+
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+    breaker.recordFailure('openai-provider', 'gpt-4', serverError);
+
+    mockEvents.emit('configUpdated', { providers: [] });
+
+    expect(breaker.getStatus('openai-provider', 'gpt-4').state).toBe('closed');
+  });
+});
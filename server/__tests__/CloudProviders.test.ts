@@ -0,0 +1,180 @@
+/**
+ * Tests for the Azure OpenAI and Amazon Bedrock providers
+ * Runs requests through the real AI SDK providers against local stand-in endpoints
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ProviderSchema } from '#schemas/provider.schema';
+
+// Providers that need local tooling or credentials to load
+jest.mock('ai-sdk-provider-gemini-cli', () => ({ createGeminiProvider: jest.fn() }));
+jest.mock('ai-sdk-provider-claude-code', () => ({ createClaudeCode: jest.fn() }));
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+jest.mock('../components/config/ConfigManager.js', () => ({
+  ConfigManager: {
+    getInstance: () => ({ events: { on: jest.fn() } })
+  }
+}));
+
+jest.mock('../components/PriceData.js', () => ({
+  PriceData: {
+    getInstance: () => ({
+      getPriceWithOverride: () => undefined
+    })
+  }
+}));
+
+type RecordedRequest = { method?: string; url?: string; headers: IncomingMessage['headers']; body: any };
+
+describe('Azure OpenAI and Amazon Bedrock providers', () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+
+  // Answers like Azure OpenAI chat completions and the Bedrock Converse API
+  const respond = (url: string) => url.includes('/converse')
+    ? {
+      output: { message: { role: 'assistant', content: [{ text: 'Hello from Bedrock' }] } },
+      stopReason: 'end_turn',
+      usage: { inputTokens: 12, outputTokens: 4, totalTokens: 16 }
+    }
+    : {
+      id: 'chatcmpl-azure',
+      object: 'chat.completion',
+      created: 1700000000,
+      model: 'gpt-4o',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello from Azure' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 }
+    };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(body || '{}') });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(respond(req.url ?? '')));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const mockUsageManager = {
+    consume: jest.fn(),
+    getCurrentUsage: jest.fn(() => []),
+    markUpstreamExhausted: jest.fn()
+  };
+  const mockCircuitBreaker = {
+    startRequest: () => true,
+    abandonRequest: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn()
+  };
+  const mockUsageLedger = { append: jest.fn() };
+
+  const execute = async (provider: any, model: any) => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req: any = {
+      body: { model: model.name, messages: [{ role: 'user', content: 'Hello' }] },
+      headers: {}
+    };
+    const res: any = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
+      on: jest.fn(),
+      locals: { chosenProvider: provider, chosenModel: model }
+    };
+    await executor.execute(req, res);
+    return res;
+  };
+
+  it('should send Azure requests to the provider deployment with its API key', async () => {
+    const provider = {
+      id: 'azure',
+      type: 'azure',
+      resourceName: 'my-resource',
+      deploymentName: 'gpt4o-prod',
+      apiKey: 'azure-key',
+      baseURL: `${baseURL}/openai/deployments`,
+      models: [{ name: 'gpt-4o' }]
+    };
+
+    const res = await execute(provider, provider.models[0]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toMatch(/^\/openai\/deployments\/gpt4o-prod\/chat\/completions\?api-version=/);
+    expect(requests[0].headers['api-key']).toBe('azure-key');
+    expect(requests[0].body.messages).toEqual([{ role: 'user', content: 'Hello' }]);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'gpt-4o',
+      choices: [expect.objectContaining({ message: expect.objectContaining({ content: 'Hello from Azure' }) })],
+      usage: expect.objectContaining({ prompt_tokens: 10, completion_tokens: 3 })
+    }));
+  });
+
+  it('should send signed Bedrock requests for the model in the provider region', async () => {
+    const provider = {
+      id: 'bedrock',
+      type: 'bedrock',
+      accessKeyId: 'AKIDEXAMPLE',
+      secretAccessKey: 'bedrock-secret',
+      region: 'eu-west-1',
+      baseURL,
+      models: [{ name: 'anthropic.claude-3-haiku-20240307-v1:0' }]
+    };
+
+    const res = await execute(provider, provider.models[0]);
+
+    expect(requests).toHaveLength(1);
+    expect(decodeURIComponent(requests[0].url!)).toBe('/model/anthropic.claude-3-haiku-20240307-v1:0/converse');
+    expect(requests[0].headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/bedrock\/aws4_request/
+    );
+    expect(requests[0].body.messages).toEqual([{ role: 'user', content: [{ text: 'Hello' }] }]);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      choices: [expect.objectContaining({ message: expect.objectContaining({ content: 'Hello from Bedrock' }) })],
+      usage: expect.objectContaining({ prompt_tokens: 12, completion_tokens: 4 })
+    }));
+  });
+
+  it('should only accept Azure providers with a deployment and a single model', () => {
+    const azure = {
+      id: 'azure',
+      type: 'azure',
+      resourceName: 'my-resource',
+      deploymentName: 'gpt4o-prod',
+      apiKey: 'azure-key',
+      models: [{ name: 'gpt-4o' }]
+    };
+
+    expect(ProviderSchema.safeParse(azure).success).toBe(true);
+    expect(ProviderSchema.safeParse({ ...azure, deploymentName: undefined }).success).toBe(false);
+
+    const twoModels = ProviderSchema.safeParse({ ...azure, models: [{ name: 'gpt-4o' }, { name: 'gpt-4o-mini' }] });
+    expect(twoModels.success).toBe(false);
+    expect(twoModels.error?.issues[0].path).toEqual(['models']);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for CompletionsTranslator
+ * Tests conversion between the legacy OpenAI Completions format and Chat Completions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { CompletionsTranslator, completionsResponseFormat, translateCompletionsRequest } from '../components/CompletionsTranslator.js';
+
+describe('CompletionsTranslator', () => {
+  describe('toChatCompletionRequest', () => {
+    it('should send the prompt as a user message with the sampling settings', () => {
+      const request = CompletionsTranslator.toChatCompletionRequest({
+        model: 'gpt-3.5-turbo-instruct',
+        prompt: ['Say hello'],
+        max_tokens: 16,
+        temperature: 0,
+        stop: '\n',
+        stream: true
+      });
+
+      expect(request).toEqual({
+        model: 'gpt-3.5-turbo-instruct',
+        messages: [{ role: 'user', content: 'Say hello' }],
+        max_tokens: 16,
+        temperature: 0,
+        stop: '\n',
+        stream: true
+      });
+    });
+
+    it('should turn a suffix into a fill-in-the-middle instruction', () => {
+      const request = CompletionsTranslator.toChatCompletionRequest({
+        model: 'code',
+        prompt: 'function add(a, b) {\n',
+        suffix: '\n}'
+      });
+
+      expect(request.messages).toEqual([
+        { role: 'system', content: expect.stringContaining('Fill in the missing text') },
+        { role: 'user', content: '<prefix>function add(a, b) {\n</prefix><suffix>\n}</suffix>' }
+      ]);
+    });
+
+    it('should reject batched and token prompts', () => {
+      expect(() => CompletionsTranslator.toChatCompletionRequest({ model: 'code', prompt: ['a', 'b'] }))
+        .toThrow('prompt must be a string');
+      expect(() => CompletionsTranslator.toChatCompletionRequest({ model: 'code', prompt: [1, 2, 3] }))
+        .toThrow('prompt must be a string');
+    });
+  });
+
+  describe('toCompletion', () => {
+    it('should convert choices, finish reasons and usage, echoing the prompt', () => {
+      const completion = CompletionsTranslator.toCompletion({
+        id: 'chatcmpl-123',
+        object: 'chat.completion',
+        created: 1,
+        model: 'code',
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: ' world', refusal: null },
+          finish_reason: 'length',
+          logprobs: null
+        }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+      }, 'Hello');
+
+      expect(completion).toEqual({
+        id: 'cmpl-123',
+        object: 'text_completion',
+        created: 1,
+        model: 'code',
+        choices: [{ index: 0, text: 'Hello world', logprobs: null, finish_reason: 'length' }],
+        usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }
+      });
+    });
+  });
+
+  describe('completionsResponseFormat', () => {
+    const chunk = (delta: any, finishReason: string | null = null): any => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 1,
+      model: 'code',
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+    });
+
+    it('should stream text_completion chunks with the requested usage chunk', () => {
+      const written: string[] = [];
+      const req: any = { body: { model: 'code', prompt: 'Hi', stream: true, stream_options: { include_usage: true } } };
+      const res: any = { locals: {}, writeHead: jest.fn(), write: jest.fn((data: string) => written.push(data)), end: jest.fn() };
+      const next = jest.fn();
+
+      translateCompletionsRequest(req, res, next);
+      expect(next).toHaveBeenCalled();
+
+      const stream = completionsResponseFormat.startStream(res);
+      stream.writeChunk(chunk({ role: 'assistant' }));
+      stream.writeChunk(chunk({ content: 'Hel' }));
+      stream.writeChunk(chunk({ content: 'lo' }));
+      stream.writeChunk(chunk({}, 'stop'));
+      stream.end({ prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 });
+
+      expect(written.pop()).toBe('data: [DONE]\n\n');
+      const chunks = written.map((data) => JSON.parse(/^data: (.*)\n\n$/s.exec(data)![1]));
+      expect(chunks.map(({ choices, usage }) => ({ choices, usage }))).toEqual([
+        { choices: [{ index: 0, text: 'Hel', logprobs: null, finish_reason: null }], usage: undefined },
+        { choices: [{ index: 0, text: 'lo', logprobs: null, finish_reason: null }], usage: undefined },
+        { choices: [{ index: 0, text: '', logprobs: null, finish_reason: 'stop' }], usage: undefined },
+        { choices: [], usage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 } }
+      ]);
+      expect(chunks[0]).toEqual(expect.objectContaining({ id: 'cmpl-1', object: 'text_completion', model: 'code' }));
+      expect(res.end).toHaveBeenCalled();
+    });
+  });
+});
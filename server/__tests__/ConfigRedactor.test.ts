@@ -0,0 +1,63 @@
+/**
+ * Unit tests for ConfigRedactor
+ * Tests hiding provider secrets in the config and restoring them on save
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ConfigRedactor, REDACTED } from '../components/config/ConfigRedactor.js';
+
+describe('ConfigRedactor', () => {
+  const config: any = {
+    providers: [
+      { id: 'openai', type: 'openai', apiKey: 'sk-secret', models: [{ name: 'gpt-4o' }] },
+      { id: 'copilot', type: 'copilot', oauthToken: 'gho_secret', models: [{ name: 'gpt-4.1' }] },
+      {
+        id: 'bedrock',
+        type: 'bedrock',
+        accessKeyId: 'AKIA123',
+        secretAccessKey: 'aws-secret',
+        region: 'us-east-1',
+        models: [{ name: 'claude' }],
+      },
+    ],
+  };
+
+  it('should replace every provider secret with the placeholder', () => {
+    const redacted = ConfigRedactor.redact(config);
+
+    expect(redacted.providers[0].apiKey).toBe(REDACTED);
+    expect(redacted.providers[1].oauthToken).toBe(REDACTED);
+    expect(redacted.providers[1].apiKey).toBeUndefined();
+    expect(redacted.providers[2]).toEqual(expect.objectContaining({
+      accessKeyId: REDACTED,
+      secretAccessKey: REDACTED,
+      region: 'us-east-1',
+    }));
+    expect(JSON.stringify(redacted)).not.toMatch(/sk-secret|gho_secret|AKIA123|aws-secret/);
+    expect(config.providers[0].apiKey).toBe('sk-secret');
+  });
+
+  it('should restore redacted secrets and keep changed ones', () => {
+    const redacted: any = ConfigRedactor.redact(config);
+    redacted.providers[0].apiKey = 'sk-new';
+
+    const result = ConfigRedactor.restore(redacted, config);
+
+    if ('error' in result) throw new Error(result.error);
+    expect(result.config.providers.map((p) => [p.apiKey, p.oauthToken, p.accessKeyId, p.secretAccessKey])).toEqual([
+      ['sk-new', undefined, undefined, undefined],
+      [undefined, 'gho_secret', undefined, undefined],
+      [undefined, undefined, 'AKIA123', 'aws-secret'],
+    ]);
+  });
+
+  it('should reject placeholders without a saved secret', () => {
+    const redacted: any = ConfigRedactor.redact(config);
+    redacted.providers[0].id = 'renamed';
+
+    expect(ConfigRedactor.restore(redacted, config)).toEqual({
+      error: expect.stringContaining("provider 'renamed'"),
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for ConfigReferences
+ * Tests resolving environment variable and file references in provider fields
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ConfigReferences } from '../components/config/ConfigReferences.js';
+
+describe('ConfigReferences', () => {
+  let tempDir: string;
+  let secretFile: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'config-references-'));
+    secretFile = path.join(tempDir, 'groq');
+    writeFileSync(secretFile, 'gsk-from-file\n');
+    process.env.TEST_OPENAI_KEY = 'sk-from-env';
+    process.env.TEST_LLM_HOST = 'llm.internal';
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+    delete process.env.TEST_OPENAI_KEY;
+    delete process.env.TEST_LLM_HOST;
+  });
+
+  const storedConfig = (): any => ({
+    providers: [
+      {
+        id: 'openai',
+        type: 'openai-compatible',
+        apiKey: '${env:TEST_OPENAI_KEY}',
+        baseURL: 'https://${env:TEST_LLM_HOST}/v1',
+        models: [{ name: 'gpt-4o' }],
+      },
+      { id: 'groq', type: 'groq', apiKey: { file: secretFile }, models: [{ name: 'llama3' }] },
+    ],
+  });
+
+  it('should resolve environment variable and file references', () => {
+    const resolved: any = ConfigReferences.resolve(storedConfig());
+
+    expect(resolved.providers[0].apiKey).toBe('sk-from-env');
+    expect(resolved.providers[0].baseURL).toBe('https://llm.internal/v1');
+    expect(resolved.providers[1].apiKey).toBe('gsk-from-file');
+    expect(resolved.providers[1].models).toEqual([{ name: 'llama3' }]);
+  });
+
+  it('should list every reference that cannot be resolved', () => {
+    delete process.env.TEST_OPENAI_KEY;
+    rmSync(secretFile);
+
+    expect(() => ConfigReferences.resolve(storedConfig())).toThrow(
+      /Provider 'openai' field 'apiKey' references environment variable TEST_OPENAI_KEY, which is not set; Provider 'groq' field 'apiKey' references file .*groq, which cannot be read/,
+    );
+  });
+
+  it('should put references back for unchanged fields only', () => {
+    const stored = storedConfig();
+    const resolved: any = ConfigReferences.resolve(stored);
+    const edited = JSON.parse(JSON.stringify(resolved));
+    edited.providers[0].baseURL = 'https://other.example/v1';
+
+    const restored: any = ConfigReferences.restore(edited, stored, resolved);
+
+    expect(restored.providers[0].apiKey).toBe('${env:TEST_OPENAI_KEY}');
+    expect(restored.providers[0].baseURL).toBe('https://other.example/v1');
+    expect(restored.providers[1].apiKey).toEqual({ file: secretFile });
+  });
+
+  it('should resolve and restore references nested in provider fields', () => {
+    const stored: any = {
+      providers: [{
+        id: 'bedrock',
+        type: 'bedrock',
+        models: [
+          { name: 'anthropic.claude-3-haiku-20240307-v1:0', mappedName: 'claude-3-haiku' },
+          { name: '${env:TEST_OPENAI_KEY}-profile', mappedName: { file: secretFile } },
+        ],
+      }],
+    };
+
+    const resolved: any = ConfigReferences.resolve(stored);
+    expect(resolved.providers[0].models).toEqual([
+      { name: 'anthropic.claude-3-haiku-20240307-v1:0', mappedName: 'claude-3-haiku' },
+      { name: 'sk-from-env-profile', mappedName: 'gsk-from-file' },
+    ]);
+
+    const edited = JSON.parse(JSON.stringify(resolved));
+    edited.providers[0].models[1].mappedName = 'renamed';
+    const restored: any = ConfigReferences.restore(edited, stored, resolved);
+    expect(restored.providers[0].models[1]).toEqual({ name: '${env:TEST_OPENAI_KEY}-profile', mappedName: 'renamed' });
+
+    delete process.env.TEST_OPENAI_KEY;
+    expect(() => ConfigReferences.resolve(stored)).toThrow(
+      "Provider 'bedrock' field 'models[1].name' references environment variable TEST_OPENAI_KEY, which is not set",
+    );
+  });
+
+  it('should only treat env placeholders and file objects as references', () => {
+    expect(ConfigReferences.isReference('${env:OPENAI_KEY}')).toBe(true);
+    expect(ConfigReferences.isReference({ file: '/run/secrets/groq' })).toBe(true);
+    expect(ConfigReferences.isReference('sk-literal')).toBe(false);
+    expect(ConfigReferences.isReference('$OPENAI_KEY')).toBe(false);
+    expect(ConfigReferences.isReference({ file: '/run/secrets/groq', other: 1 })).toBe(false);
+  });
+});
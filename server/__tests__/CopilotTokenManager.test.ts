@@ -0,0 +1,70 @@
+/**
+ * Unit tests for CopilotTokenManager
+ * Tests authorizing Copilot requests with short-lived bearer tokens
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('CopilotTokenManager', () => {
+  const originalFetch = global.fetch;
+  let mockFetch: jest.Mock<typeof fetch>;
+  let tokenCount: number;
+
+  beforeEach(() => {
+    tokenCount = 0;
+    mockFetch = jest.fn(async (input: any) => {
+      if (String(input).includes('copilot_internal')) {
+        tokenCount++;
+        return new Response(JSON.stringify({
+          token: `bearer-${tokenCount}`,
+          expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+        }));
+      }
+      return new Response('{}');
+    });
+    global.fetch = mockFetch as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  const authorizationOf = (call: any[]) => new Headers(call[1]?.headers).get('Authorization');
+
+  it('should authorize each request with a cached bearer token', async () => {
+    const { CopilotTokenManager } = await import('../components/config/CopilotTokenManager.js');
+    const provider: any = { id: 'copilot', type: 'copilot', oauthToken: 'gho_cached', models: [] };
+    const authorizedFetch = CopilotTokenManager.createAuthorizedFetch(provider);
+
+    await authorizedFetch('https://api.githubcopilot.com/chat/completions', { headers: { accept: 'application/json' } });
+    await authorizedFetch('https://api.githubcopilot.com/chat/completions', {});
+
+    const requests = mockFetch.mock.calls.filter((call) => !String(call[0]).includes('copilot_internal'));
+    expect(requests.map(authorizationOf)).toEqual(['Bearer bearer-1', 'Bearer bearer-1']);
+    expect(new Headers(requests[0][1]?.headers).get('accept')).toBe('application/json');
+    expect(tokenCount).toBe(1);
+  });
+
+  it('should fetch a new bearer token once the current one expires', async () => {
+    const { CopilotTokenManager } = await import('../components/config/CopilotTokenManager.js');
+    const provider: any = { id: 'copilot', type: 'copilot', oauthToken: 'gho_expiring', models: [] };
+    const authorizedFetch = CopilotTokenManager.createAuthorizedFetch(provider);
+
+    await authorizedFetch('https://api.githubcopilot.com/chat/completions', {});
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 40 * 60 * 1000);
+    await authorizedFetch('https://api.githubcopilot.com/chat/completions', {});
+
+    const requests = mockFetch.mock.calls.filter((call) => !String(call[0]).includes('copilot_internal'));
+    expect(requests.map(authorizationOf)).toEqual(['Bearer bearer-1', 'Bearer bearer-2']);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Unit tests for GeminiTranslator
+ * Tests conversion between the Gemini generateContent format and OpenAI Chat Completions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { GeminiTranslator, geminiResponseFormat, translateGeminiRequest } from '../components/GeminiTranslator.js';
+
+describe('GeminiTranslator', () => {
+  describe('toChatCompletionRequest', () => {
+    it('should convert the system instruction, generation config and function declarations', () => {
+      const request = GeminiTranslator.toChatCompletionRequest({
+        systemInstruction: { parts: [{ text: 'Be brief.' }] },
+        contents: [{ role: 'user', parts: [{ text: 'Hello' }] }],
+        generationConfig: {
+          maxOutputTokens: 256,
+          temperature: 0.2,
+          stopSequences: ['END'],
+          responseMimeType: 'application/json',
+          responseSchema: { type: 'OBJECT', properties: { type: { type: 'STRING', enum: ['OBJECT'] } } }
+        },
+        tools: [{
+          functionDeclarations: [{ name: 'get_weather', parameters: { type: 'OBJECT', properties: { city: { type: 'STRING' } } } }]
+        }],
+        toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: ['get_weather'] } }
+      }, 'gemini-2.0-flash', false);
+
+      expect(request).toEqual({
+        model: 'gemini-2.0-flash',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: [{ type: 'text', text: 'Hello' }] }
+        ],
+        max_tokens: 256,
+        temperature: 0.2,
+        stop: ['END'],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'response', schema: { type: 'object', properties: { type: { type: 'string', enum: ['OBJECT'] } } } }
+        },
+        tools: [{
+          type: 'function',
+          function: { name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } }
+        }],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } },
+        stream: false
+      });
+    });
+
+    it('should match function responses to calls by name when they have no ID', () => {
+      const request = GeminiTranslator.toChatCompletionRequest({
+        contents: [
+          { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+          {
+            role: 'model',
+            parts: [
+              { text: 'thinking...', thought: true },
+              { functionCall: { name: 'get_weather', args: { city: 'Paris' } } }
+            ]
+          },
+          {
+            role: 'user',
+            parts: [
+              { functionResponse: { name: 'get_weather', response: { temperature: 21 } } },
+              { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } }
+            ]
+          }
+        ]
+      }, 'gemini-2.0-flash', true);
+
+      const [, assistant, tool, user] = request.messages as any[];
+      expect(assistant).toEqual({
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: expect.stringMatching(/^call_/), type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+      });
+      expect(tool).toEqual({ role: 'tool', tool_call_id: assistant.tool_calls[0].id, content: '{"temperature":21}' });
+      expect(user).toEqual({ role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }] });
+    });
+
+    it('should reject built-in tools and cached content', () => {
+      const contents = [{ role: 'user' as const, parts: [{ text: 'Hi' }] }];
+      expect(() => GeminiTranslator.toChatCompletionRequest({ contents, tools: [{ googleSearch: {} }] }, 'gemini-2.0-flash', false))
+        .toThrow('Only functionDeclarations tools are supported');
+      expect(() => GeminiTranslator.toChatCompletionRequest({ contents, cachedContent: 'cachedContents/1' }, 'gemini-2.0-flash', false))
+        .toThrow('cachedContent is not supported');
+    });
+  });
+
+  describe('toGenerateContentResponse', () => {
+    it('should convert text, tool calls, finish reason and usage', () => {
+      const response = GeminiTranslator.toGenerateContentResponse({
+        id: 'chatcmpl-123',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gemini-2.0-flash',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Checking.',
+            refusal: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+          },
+          finish_reason: 'tool_calls',
+          logprobs: null
+        }],
+        usage: { prompt_tokens: 20, completion_tokens: 8, total_tokens: 28 }
+      });
+
+      expect(response).toEqual({
+        candidates: [{
+          content: {
+            role: 'model',
+            parts: [{ text: 'Checking.' }, { functionCall: { id: 'call_1', name: 'get_weather', args: { city: 'Paris' } } }]
+          },
+          finishReason: 'STOP',
+          index: 0
+        }],
+        usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 8, totalTokenCount: 28 },
+        modelVersion: 'gemini-2.0-flash',
+        responseId: 'chatcmpl-123'
+      });
+    });
+  });
+
+  describe('geminiResponseFormat', () => {
+    const chunk = (delta: any, finishReason: string | null = null): any => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'gemini-2.0-flash',
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+    });
+
+    const createMockResponse = () => {
+      const written: string[] = [];
+      const res: any = {
+        locals: {},
+        writeHead: jest.fn(),
+        write: jest.fn((data: string) => written.push(data)),
+        end: jest.fn(),
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis()
+      };
+      return { res, written };
+    };
+
+    it('should route the model and stream method from the path', () => {
+      const { res } = createMockResponse();
+      const req: any = {
+        params: { modelAction: 'gemini-2.0-flash:streamGenerateContent' },
+        query: { alt: 'sse' },
+        body: { contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] }
+      };
+      const next = jest.fn();
+
+      translateGeminiRequest(req, res, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.body).toEqual(expect.objectContaining({ model: 'gemini-2.0-flash', stream: true }));
+      expect(res.locals.geminiStreamAlt).toBe('sse');
+
+      const unknown: any = { params: { modelAction: 'gemini-2.0-flash:countTokens' }, query: {}, body: {} };
+      translateGeminiRequest(unknown, res, next);
+      expect(res.status).toHaveBeenCalledWith(400);
+    });
+
+    it('should stream text as it arrives and function calls in the last response', () => {
+      const { res, written } = createMockResponse();
+      res.locals.geminiStreamAlt = 'sse';
+
+      const stream = geminiResponseFormat.startStream(res);
+      stream.writeChunk(chunk({ role: 'assistant' }));
+      stream.writeChunk(chunk({ content: 'Hi' }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, function: { arguments: '{"city":"Paris"}' } }] }));
+      stream.writeChunk(chunk({}, 'tool_calls'));
+      stream.end({ prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 });
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'text/event-stream' }));
+      const responses = written.map((data) => JSON.parse(/^data: (.*)\n\n$/s.exec(data)![1]));
+      expect(responses.map((response) => response.candidates[0])).toEqual([
+        { content: { role: 'model', parts: [{ text: 'Hi' }] }, index: 0 },
+        {
+          content: { role: 'model', parts: [{ functionCall: { id: 'call_1', name: 'get_weather', args: { city: 'Paris' } } }] },
+          index: 0,
+          finishReason: 'STOP'
+        }
+      ]);
+      expect(responses[1].usageMetadata).toEqual({ promptTokenCount: 12, candidatesTokenCount: 5, totalTokenCount: 17 });
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should stream a JSON array without alt=sse', () => {
+      const { res, written } = createMockResponse();
+      res.locals.geminiStreamAlt = 'json';
+
+      const stream = geminiResponseFormat.startStream(res);
+      stream.writeChunk(chunk({ content: 'Hi' }));
+      stream.writeChunk(chunk({}, 'length'));
+      stream.end();
+
+      const responses = JSON.parse(written.join(''));
+      expect(responses).toHaveLength(2);
+      expect(responses[1].candidates[0].finishReason).toBe('MAX_TOKENS');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for OllamaTranslator
+ * Tests conversion between the Ollama API format and OpenAI Chat Completions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { OllamaTranslator, ollamaChatResponseFormat, ollamaGenerateResponseFormat } from '../components/OllamaTranslator.js';
+
+describe('OllamaTranslator', () => {
+  describe('chatToChatCompletionRequest', () => {
+    it('should convert messages, options and format, streaming by default', () => {
+      const request = OllamaTranslator.chatToChatCompletionRequest({
+        model: 'llama3',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'What is this?', images: ['iVBORw0KGgo='] }
+        ],
+        options: { temperature: 0.2, num_predict: 128, stop: ['END'] },
+        format: 'json'
+      });
+
+      expect(request).toEqual({
+        model: 'llama3',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'What is this?' },
+              { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }
+            ]
+          }
+        ],
+        max_tokens: 128,
+        temperature: 0.2,
+        stop: ['END'],
+        response_format: { type: 'json_object' },
+        stream: true
+      });
+    });
+
+    it('should give tool calls IDs and match tool messages to them by name', () => {
+      const request = OllamaTranslator.chatToChatCompletionRequest({
+        model: 'llama3',
+        stream: false,
+        messages: [
+          { role: 'user', content: 'Weather and time in Paris?' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { function: { name: 'get_weather', arguments: { city: 'Paris' } } },
+              { function: { name: 'get_time', arguments: { city: 'Paris' } } }
+            ]
+          },
+          { role: 'tool', content: '12:00', tool_name: 'get_time' },
+          { role: 'tool', content: '21C' }
+        ]
+      });
+
+      const [, assistant, time, weather] = request.messages as any[];
+      expect(assistant.content).toBeNull();
+      expect(assistant.tool_calls.map((call: any) => call.function)).toEqual([
+        { name: 'get_weather', arguments: '{"city":"Paris"}' },
+        { name: 'get_time', arguments: '{"city":"Paris"}' }
+      ]);
+      expect(time).toEqual({ role: 'tool', tool_call_id: assistant.tool_calls[1].id, content: '12:00' });
+      expect(weather).toEqual({ role: 'tool', tool_call_id: assistant.tool_calls[0].id, content: '21C' });
+      expect(request.stream).toBe(false);
+    });
+  });
+
+  describe('generateToChatCompletionRequest', () => {
+    it('should send the system prompt and turn a suffix into a fill-in-the-middle request', () => {
+      const request = OllamaTranslator.generateToChatCompletionRequest({
+        model: 'codellama',
+        system: 'You write Python.',
+        prompt: 'def add(a, b):\n',
+        suffix: '\n\nprint(add(1, 2))'
+      });
+
+      expect(request.messages).toEqual([
+        { role: 'system', content: 'You write Python.' },
+        { role: 'system', content: expect.stringContaining('Fill in the missing text') },
+        { role: 'user', content: '<prefix>def add(a, b):\n</prefix><suffix>\n\nprint(add(1, 2))</suffix>' }
+      ]);
+    });
+  });
+
+  describe('response formats', () => {
+    const chunk = (delta: any, finishReason: string | null = null): any => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'llama3',
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+    });
+
+    const createMockResponse = () => {
+      const written: string[] = [];
+      const res: any = { writeHead: jest.fn(), write: jest.fn((data: string) => written.push(data)), end: jest.fn(), json: jest.fn() };
+      res.status = jest.fn(() => res);
+      const lines = () => written.join('').trim().split('\n').map((line) => JSON.parse(line));
+      return { res, lines };
+    };
+
+    it('should stream chat messages as NDJSON, with tool calls before the done line', () => {
+      const { res, lines } = createMockResponse();
+
+      const stream = ollamaChatResponseFormat.startStream(res);
+      stream.writeChunk(chunk({ role: 'assistant' }));
+      stream.writeChunk(chunk({ content: 'Hi' }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } }] }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, function: { arguments: 'ty":"Paris"}' } }] }));
+      stream.writeChunk(chunk({}, 'tool_calls'));
+      stream.end({ prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 });
+
+      expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({ 'Content-Type': 'application/x-ndjson' }));
+      expect(lines().map(({ created_at: _createdAt, ...line }) => line)).toEqual([
+        { model: 'llama3', message: { role: 'assistant', content: 'Hi' }, done: false },
+        {
+          model: 'llama3',
+          message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'get_weather', arguments: { city: 'Paris' } } }] },
+          done: false
+        },
+        { model: 'llama3', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', prompt_eval_count: 12, eval_count: 5 }
+      ]);
+      expect(res.end).toHaveBeenCalled();
+    });
+
+    it('should send errors with the message as the error', () => {
+      const { res } = createMockResponse();
+
+      ollamaChatResponseFormat.sendError(res, 404, 'No configured provider found for model: llama3');
+
+      expect(res.status).toHaveBeenCalledWith(404);
+      expect(res.json).toHaveBeenCalledWith({ error: 'No configured provider found for model: llama3' });
+    });
+
+    it('should answer generate requests with response text', () => {
+      const { res } = createMockResponse();
+
+      ollamaGenerateResponseFormat.sendCompletion(res, {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'codellama',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'return a + b', refusal: null }, finish_reason: 'length', logprobs: null }],
+        usage: { prompt_tokens: 10, completion_tokens: 4, total_tokens: 14 }
+      });
+
+      expect(res.json).toHaveBeenCalledWith({
+        model: 'codellama',
+        created_at: '1970-01-01T00:00:00.000Z',
+        response: 'return a + b',
+        done: true,
+        done_reason: 'length',
+        prompt_eval_count: 10,
+        eval_count: 4
+      });
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for OpenAITranslator
+ * Tests conversion between OpenAI Chat Completions structures and AI SDK structures
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { OpenAITranslator } from '../components/OpenAITranslator.js';
+
+describe('OpenAITranslator', () => {
+  describe('toCoreMessages', () => {
+    it('should pass plain user messages through unchanged', () => {
+      const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+      expect(OpenAITranslator.toCoreMessages(messages)).toEqual(messages);
+    });
+
+    it('should convert assistant tool calls and tool results', () => {
+      const coreMessages = OpenAITranslator.toCoreMessages([
+        { role: 'user', content: 'What is the weather in Paris?' },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' }
+          }]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"temperature":21}' }
+      ]);
+
+      expect(coreMessages[1]).toEqual({
+        role: 'assistant',
+        content: [{ type: 'tool-call', toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }]
+      });
+      expect(coreMessages[2]).toEqual({
+        role: 'tool',
+        content: [{ type: 'tool-result', toolCallId: 'call_1', toolName: 'get_weather', result: '{"temperature":21}' }]
+      });
+    });
+
+    it('should convert image, audio and file content parts', () => {
+      const coreMessages = OpenAITranslator.toCoreMessages([{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe these' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+          { type: 'image_url', image_url: { url: 'https://example.com/cat.png', detail: 'low' } },
+          { type: 'input_audio', input_audio: { data: 'UklGRg==', format: 'wav' } },
+          { type: 'file', file: { file_data: 'data:application/pdf;base64,JVBERi0=', filename: 'doc.pdf' } }
+        ]
+      }]);
+
+      expect(coreMessages[0]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Describe these' },
+          { type: 'image', image: 'iVBORw0KGgo=', mimeType: 'image/png' },
+          { type: 'image', image: new URL('https://example.com/cat.png'), providerOptions: { openai: { imageDetail: 'low' } } },
+          { type: 'file', data: 'UklGRg==', mimeType: 'audio/wav' },
+          { type: 'file', data: 'JVBERi0=', mimeType: 'application/pdf', filename: 'doc.pdf' }
+        ]
+      });
+    });
+
+    it('should reject file parts that reference uploaded file ids', () => {
+      expect(() => OpenAITranslator.toCoreMessages([{
+        role: 'user',
+        content: [{ type: 'file', file: { file_id: 'file-abc123' } }]
+      }])).toThrow(/file_id references are not supported/);
+    });
+
+    it('should detect image content', () => {
+      expect(OpenAITranslator.hasImageContent([
+        { role: 'user', content: [{ type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }] }
+      ])).toBe(true);
+      expect(OpenAITranslator.hasImageContent([{ role: 'user', content: 'Hello' }])).toBe(false);
+      expect(OpenAITranslator.hasImageContent(undefined)).toBe(false);
+      expect(OpenAITranslator.hasImageContent('hi' as any)).toBe(false);
+      expect(OpenAITranslator.hasImageContent([null, { role: 'user', content: [null] }] as any)).toBe(false);
+    });
+
+    it('should map developer messages to system messages', () => {
+      const coreMessages = OpenAITranslator.toCoreMessages([
+        { role: 'developer', content: [{ type: 'text', text: 'Be terse.' }] }
+      ]);
+
+      expect(coreMessages).toEqual([{ role: 'system', content: 'Be terse.' }]);
+    });
+  });
+
+  describe('tools', () => {
+    it('should convert function tools without an execute function', () => {
+      const toolSet = OpenAITranslator.toToolSet([{
+        type: 'function',
+        function: {
+          name: 'get_weather',
+          description: 'Look up the weather',
+          parameters: { type: 'object', properties: { city: { type: 'string' } } }
+        }
+      }]);
+
+      expect(Object.keys(toolSet!)).toEqual(['get_weather']);
+      expect(toolSet!.get_weather.description).toBe('Look up the weather');
+      expect(toolSet!.get_weather.execute).toBeUndefined();
+    });
+
+    it('should return undefined when no tools are given', () => {
+      expect(OpenAITranslator.toToolSet(undefined)).toBeUndefined();
+      expect(OpenAITranslator.toToolSet([])).toBeUndefined();
+    });
+
+    it('should convert tool_choice values', () => {
+      const toolSet = OpenAITranslator.toToolSet([{ type: 'function', function: { name: 'get_weather' } }]);
+
+      expect(OpenAITranslator.toToolChoice('required')).toBe('required');
+      expect(OpenAITranslator.toToolChoice({ type: 'function', function: { name: 'get_weather' } }, toolSet))
+        .toEqual({ type: 'tool', toolName: 'get_weather' });
+      expect(OpenAITranslator.toToolChoice(undefined)).toBeUndefined();
+    });
+
+    it('should reject unknown tool_choice modes and functions missing from tools', () => {
+      const toolSet = OpenAITranslator.toToolSet([{ type: 'function', function: { name: 'get_weather' } }]);
+
+      expect(() => OpenAITranslator.toToolChoice('any' as any, toolSet)).toThrow('Unsupported tool_choice: any');
+      expect(() => OpenAITranslator.toToolChoice({ type: 'function', function: { name: 'get_time' } }, toolSet))
+        .toThrow('tool_choice names a function that is not in tools: get_time');
+      expect(() => OpenAITranslator.toToolChoice({ type: 'function', function: { name: 'get_weather' } }))
+        .toThrow('tool_choice names a function that is not in tools: get_weather');
+    });
+
+    it('should convert AI SDK tool calls into OpenAI tool_calls', () => {
+      expect(OpenAITranslator.toOpenAIToolCalls([
+        { toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }
+      ])).toEqual([{
+        id: 'call_1',
+        type: 'function',
+        function: { name: 'get_weather', arguments: '{"city":"Paris"}' }
+      }]);
+      expect(OpenAITranslator.toOpenAIToolCalls([])).toBeUndefined();
+    });
+  });
+
+  describe('toOutput', () => {
+    const context = { response: {} as any, usage: {} as any, finishReason: 'stop' as const };
+
+    it('should return undefined for text responses', () => {
+      expect(OpenAITranslator.toOutput(undefined)).toBeUndefined();
+      expect(OpenAITranslator.toOutput({ type: 'text' })).toBeUndefined();
+    });
+
+    it('should accept any JSON for json_object', () => {
+      const output = OpenAITranslator.toOutput({ type: 'json_object' })!;
+
+      expect(output.parseOutput({ text: '{"anything":true}' }, context)).toEqual({ anything: true });
+      expect(() => output.parseOutput({ text: 'not json' }, context)).toThrow();
+    });
+
+    it('should validate responses against a json_schema', () => {
+      const output = OpenAITranslator.toOutput({
+        type: 'json_schema',
+        json_schema: {
+          name: 'person',
+          schema: {
+            type: 'object',
+            properties: { name: { type: 'string' } },
+            required: ['name']
+          }
+        }
+      })!;
+
+      expect(output.parseOutput({ text: '{"name":"Ada"}' }, context)).toEqual({ name: 'Ada' });
+      expect(() => output.parseOutput({ text: '{"age":36}' }, context)).toThrow();
+    });
+
+    it('should accept the same schema $id on every request', () => {
+      const responseFormat = {
+        type: 'json_schema' as const,
+        json_schema: {
+          name: 'person',
+          schema: { $id: 'https://example.com/person', type: 'object', properties: { name: { type: 'string' } } }
+        }
+      };
+
+      OpenAITranslator.toOutput(responseFormat);
+      const output = OpenAITranslator.toOutput(responseFormat)!;
+
+      expect(output.parseOutput({ text: '{"name":"Ada"}' }, context)).toEqual({ name: 'Ada' });
+    });
+
+    it('should throw for schemas that cannot be compiled', () => {
+      expect(() => OpenAITranslator.toOutput({
+        type: 'json_schema',
+        json_schema: { name: 'broken', schema: { type: 'not-a-type' } }
+      })).toThrow();
+    });
+  });
+
+  describe('toOpenAIFinishReason', () => {
+    it('should map AI SDK finish reasons to OpenAI finish reasons', () => {
+      expect(OpenAITranslator.toOpenAIFinishReason('tool-calls')).toBe('tool_calls');
+      expect(OpenAITranslator.toOpenAIFinishReason('content-filter')).toBe('content_filter');
+      expect(OpenAITranslator.toOpenAIFinishReason('length')).toBe('length');
+      expect(OpenAITranslator.toOpenAIFinishReason('stop')).toBe('stop');
+      expect(OpenAITranslator.toOpenAIFinishReason('other')).toBe('stop');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Unit tests for RateLimitHeaders
+ * Tests parsing of upstream rate-limit headers into a resume time
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { RateLimitHeaders } from '../components/RateLimitHeaders.js';
+
+describe('RateLimitHeaders', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  it('should return undefined when nothing is exhausted', () => {
+    expect(RateLimitHeaders.getExhaustedUntil(undefined, now)).toBeUndefined();
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'x-ratelimit-remaining-requests': '42',
+      'x-ratelimit-reset-requests': '1s',
+    }, now)).toBeUndefined();
+  });
+
+  it('should honour retry-after in seconds, as an HTTP date, and retry-after-ms', () => {
+    expect(RateLimitHeaders.getExhaustedUntil({ 'retry-after': '20' }, now)).toBe(now + 20_000);
+    expect(RateLimitHeaders.getExhaustedUntil({ 'Retry-After': 'Wed, 01 Jan 2025 00:01:00 GMT' }, now))
+      .toBe(now + 60_000);
+    expect(RateLimitHeaders.getExhaustedUntil({ 'retry-after': '1', 'retry-after-ms': '1500' }, now))
+      .toBe(now + 1_500);
+  });
+
+  it('should parse OpenAI and Groq duration resets', () => {
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'x-ratelimit-remaining-requests': '10',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '6m0.5s',
+    }, now)).toBe(now + 360_500);
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '250ms',
+    }, now)).toBe(now + 250);
+  });
+
+  it('should parse Anthropic RFC 3339 resets', () => {
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'anthropic-ratelimit-requests-remaining': '0',
+      'anthropic-ratelimit-requests-reset': '2025-01-01T00:00:30Z',
+    }, now)).toBe(now + 30_000);
+  });
+
+  it('should parse OpenRouter epoch millisecond resets', () => {
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'x-ratelimit-limit': '20',
+      'x-ratelimit-remaining': '0',
+      'x-ratelimit-reset': String(now + 45_000),
+    }, now)).toBe(now + 45_000);
+  });
+
+  it('should use the latest of several reset times and ignore ones in the past', () => {
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'retry-after': '5',
+      'anthropic-ratelimit-tokens-remaining': '0',
+      'anthropic-ratelimit-tokens-reset': '2025-01-01T00:00:10Z',
+    }, now)).toBe(now + 10_000);
+    expect(RateLimitHeaders.getExhaustedUntil({
+      'anthropic-ratelimit-requests-remaining': '0',
+      'anthropic-ratelimit-requests-reset': '2024-12-31T23:59:00Z',
+    }, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for ResponsesTranslator
+ * Tests conversion between the OpenAI Responses API format and Chat Completions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { ResponsesTranslator, responsesResponseFormat } from '../components/ResponsesTranslator.js';
+
+describe('ResponsesTranslator', () => {
+  describe('toChatCompletionRequest', () => {
+    it('should convert instructions, string input and sampling settings', () => {
+      const request = ResponsesTranslator.toChatCompletionRequest({
+        model: 'gpt-4o',
+        instructions: 'Be brief.',
+        input: 'Hello',
+        max_output_tokens: 100,
+        temperature: 0.5,
+        stream: true,
+        text: { format: { type: 'json_schema', name: 'answer', schema: { type: 'object' }, strict: true } }
+      });
+
+      expect(request).toEqual({
+        model: 'gpt-4o',
+        messages: [
+          { role: 'system', content: 'Be brief.' },
+          { role: 'user', content: 'Hello' }
+        ],
+        max_tokens: 100,
+        temperature: 0.5,
+        stream: true,
+        response_format: { type: 'json_schema', json_schema: { name: 'answer', schema: { type: 'object' }, strict: true } }
+      });
+    });
+
+    it('should convert function calls and their outputs', () => {
+      const request = ResponsesTranslator.toChatCompletionRequest({
+        model: 'gpt-4o',
+        input: [
+          { role: 'user', content: [{ type: 'input_text', text: 'Weather in Paris and Rome?' }] },
+          { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Paris"}' },
+          { type: 'function_call', call_id: 'call_2', name: 'get_weather', arguments: '{"city":"Rome"}' },
+          { type: 'function_call_output', call_id: 'call_1', output: '21C' },
+          { type: 'function_call_output', call_id: 'call_2', output: '25C' }
+        ],
+        tools: [{ type: 'function', name: 'get_weather', parameters: { type: 'object' }, strict: false }],
+        tool_choice: { type: 'function', name: 'get_weather' }
+      });
+
+      expect(request.messages).toEqual([
+        { role: 'user', content: [{ type: 'text', text: 'Weather in Paris and Rome?' }] },
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } }
+          ]
+        },
+        { role: 'tool', tool_call_id: 'call_1', content: '21C' },
+        { role: 'tool', tool_call_id: 'call_2', content: '25C' }
+      ]);
+      expect(request.tools).toEqual([{ type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } }]);
+      expect(request.tool_choice).toEqual({ type: 'function', function: { name: 'get_weather' } });
+    });
+
+    it('should reject stored conversations and built-in tools', () => {
+      expect(() => ResponsesTranslator.toChatCompletionRequest({ model: 'gpt-4o', input: 'Hi', previous_response_id: 'resp_1' }))
+        .toThrow('previous_response_id is not supported');
+      expect(() => ResponsesTranslator.toChatCompletionRequest({ model: 'gpt-4o', input: 'Hi', tools: [{ type: 'web_search_preview' }] }))
+        .toThrow('Only function tools are supported');
+    });
+  });
+
+  describe('toResponse', () => {
+    it('should convert text, tool calls and usage into output items', () => {
+      const response = ResponsesTranslator.toResponse({
+        id: 'chatcmpl-123',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: 'Checking.',
+            refusal: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{}' } }]
+          },
+          finish_reason: 'tool_calls',
+          logprobs: null
+        }],
+        usage: { prompt_tokens: 20, completion_tokens: 8, total_tokens: 28 }
+      });
+
+      expect(response).toEqual(expect.objectContaining({
+        id: 'resp_123',
+        object: 'response',
+        status: 'completed',
+        model: 'gpt-4o',
+        output_text: 'Checking.',
+        output: [
+          { type: 'message', id: 'msg_123', status: 'completed', role: 'assistant', content: [{ type: 'output_text', text: 'Checking.', annotations: [] }] },
+          { type: 'function_call', id: 'fc_call_1', call_id: 'call_1', name: 'get_weather', arguments: '{}', status: 'completed' }
+        ],
+        usage: expect.objectContaining({ input_tokens: 20, output_tokens: 8, total_tokens: 28 })
+      }));
+    });
+  });
+
+  describe('responsesResponseFormat', () => {
+    const chunk = (delta: any, finishReason: string | null = null): any => ({
+      id: 'chatcmpl-1',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'gpt-4o',
+      choices: [{ index: 0, delta, finish_reason: finishReason, logprobs: null }]
+    });
+
+    it('should stream text and function calls as typed events', () => {
+      const written: string[] = [];
+      const res: any = { writeHead: jest.fn(), write: jest.fn((data: string) => written.push(data)), end: jest.fn() };
+
+      const stream = responsesResponseFormat.startStream(res);
+      stream.writeChunk(chunk({ role: 'assistant' }));
+      stream.writeChunk(chunk({ content: 'Hel' }));
+      stream.writeChunk(chunk({ content: 'lo' }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] }));
+      stream.writeChunk(chunk({ tool_calls: [{ index: 0, function: { arguments: '{}' } }] }));
+      stream.writeChunk(chunk({}, 'tool_calls'));
+      stream.end({ prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 });
+
+      const events = written.map((data) => JSON.parse(/\ndata: (.*)\n\n$/s.exec(data)![1]));
+      expect(events.map((event) => event.type)).toEqual([
+        'response.created',
+        'response.in_progress',
+        'response.output_item.added',
+        'response.content_part.added',
+        'response.output_text.delta',
+        'response.output_text.delta',
+        'response.output_text.done',
+        'response.content_part.done',
+        'response.output_item.done',
+        'response.output_item.added',
+        'response.function_call_arguments.delta',
+        'response.function_call_arguments.done',
+        'response.output_item.done',
+        'response.completed'
+      ]);
+      expect(events.map((event) => event.sequence_number)).toEqual(events.map((_event, index) => index));
+      expect(events[6].text).toBe('Hello');
+      expect(events[11].arguments).toBe('{}');
+      expect(events[13].response).toEqual(expect.objectContaining({
+        status: 'completed',
+        output_text: 'Hello',
+        output: [
+          expect.objectContaining({ type: 'message', status: 'completed' }),
+          expect.objectContaining({ type: 'function_call', call_id: 'call_1', arguments: '{}', status: 'completed' })
+        ],
+        usage: expect.objectContaining({ input_tokens: 5, output_tokens: 3 })
+      }));
+      expect(res.end).toHaveBeenCalled();
+    });
+  });
+});
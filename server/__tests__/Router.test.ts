@@ -21,6 +21,16 @@ jest.mock('../components/UsageManager.js', () => ({
   }
 }));
 
+// Circuits listed here as "providerId/modelName" are reported as open
+const mockOpenCircuits = new Set<string>();
+jest.mock('../components/CircuitBreaker.js', () => ({
+  CircuitBreaker: {
+    getInstance: () => ({
+      isAvailable: (providerId: string, modelName: string) => !mockOpenCircuits.has(`${providerId}/${modelName}`),
+    }),
+  },
+}));
+
 // Mock PriceData
 jest.mock('../components/PriceData.js', () => {
   let mockInstance;
@@ -85,7 +95,9 @@ describe('Router - Basic Tests', () => {
 
   // Mock UsageManager instance
   const mockUsageManager = {
-    isUnderLimit: jest.fn<(providerId: string, modelName: string) => Promise<boolean>>(),
+    isUnderLimit: jest.fn<(providerId: string, modelName: string, estimate?: any) => Promise<boolean>>(),
+    isApiKeyUnderLimit: jest.fn<(keyId: string, estimate?: any) => Promise<boolean>>(),
+    hasTokenOrCostLimit: jest.fn<(providerId: string, modelName: string, apiKeyId?: string) => boolean>(),
     consume: jest.fn(),
     getCurrentUsage: jest.fn()
   };
@@ -111,6 +123,7 @@ describe('Router - Basic Tests', () => {
 
   beforeEach(async () => {
     jest.clearAllMocks();
+    mockOpenCircuits.clear();
     const { ConfigManager } = await import('../components/config/ConfigManager.js');
     const { UsageManager } = await import('../components/UsageManager.js');
     const { PriceData } = await import('../components/PriceData.js');
@@ -269,6 +282,60 @@ describe('Router - Basic Tests', () => {
     expect(next).not.toHaveBeenCalled();
   });
 
+  it('should answer with a 500 instead of rejecting when routing throws', async () => {
+    const { ConfigManager } = await import('../components/config/ConfigManager.js');
+    const { UsageManager } = await import('../components/UsageManager.js');
+    const { Router } = await import('../components/Router.js');
+
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue({
+      getProviders: jest.fn().mockReturnValue(mockProviders),
+    });
+    (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
+    mockUsageManager.isUnderLimit.mockRejectedValue(new Error('Usage store unavailable'));
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest();
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    // Express 4 would leave a rejection from this middleware unhandled
+    await expect(router.chooseProvider(req as any, res as any, next)).resolves.toBeUndefined();
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Failed to select a suitable provider.' });
+    const { logger } = await import('../components/Logger.js');
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Usage store unavailable'));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should route malformed messages and leave rejecting them to the executor', async () => {
+    const { ConfigManager } = await import('../components/config/ConfigManager.js');
+    const { UsageManager } = await import('../components/UsageManager.js');
+    const { Router } = await import('../components/Router.js');
+
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue({
+      getProviders: jest.fn().mockReturnValue(mockProviders),
+    });
+    (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    for (const messages of ['hi', [null], [{ content: 'no role' }], [{ role: 'user', content: [null] }]]) {
+      const req = createMockRequest({ body: { model: 'gpt-3.5-turbo', messages } });
+      const res = createMockResponse();
+      const next = createMockNext();
+
+      await router.chooseProvider(req as any, res as any, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(res.locals.chosenModel.name).toBe('gpt-3.5-turbo');
+    }
+  });
+
   it('should handle mapped model names correctly', async () => {
     const { ConfigManager } = await import('../components/config/ConfigManager.js');
     const { UsageManager } = await import('../components/UsageManager.js');
@@ -332,6 +399,7 @@ describe('Router - Basic Tests', () => {
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
     mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    mockUsageManager.hasTokenOrCostLimit.mockReturnValue(true);
 
     Router.initialize();
     const router = Router.getInstance();
@@ -346,8 +414,10 @@ describe('Router - Basic Tests', () => {
 
     expect(mockUsageManager.isUnderLimit).toHaveBeenCalledWith(
       'custom-provider',
-      'real-model-name' // Should use real name, not mapped name
+      'real-model-name', // Should use real name, not mapped name
+      { tokens: expect.any(Number), costInUSD: expect.any(Number) }
     );
+    expect(mockUsageManager.hasTokenOrCostLimit).toHaveBeenCalledWith('custom-provider', 'real-model-name', undefined);
   });
 
   it('should handle missing model in request body', async () => {
@@ -645,6 +715,264 @@ describe('Router - Basic Tests', () => {
     expect(next).toHaveBeenCalled();
   });
 
+  it('should pass all available candidates to the executor in cost order', async () => {
+    const { ConfigManager } = await import('../components/config/ConfigManager.js');
+    const { UsageManager } = await import('../components/UsageManager.js');
+    const { PriceData } = await import('../components/PriceData.js');
+    const { Router } = await import('../components/Router.js');
+
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue({
+      getProviders: jest.fn().mockReturnValue(mockProviders),
+    });
+    (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    (PriceData.getInstance as jest.MockedFunction<any>).mockReturnValue({
+      getPriceWithOverride: jest.fn((provider: any) => provider.id === 'backup-openai'
+        ? { inputCostPerMillionTokens: 0.5, outputCostPerMillionTokens: 1 }
+        : { inputCostPerMillionTokens: 1, outputCostPerMillionTokens: 2 }),
+    });
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({ body: { model: 'gpt-3.5-turbo', messages: [] } });
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.locals.candidates.map((c: any) => c.provider.id)).toEqual(['backup-openai', 'openai-provider']);
+    expect(res.locals.chosenProvider).toBe(res.locals.candidates[0].provider);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    const { Router } = await import('../components/Router.js');
+
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    mockOpenCircuits.add('openai-provider/gpt-3.5-turbo');
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({ body: { model: 'gpt-3.5-turbo', messages: [] } });
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.locals.candidates.map((c: any) => c.provider.id)).toEqual(['backup-openai']);
+    expect(mockUsageManager.isUnderLimit).not.toHaveBeenCalledWith('openai-provider', 'gpt-3.5-turbo');
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should only route requests containing images to vision-capable models', async () => {
+    const { ConfigManager } = await import('../components/config/ConfigManager.js');
+    const { UsageManager } = await import('../components/UsageManager.js');
+    const { Router } = await import('../components/Router.js');
+
+    const visionProvider = {
+      id: 'vision-provider',
+      type: 'openai',
+      apiKey: 'test-vision-key',
+      models: [{ name: 'gpt-3.5-turbo', mappedName: 'gpt-3.5-turbo', supportsVision: true }]
+    };
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue({
+      getProviders: jest.fn().mockReturnValue([...mockProviders, visionProvider]),
+    });
+    (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({
+      body: {
+        model: 'gpt-3.5-turbo',
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is in this picture?' },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png' } }
+          ]
+        }]
+      }
+    });
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.locals.chosenProvider).toBe(visionProvider);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should return 400 when a request contains images but no vision-capable model is configured', async () => {
+    const { ConfigManager } = await import('../components/config/ConfigManager.js');
+    const { UsageManager } = await import('../components/UsageManager.js');
+    const { Router } = await import('../components/Router.js');
+
+    (ConfigManager.getInstance as jest.Mock).mockReturnValue({
+      getProviders: jest.fn().mockReturnValue(mockProviders),
+    });
+    (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({
+      body: {
+        model: 'gpt-4',
+        messages: [{
+          role: 'user',
+          content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } }]
+        }]
+      }
+    });
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'No vision-capable provider configured for model: gpt-4' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should check limits against the estimated worst-case usage of the request', async () => {
+    const { Router } = await import('../components/Router.js');
+
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    mockUsageManager.hasTokenOrCostLimit.mockReturnValue(true);
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({ body: { model: 'gpt-4', max_tokens: 1000 } });
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    const [providerId, modelName, estimate] = mockUsageManager.isUnderLimit.mock.calls[0];
+    expect([providerId, modelName]).toEqual(['openai-provider', 'gpt-4']);
+    // A short prompt plus up to 1000 completion tokens, at $1/M input and $2/M output
+    expect(estimate.tokens).toBeGreaterThan(1000);
+    expect(estimate.tokens).toBeLessThan(1020);
+    expect(estimate.costInUSD).toBeCloseTo((estimate.tokens - 1000) / 1_000_000 + 2000 / 1_000_000, 10);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should only estimate requests for candidates whose circuit is not open and that a token or cost limit applies to', async () => {
+    const { Router } = await import('../components/Router.js');
+    const { TokenEstimator } = await import('../components/TokenEstimator.js');
+
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    mockUsageManager.hasTokenOrCostLimit.mockReturnValue(false);
+    const countPromptTokens = jest.spyOn(TokenEstimator as any, 'countUnscaledPromptTokens');
+
+    Router.initialize();
+    const router = Router.getInstance();
+    // gpt-3.5-turbo and claude-3-sonnet are both estimated with cl100k_base
+    const candidates = mockProviders.slice(0, 2).map((provider) => ({ provider, model: provider.models[0] }));
+
+    await router['filterAvailableCandidates'](candidates, 'gpt-3.5-turbo', { max_tokens: 1000 });
+    expect(mockUsageManager.isUnderLimit.mock.calls.map(([, , estimate]) => estimate)).toEqual([undefined, undefined]);
+    expect(countPromptTokens).not.toHaveBeenCalled();
+
+    // The candidates share a tokenizer, so the prompt is counted once
+    mockUsageManager.hasTokenOrCostLimit.mockReturnValue(true);
+    await router['filterAvailableCandidates'](candidates, 'gpt-3.5-turbo', { max_tokens: 1000 });
+    expect(countPromptTokens).toHaveBeenCalledTimes(1);
+
+    // Open circuits are skipped before estimating
+    countPromptTokens.mockClear();
+    mockUsageManager.hasTokenOrCostLimit.mockClear();
+    mockOpenCircuits.add(`${mockProviders[0].id}/${mockProviders[0].models[0].name}`);
+    mockOpenCircuits.add(`${mockProviders[1].id}/${mockProviders[1].models[0].name}`);
+    await router['filterAvailableCandidates'](candidates, 'gpt-3.5-turbo', { max_tokens: 1000 });
+    expect(countPromptTokens).not.toHaveBeenCalled();
+    expect(mockUsageManager.hasTokenOrCostLimit).not.toHaveBeenCalled();
+  });
+
+  it('should estimate requests without max_tokens at the model\'s maximum output tokens', async () => {
+    const { Router } = await import('../components/Router.js');
+
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    mockUsageManager.hasTokenOrCostLimit.mockReturnValue(true);
+
+    Router.initialize();
+    const router = Router.getInstance();
+    const provider = mockProviders[0];
+    const candidates = [{ provider, model: { ...provider.models[0], maxOutputTokens: 16384 } }];
+
+    await router['filterAvailableCandidates'](candidates, 'gpt-3.5-turbo', { messages: [] });
+
+    const [, , estimate] = mockUsageManager.isUnderLimit.mock.calls[0];
+    expect(estimate.tokens).toBe(16384 + 3);
+  });
+
+  it('should return 429 when the request exceeds the remaining budget of every provider', async () => {
+    const { Router } = await import('../components/Router.js');
+
+    // Providers only have room for requests without an estimate, i.e. their limits are not yet reached
+    mockUsageManager.isUnderLimit.mockImplementation(async (_providerId, _modelName, estimate) => estimate === undefined);
+    mockUsageManager.hasTokenOrCostLimit.mockReturnValue(true);
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({ body: { model: 'gpt-3.5-turbo', max_tokens: 100000 } });
+    const res = createMockResponse();
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.json).toHaveBeenCalledWith({
+      error: "Request for model 'gpt-3.5-turbo' exceeds the remaining token or cost budget of every provider. Reduce the prompt or max_tokens, or try again later.",
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should reject models that the API key is not allowed to use', async () => {
+    const { Router } = await import('../components/Router.js');
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({ body: { model: 'gpt-4', messages: [] } });
+    const res = createMockResponse({ locals: { apiKey: { id: 'key-1', name: 'team-a', allowedModels: ['gpt-3.5-turbo'] } } });
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({ error: 'This API key is not allowed to use model: gpt-4' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should return 429 when the API key has reached its limits', async () => {
+    const { Router } = await import('../components/Router.js');
+
+    mockUsageManager.isUnderLimit.mockResolvedValue(true);
+    mockUsageManager.isApiKeyUnderLimit.mockResolvedValue(false);
+
+    Router.initialize();
+    const router = Router.getInstance();
+
+    const req = createMockRequest({ body: { model: 'gpt-4', messages: [] } });
+    const res = createMockResponse({ locals: { apiKey: { id: 'key-1', name: 'team-a' } } });
+    const next = createMockNext();
+
+    await router.chooseProvider(req as any, res as any, next);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.json).toHaveBeenCalledWith({ error: "API key 'team-a' has reached its rate limit or budget. Please try again later." });
+    expect(mockUsageManager.isApiKeyUnderLimit).toHaveBeenCalledWith('key-1');
+    expect(next).not.toHaveBeenCalled();
+  });
+
   it('should throw error when getInstance called before initialize', async () => {
     const { Router } = await import('../components/Router.js');
 
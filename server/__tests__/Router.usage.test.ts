@@ -2,6 +2,7 @@ import { Router } from '../components/Router';
 import { ConfigManager } from '../components/config/ConfigManager';
 import { UsageManager } from '../components/UsageManager';
 import { PriceData } from '../components/PriceData';
+import { CircuitBreaker } from '../components/CircuitBreaker';
 import { Provider } from '#schemas/provider.schema';
 import { Model } from '#schemas/model.schema';
 
@@ -9,11 +10,13 @@ import { Model } from '#schemas/model.schema';
 jest.mock('../components/config/ConfigManager');
 jest.mock('../components/UsageManager');
 jest.mock('../components/PriceData');
+jest.mock('../components/CircuitBreaker');
 
 describe('Router.getBestProviderForModel', () => {
   let mockConfigManager: jest.Mocked<ConfigManager>;
   let mockUsageManager: jest.Mocked<UsageManager>;
   let mockPriceData: jest.Mocked<PriceData>;
+  let mockCircuitBreaker: jest.Mocked<CircuitBreaker>;
 
   beforeEach(() => {
     // Reset mocks before each test
@@ -30,6 +33,10 @@ describe('Router.getBestProviderForModel', () => {
     mockPriceData = new (PriceData as any)();
     (PriceData.getInstance as jest.Mock) = jest.fn(() => mockPriceData);
 
+    mockCircuitBreaker = new (CircuitBreaker as any)();
+    mockCircuitBreaker.isAvailable = jest.fn().mockReturnValue(true);
+    (CircuitBreaker.getInstance as jest.Mock) = jest.fn(() => mockCircuitBreaker);
+
     // Initialize the Router with our mocked UsageManager
     Router.initialize();
   });
@@ -70,7 +77,7 @@ describe('Router.getBestProviderForModel', () => {
 
     // Verify that the mocks were called as expected
     expect(mockConfigManager.getProviders).toHaveBeenCalledTimes(1);
-    expect(mockUsageManager.isUnderLimit).toHaveBeenCalledWith(testProvider.id, testModel.name);
+    expect(mockUsageManager.isUnderLimit).toHaveBeenCalledWith(testProvider.id, testModel.name, undefined);
   });
   test('should return a 404 error if no provider is configured for the model', async () => {
     const unconfiguredModelName = 'unconfigured-model';
@@ -123,6 +130,6 @@ describe('Router.getBestProviderForModel', () => {
     expect(result).toHaveProperty('status', 503);
     expect(result).toHaveProperty('error', `All providers for model '${rateLimitedModelName}' are currently at their rate limit. Please try again later.`);
     expect(mockConfigManager.getProviders).toHaveBeenCalledTimes(1);
-    expect(mockUsageManager.isUnderLimit).toHaveBeenCalledWith(rateLimitedProvider.id, rateLimitedModelName);
+    expect(mockUsageManager.isUnderLimit).toHaveBeenCalledWith(rateLimitedProvider.id, rateLimitedModelName, undefined);
   });
 });
\ No newline at end of file
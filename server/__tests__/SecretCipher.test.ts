@@ -0,0 +1,82 @@
+/**
+ * Unit tests for SecretCipher
+ * Tests encrypting provider secrets at rest and rotating the master key
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { SecretCipher } from '../components/config/SecretCipher.js';
+
+describe('SecretCipher', () => {
+  const config: any = {
+    providers: [
+      { id: 'openai', type: 'openai', apiKey: 'sk-secret', models: [{ name: 'gpt-4o' }] },
+      { id: 'ollama', type: 'ollama', baseURL: 'http://localhost:11434', models: [{ name: 'llama3' }] },
+    ],
+  };
+
+  it('should encrypt secrets and decrypt them again', () => {
+    const cipher = SecretCipher.fromMasterKey('a-long-master-key');
+
+    const encrypted = cipher.encryptSecrets(config);
+
+    expect(encrypted.providers[0].apiKey).toMatch(/^enc:v1:/);
+    expect(JSON.stringify(encrypted)).not.toContain('sk-secret');
+    expect(encrypted.providers[1]).toEqual(config.providers[1]);
+    expect(cipher.decryptSecrets(encrypted.providers[0]).apiKey).toBe('sk-secret');
+    expect(SecretCipher.countPlainTextSecrets(encrypted)).toBe(0);
+  });
+
+  it('should not encrypt secrets twice', () => {
+    const cipher = SecretCipher.fromMasterKey('a-long-master-key');
+    const encrypted = cipher.encryptSecrets(config);
+
+    expect(cipher.encryptSecrets(encrypted)).toEqual(encrypted);
+  });
+
+  it('should not encrypt references to environment variables and files', () => {
+    const cipher = SecretCipher.fromMasterKey('a-long-master-key');
+    const withReferences: any = {
+      providers: [
+        { id: 'a', type: 'openai', apiKey: '${env:OPENAI_KEY}', models: [{ name: 'gpt-4o' }] },
+        { id: 'b', type: 'groq', apiKey: { file: '/run/secrets/groq' }, models: [{ name: 'llama3' }] },
+      ],
+    };
+
+    expect(cipher.encryptSecrets(withReferences)).toEqual(withReferences);
+    expect(SecretCipher.countPlainTextSecrets(withReferences)).toBe(0);
+  });
+
+  it('should leave secrets in plain text without a master key', () => {
+    const cipher = SecretCipher.fromMasterKey(undefined);
+
+    expect(cipher.isEnabled).toBe(false);
+    expect(cipher.encryptSecrets(config)).toBe(config);
+    expect(cipher.decryptSecrets(config.providers[0]).apiKey).toBe('sk-secret');
+    expect(SecretCipher.countPlainTextSecrets(config)).toBe(1);
+  });
+
+  it('should fail to decrypt without the right master key', () => {
+    const encrypted = SecretCipher.fromMasterKey('a-long-master-key').encryptSecrets(config).providers[0];
+
+    expect(() => SecretCipher.fromMasterKey('another-master-key').decryptSecrets(encrypted))
+      .toThrow('The master key does not match');
+    expect(() => SecretCipher.fromMasterKey(undefined).decryptSecrets(encrypted))
+      .toThrow('no master key is configured');
+  });
+
+  it('should reject short master keys', () => {
+    expect(() => SecretCipher.fromMasterKey('short')).toThrow('at least 16 characters');
+  });
+
+  it('should re-encrypt secrets with a new master key', () => {
+    const current = SecretCipher.fromMasterKey('a-long-master-key');
+    const next = SecretCipher.fromMasterKey('the-new-master-key');
+    const encrypted = current.encryptSecrets(config);
+
+    const rotated = current.rotateSecrets(encrypted, next);
+
+    expect(rotated.providers[0].apiKey).toMatch(/^enc:v1:/);
+    expect(next.decryptSecrets(rotated.providers[0]).apiKey).toBe('sk-secret');
+    expect(() => current.decryptSecrets(rotated.providers[0])).toThrow();
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for TokenEstimator
+ * Tests pre-flight prompt token counting and completion ceilings
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { TokenEstimator } from '../components/TokenEstimator.js';
+
+describe('TokenEstimator', () => {
+  const messages = [
+    { role: 'system' as const, content: 'You are a helpful assistant.' },
+    { role: 'user' as const, content: 'Hello world' },
+  ];
+
+  it('should count prompt tokens with the model family tokenizer', () => {
+    // "You are a helpful assistant." is 6 tokens and "Hello world" is 2 tokens in both encodings,
+    // plus 3 tokens per message, 1 per role and 3 for the reply
+    expect(TokenEstimator.countPromptTokens({ messages }, 'gpt-4o-mini')).toBe(19);
+    expect(TokenEstimator.countPromptTokens({ messages }, 'gpt-3.5-turbo')).toBe(19);
+  });
+
+  it('should add a margin for families without a local tokenizer', () => {
+    expect(TokenEstimator.countPromptTokens({ messages }, 'claude-3-5-sonnet')).toBe(Math.ceil(19 * 1.2));
+    expect(TokenEstimator.countPromptTokens({ messages }, 'some-unknown-model')).toBe(Math.ceil(19 * 1.2));
+  });
+
+  it('should count tool calls, tool definitions and images', () => {
+    const plain = TokenEstimator.countPromptTokens({ messages }, 'gpt-4o');
+    const withTools = TokenEstimator.countPromptTokens({
+      messages: [
+        ...messages,
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'And this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+          ],
+        },
+      ],
+      tools: [{ type: 'function', function: { name: 'get_weather', parameters: { type: 'object' } } }],
+    }, 'gpt-4o');
+
+    // The image alone adds a flat 765 tokens
+    expect(withTools - plain).toBeGreaterThan(765 + 20);
+  });
+
+  it('should not fail on text that looks like special tokens', () => {
+    expect(() => TokenEstimator.countPromptTokens({
+      messages: [{ role: 'user', content: 'What does <|endoftext|> mean?' }],
+    }, 'gpt-4')).not.toThrow();
+  });
+
+  it('should count embedding input strings and token arrays', () => {
+    expect(TokenEstimator.countPromptTokens({ input: 'Hello world' }, 'text-embedding-3-small')).toBe(2);
+    expect(TokenEstimator.countPromptTokens({ input: ['Hello world', 'Hello world'] }, 'text-embedding-3-small')).toBe(4);
+    expect(TokenEstimator.countPromptTokens({ input: [9906, 1917, 0] }, 'text-embedding-3-small')).toBe(3);
+    expect(TokenEstimator.countPromptTokens({ input: [[9906], [1917, 0]] }, 'text-embedding-3-small')).toBe(3);
+  });
+
+  it('should bound completion tokens by max_tokens across all choices', () => {
+    expect(TokenEstimator.estimate({ messages, max_tokens: 500, n: 2 }, 'gpt-4').maxCompletionTokens).toBe(1000);
+    expect(TokenEstimator.estimate({ messages, max_completion_tokens: 300, max_tokens: 500 }, 'gpt-4').maxCompletionTokens).toBe(300);
+  });
+
+  it('should assume the model\'s maximum output tokens when max_tokens is unset', () => {
+    expect(TokenEstimator.estimate({ messages }, 'gpt-4', 8192).maxCompletionTokens).toBe(8192);
+    expect(TokenEstimator.estimate({ messages, n: 2 }, 'gpt-4', 8192).maxCompletionTokens).toBe(16384);
+    expect(TokenEstimator.estimate({ messages }, 'gpt-4').maxCompletionTokens).toBe(4096);
+    expect(TokenEstimator.estimate({ input: 'Hello world' }, 'text-embedding-3-small', 8192).maxCompletionTokens).toBe(0);
+  });
+
+  it('should estimate a request for several models with one count per tokenizer', () => {
+    const estimate = TokenEstimator.forRequest({ messages, max_tokens: 100 });
+
+    expect(estimate('gpt-4o')).toEqual({ promptTokens: 19, maxCompletionTokens: 100 });
+    expect(estimate('gpt-3.5-turbo')).toEqual(TokenEstimator.estimate({ messages, max_tokens: 100 }, 'gpt-3.5-turbo'));
+    expect(estimate('claude-3-5-sonnet').promptTokens).toBe(TokenEstimator.countPromptTokens({ messages }, 'claude-3-5-sonnet'));
+  });
+
+  it('should count malformed requests as empty instead of throwing', () => {
+    const count = (request: any) => TokenEstimator.countPromptTokens(request, 'gpt-4');
+    expect(count({ messages: 'hi' })).toBe(3);
+    expect(count({ messages: [null, { content: 'Hello world' }, { role: 'user', content: [null] }] })).toBe(3 + 3 + 2 + 3 + 1);
+    expect(count({ messages: [{ role: 'assistant', tool_calls: [null, {}] }] })).toBe(3 + 3 + 1);
+    expect(TokenEstimator.estimate({ messages, max_tokens: 'lots' } as any, 'gpt-4', 8192).maxCompletionTokens).toBe(8192);
+  });
+});
@@ -4,11 +4,14 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
 
 // Mock the AI SDK modules before importing anything
 jest.mock('ai', () => ({
   generateText: jest.fn(),
-  streamText: jest.fn()
+  streamText: jest.fn(),
+  embedMany: jest.fn(),
+  jsonSchema: jest.fn((schema: any) => ({ jsonSchema: schema }))
 }));
 
 jest.mock('@ai-sdk/openai', () => ({
@@ -25,6 +28,7 @@ jest.mock('@ai-sdk/google', () => ({
 
 // Mock all the provider modules to avoid import issues (AI SDK v4 compatible)
 jest.mock('@ai-sdk/google-vertex', () => ({ createVertex: jest.fn() }));
+jest.mock('@ai-sdk/azure', () => ({ createAzure: jest.fn() }));
 jest.mock('@ai-sdk/amazon-bedrock', () => ({ createAmazonBedrock: jest.fn() }));
 jest.mock('@ai-sdk/groq', () => ({ createGroq: jest.fn() }));
 jest.mock('@ai-sdk/mistral', () => ({ createMistral: jest.fn() }));
@@ -48,9 +52,18 @@ jest.mock('../components/Logger.js', () => ({
   }
 }));
 
+// Mock ConfigManager, whose configUpdated event invalidates cached provider instances
+const mockConfigEvents = new EventEmitter();
+jest.mock('../components/config/ConfigManager.js', () => ({
+  ConfigManager: {
+    getInstance: () => ({ events: mockConfigEvents })
+  }
+}));
+
 // Mock Utils
 jest.mock('../components/Utils.js', () => ({
-  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error')
+  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error'),
+  isRetryableError: jest.fn()
 }));
 
 // Mock PriceData
@@ -93,10 +106,10 @@ describe('UnifiedExecutor - Basic Tests', () => {
   const mockStreamTextResult = {
     usage: Promise.resolve(mockUsage),
     finishReason: Promise.resolve('stop'),
-    textStream: (async function* () {
-      yield 'Hello';
-      yield ' world';
-      yield '!';
+    fullStream: (async function* () {
+      yield { type: 'text-delta', textDelta: 'Hello' };
+      yield { type: 'text-delta', textDelta: ' world' };
+      yield { type: 'text-delta', textDelta: '!' };
     })()
   };
 
@@ -104,7 +117,21 @@ describe('UnifiedExecutor - Basic Tests', () => {
   const mockUsageManager = {
     consume: jest.fn(),
     isUnderLimit: jest.fn().mockResolvedValue(true),
-    getCurrentUsage: jest.fn().mockReturnValue([])
+    getCurrentUsage: jest.fn().mockReturnValue([]),
+    markUpstreamExhausted: jest.fn()
+  };
+
+  // Mock CircuitBreaker
+  const mockCircuitBreaker = {
+    startRequest: () => true,
+    abandonRequest: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn()
+  };
+
+  // Mock UsageLedger
+  const mockUsageLedger = {
+    append: jest.fn()
   };
 
   // Mock Express objects
@@ -124,6 +151,8 @@ describe('UnifiedExecutor - Basic Tests', () => {
     write: jest.fn().mockReturnThis(),
     end: jest.fn().mockReturnThis(),
     writeHead: jest.fn().mockReturnThis(),
+    on: jest.fn(),
+    setHeader: jest.fn().mockReturnThis(),
     locals: {
       chosenProvider: {
         id: 'test-provider',
@@ -145,7 +174,7 @@ describe('UnifiedExecutor - Basic Tests', () => {
   it('should be able to create UnifiedExecutor instance', async () => {
     // Dynamically import to avoid module loading issues
     const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
-    const executor = new UnifiedExecutor(mockUsageManager as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     
     expect(executor).toBeDefined();
     expect(typeof executor.execute).toBe('function');
@@ -181,7 +210,7 @@ describe('UnifiedExecutor - Basic Tests', () => {
       // Add any other properties that the AI SDK model might expect
     }) as any);
 
-    const executor = new UnifiedExecutor(mockUsageManager as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const req = createMockRequest();
     const res = createMockResponse();
 
@@ -214,6 +243,185 @@ describe('UnifiedExecutor - Basic Tests', () => {
     }));
   });
 
+  it('should forward OpenAI sampling parameters to the AI SDK', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    const mockProviderInstance = jest.fn((modelName: string) => ({ modelId: modelName, provider: 'openai' }));
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue(mockProviderInstance as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({
+      body: {
+        temperature: 0,
+        top_p: 0.9,
+        max_tokens: 256,
+        stop: 'END',
+        presence_penalty: 0.5,
+        frequency_penalty: 0.25,
+        seed: 42,
+        user: 'agent-7'
+      }
+    });
+    const res = createMockResponse();
+
+    await executor.execute(req as any, res as any);
+
+    expect(generateText).toHaveBeenCalledWith(expect.objectContaining({
+      temperature: 0,
+      topP: 0.9,
+      maxTokens: 256,
+      stopSequences: ['END'],
+      presencePenalty: 0.5,
+      frequencyPenalty: 0.25,
+      seed: 42
+    }));
+    expect(mockProviderInstance).toHaveBeenCalledWith('gpt-3.5-turbo', { user: 'agent-7' });
+    expect(res.setHeader).not.toHaveBeenCalledWith('X-CostRouter-Unsupported-Parameters', expect.anything());
+  });
+
+  it('should reject sampling parameters with invalid types or ranges', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { getErrorMessage } = await import('../components/Utils.js');
+
+    (getErrorMessage as jest.MockedFunction<typeof getErrorMessage>).mockImplementation((error: any) => error.message);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+
+    for (const [body, error] of [
+      [{ temperature: '0.7' }, 'Invalid parameters: temperature must be a number between 0 and 2.'],
+      [{ top_p: 1.5 }, 'Invalid parameters: top_p must be a number between 0 and 1.'],
+      [{ max_tokens: 0 }, 'Invalid parameters: max_tokens must be a positive integer.'],
+      [{ stop: ['END', 1] }, 'Invalid parameters: stop must be a string or an array of strings.'],
+      [{ seed: 4.2 }, 'Invalid parameters: seed must be an integer.'],
+    ] as const) {
+      const res = createMockResponse();
+      await executor.execute(createMockRequest({ body }) as any, res as any);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error });
+    }
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it('should report parameters the provider type does not support', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createAnthropic } = await import('@ai-sdk/anthropic');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    (createAnthropic as jest.MockedFunction<typeof createAnthropic>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'anthropic'
+    }) as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({ body: { temperature: 0.2, seed: 42, presence_penalty: 1 } });
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'anthropic-provider', type: 'anthropic', apiKey: 'test-key' },
+        chosenModel: { name: 'claude-3-haiku' }
+      }
+    });
+
+    await executor.execute(req as any, res as any);
+
+    const callArgs = (generateText as jest.Mock).mock.calls[0][0] as any;
+    expect(callArgs.temperature).toBe(0.2);
+    expect(callArgs).not.toHaveProperty('seed');
+    expect(callArgs).not.toHaveProperty('presencePenalty');
+    expect(res.setHeader).toHaveBeenCalledWith('X-CostRouter-Unsupported-Parameters', 'presence_penalty, seed');
+  });
+
+  it('should return tool calls in OpenAI format', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue({
+      text: '',
+      toolCalls: [{ toolCallId: 'call_1', toolName: 'get_weather', args: { city: 'Paris' } }],
+      usage: mockUsage,
+      finishReason: 'tool-calls'
+    } as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({
+      body: {
+        tools: [{
+          type: 'function',
+          function: { name: 'get_weather', parameters: { type: 'object', properties: { city: { type: 'string' } } } }
+        }],
+        tool_choice: 'auto'
+      }
+    });
+    const res = createMockResponse();
+
+    await executor.execute(req as any, res as any);
+
+    const callArgs = (generateText as jest.Mock).mock.calls[0][0] as any;
+    expect(Object.keys(callArgs.tools)).toEqual(['get_weather']);
+    expect(callArgs.toolChoice).toBe('auto');
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      choices: [{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: null,
+          refusal: null,
+          tool_calls: [{
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'get_weather', arguments: '{"city":"Paris"}' }
+          }]
+        },
+        finish_reason: 'tool_calls',
+        logprobs: null
+      }]
+    }));
+  });
+
+  it('should reject strict json_schema requests the provider cannot honour', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createAnthropic } = await import('@ai-sdk/anthropic');
+
+    (createAnthropic as jest.MockedFunction<typeof createAnthropic>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'anthropic'
+    }) as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({
+      body: {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'person', strict: true, schema: { type: 'object', properties: {} } }
+        }
+      }
+    });
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'anthropic-provider', type: 'anthropic', apiKey: 'test-key' },
+        chosenModel: { name: 'claude-3-haiku' }
+      }
+    });
+
+    await executor.execute(req as any, res as any);
+
+    expect(generateText).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({
+      error: "Provider 'anthropic-provider' (anthropic) cannot honour a strict json_schema response_format."
+    });
+  });
+
   it('should handle errors gracefully', async () => {
     const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
     const { generateText } = await import('ai');
@@ -221,7 +429,7 @@ describe('UnifiedExecutor - Basic Tests', () => {
     // Make generateText throw an error
     (generateText as jest.MockedFunction<typeof generateText>).mockRejectedValue(new Error('API Error'));
 
-    const executor = new UnifiedExecutor(mockUsageManager as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const req = createMockRequest();
     const res = createMockResponse();
 
@@ -231,6 +439,394 @@ describe('UnifiedExecutor - Basic Tests', () => {
     expect(res.json).toHaveBeenCalledWith({ error: 'AI request failed' });
   });
 
+  it('should fail over to the next candidate on a retryable error', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+    const { isRetryableError } = await import('../components/Utils.js');
+
+    (isRetryableError as jest.MockedFunction<typeof isRetryableError>).mockReturnValue(true);
+
+    const rateLimited = Object.assign(new Error('Too Many Requests'), {
+      statusCode: 429,
+      responseHeaders: { 'retry-after': '30' }
+    });
+    (generateText as jest.MockedFunction<typeof generateText>)
+      .mockRejectedValueOnce(rateLimited)
+      .mockResolvedValueOnce(mockGenerateTextResult as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const primary = { provider: { id: 'primary', type: 'openai', apiKey: 'key-1' }, model: { name: 'gpt-3.5-turbo' } };
+    const backup = { provider: { id: 'backup', type: 'openai', apiKey: 'key-2' }, model: { name: 'gpt-3.5-turbo' } };
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest();
+    const res = createMockResponse({
+      locals: { chosenProvider: primary.provider, chosenModel: primary.model, candidates: [primary, backup] }
+    });
+
+    await executor.execute(req as any, res as any);
+
+    expect(generateText).toHaveBeenCalledTimes(2);
+    expect(res.status).not.toHaveBeenCalled();
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'X-CostRouter-Attempted-Providers',
+      'primary/gpt-3.5-turbo, backup/gpt-3.5-turbo'
+    );
+    expect(mockUsageManager.consume).toHaveBeenCalledWith('backup', 'gpt-3.5-turbo', expect.any(Object), expect.any(Number), undefined);
+    expect(mockCircuitBreaker.recordFailure).toHaveBeenCalledWith('primary', 'gpt-3.5-turbo', rateLimited);
+    expect(mockUsageManager.markUpstreamExhausted).toHaveBeenCalledWith('primary', 'gpt-3.5-turbo', expect.any(Number));
+    expect(mockCircuitBreaker.recordSuccess).toHaveBeenCalledWith('backup', 'gpt-3.5-turbo');
+
+    // Both attempts are recorded in the usage ledger under one request ID
+    expect(mockUsageLedger.append).toHaveBeenCalledTimes(2);
+    expect(mockUsageLedger.append).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      providerId: 'primary',
+      model: 'gpt-3.5-turbo',
+      status: 'error',
+      totalTokens: 0
+    }));
+    expect(mockUsageLedger.append).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      providerId: 'backup',
+      mappedModel: 'gpt-3.5-turbo',
+      status: 'success',
+      promptTokens: 100,
+      completionTokens: 50,
+      totalTokens: 150
+    }));
+    const [[first], [second]] = mockUsageLedger.append.mock.calls as any[][];
+    expect(first.requestId).toBeDefined();
+    expect(second.requestId).toBe(first.requestId);
+  });
+
+  it('should skip candidates whose circuit is already probing', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+    const startRequest = jest.spyOn(mockCircuitBreaker, 'startRequest').mockImplementation((providerId) => providerId !== 'primary');
+
+    const primary = { provider: { id: 'primary', type: 'openai', apiKey: 'key-1' }, model: { name: 'gpt-3.5-turbo' } };
+    const backup = { provider: { id: 'backup', type: 'openai', apiKey: 'key-2' }, model: { name: 'gpt-3.5-turbo' } };
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const res = createMockResponse({
+      locals: { chosenProvider: primary.provider, chosenModel: primary.model, candidates: [primary, backup] }
+    });
+
+    await executor.execute(createMockRequest() as any, res as any);
+
+    expect(generateText).toHaveBeenCalledTimes(1);
+    expect(res.setHeader).toHaveBeenCalledWith('X-CostRouter-Attempted-Providers', 'backup/gpt-3.5-turbo');
+
+    // With no candidate left to try, the request is refused without an upstream call
+    startRequest.mockReturnValue(false);
+    const refused = createMockResponse({
+      locals: { chosenProvider: primary.provider, chosenModel: primary.model, candidates: [primary, backup] }
+    });
+
+    await executor.execute(createMockRequest() as any, refused as any);
+
+    expect(generateText).toHaveBeenCalledTimes(1);
+    expect(refused.status).toHaveBeenCalledWith(503);
+  });
+
+  it('should attribute usage to the gateway API key of the request', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest();
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'openai', type: 'openai', apiKey: 'key-1' },
+        chosenModel: { name: 'gpt-3.5-turbo' },
+        apiKey: { id: 'key-id', name: 'team-a' }
+      }
+    });
+
+    await executor.execute(req as any, res as any);
+
+    expect(mockUsageManager.consume).toHaveBeenCalledWith('openai', 'gpt-3.5-turbo', expect.any(Object), expect.any(Number), 'key-id');
+    expect(mockUsageLedger.append).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'team-a', status: 'success' }));
+  });
+
+  it('should create providers with their secrets decrypted', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { SecretCipher } = await import('../components/config/SecretCipher.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const cipher = SecretCipher.fromMasterKey('a-long-master-key');
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any, cipher);
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'openai', type: 'openai', apiKey: cipher.encrypt('sk-secret') },
+        chosenModel: { name: 'gpt-3.5-turbo' }
+      }
+    });
+
+    await executor.execute(createMockRequest() as any, res as any);
+
+    expect(createOpenAI).toHaveBeenCalledWith(expect.objectContaining({ apiKey: 'sk-secret' }));
+  });
+
+  it('should answer in the response format chosen for the request', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { anthropicResponseFormat } = await import('../components/AnthropicTranslator.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'test-provider', type: 'openai', apiKey: 'test-key' },
+        chosenModel: { name: 'gpt-3.5-turbo' },
+        responseFormat: anthropicResponseFormat
+      }
+    });
+
+    await executor.execute(createMockRequest() as any, res as any);
+
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'This is a mock response from the AI model.' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 100, output_tokens: 50 }
+    }));
+  });
+
+  it('should recreate a provider instance only when its settings change', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (generateText as jest.MockedFunction<typeof generateText>).mockResolvedValue(mockGenerateTextResult as any);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const execute = (chosenProvider: any) => executor.execute(
+      createMockRequest() as any,
+      createMockResponse({ locals: { chosenProvider, chosenModel: { name: 'gpt-3.5-turbo' } } }) as any
+    );
+    const provider = { id: 'openai', type: 'openai', apiKey: 'key-1', models: [{ name: 'gpt-3.5-turbo' }] };
+
+    await execute(provider);
+    await execute({ ...provider, models: [{ name: 'gpt-3.5-turbo' }, { name: 'gpt-4o' }] });
+    expect(createOpenAI).toHaveBeenCalledTimes(1);
+
+    await execute({ ...provider, apiKey: 'key-2' });
+    expect(createOpenAI).toHaveBeenCalledTimes(2);
+    expect(createOpenAI).toHaveBeenLastCalledWith(expect.objectContaining({ apiKey: 'key-2' }));
+  });
+
+  it('should drop the instances of changed providers when the config is updated', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+
+    UnifiedExecutor.initialize(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const executor: any = UnifiedExecutor.getInstance();
+    const openai = { id: 'openai', type: 'openai', apiKey: 'key-1', models: [{ name: 'gpt-4o' }] };
+    const groq = { id: 'groq', type: 'groq', apiKey: 'gsk-1', models: [{ name: 'llama3' }] };
+    executor.providerInstances.set('openai', { signature: (UnifiedExecutor as any).providerSignature(openai), instance: {} });
+    executor.providerInstances.set('groq', { signature: (UnifiedExecutor as any).providerSignature(groq), instance: {} });
+
+    mockConfigEvents.emit('configUpdated', { providers: [{ ...openai, apiKey: 'key-2' }, groq] });
+
+    expect(Array.from(executor.providerInstances.keys())).toEqual(['groq']);
+    (UnifiedExecutor as any).instance = undefined;
+    mockConfigEvents.removeAllListeners();
+  });
+
+  it('should not fail over on a non-retryable error', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+    const { getErrorMessage, isRetryableError } = await import('../components/Utils.js');
+
+    (getErrorMessage as jest.MockedFunction<typeof getErrorMessage>).mockImplementation((error: any) => error.message);
+    (isRetryableError as jest.MockedFunction<typeof isRetryableError>).mockReturnValue(false);
+
+    const badRequest = Object.assign(new Error('Bad Request'), { statusCode: 400 });
+    (generateText as jest.MockedFunction<typeof generateText>).mockRejectedValueOnce(badRequest);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+
+    const primary = { provider: { id: 'primary', type: 'openai', apiKey: 'key-1' }, model: { name: 'gpt-3.5-turbo' } };
+    const backup = { provider: { id: 'backup', type: 'openai', apiKey: 'key-2' }, model: { name: 'gpt-3.5-turbo' } };
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest();
+    const res = createMockResponse({
+      locals: { chosenProvider: primary.provider, chosenModel: primary.model, candidates: [primary, backup] }
+    });
+
+    await executor.execute(req as any, res as any);
+
+    expect(generateText).toHaveBeenCalledTimes(1);
+    expect(res.setHeader).toHaveBeenCalledWith('X-CostRouter-Attempted-Providers', 'primary/gpt-3.5-turbo');
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Upstream provider rejected the request: Bad Request' });
+  });
+
+  it('should pass on upstream rate limits and hide other upstream errors', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { generateText } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+    const { getErrorMessage, isRetryableError } = await import('../components/Utils.js');
+
+    (getErrorMessage as jest.MockedFunction<typeof getErrorMessage>).mockImplementation((error: any) => error.message);
+    (isRetryableError as jest.MockedFunction<typeof isRetryableError>).mockReturnValue(true);
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+      modelId: modelName,
+      provider: 'openai'
+    }) as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+
+    // The AI SDK wraps the last upstream error once its own retries are used up
+    const rateLimited = Object.assign(new Error('Failed after 3 attempts'), {
+      name: 'AI_RetryError',
+      lastError: Object.assign(new Error('Rate limit reached for key sk-proj-abcdef123456'), {
+        statusCode: 429,
+        responseHeaders: { 'retry-after': '30' }
+      })
+    });
+    (generateText as jest.MockedFunction<typeof generateText>).mockRejectedValueOnce(rateLimited);
+    const limited = createMockResponse();
+    await executor.execute(createMockRequest() as any, limited as any);
+
+    expect(limited.status).toHaveBeenCalledWith(429);
+    expect(limited.setHeader).toHaveBeenCalledWith('Retry-After', '30');
+    expect(limited.json).toHaveBeenCalledWith({ error: 'Upstream provider rejected the request: Rate limit reached for key [REDACTED]' });
+
+    const unauthorized = Object.assign(new Error('Incorrect API key provided'), { statusCode: 401 });
+    (generateText as jest.MockedFunction<typeof generateText>).mockRejectedValueOnce(unauthorized);
+    const failed = createMockResponse();
+    await executor.execute(createMockRequest() as any, failed as any);
+
+    expect(failed.status).toHaveBeenCalledWith(502);
+    expect(failed.json).toHaveBeenCalledWith({ error: 'Upstream provider request failed' });
+  });
+
+  it('should embed batched input and track its usage and cost', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { embedMany } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    const textEmbeddingModel = jest.fn((modelName: string) => ({ modelId: modelName }));
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue({ textEmbeddingModel } as any);
+    (embedMany as jest.MockedFunction<typeof embedMany>).mockResolvedValue({
+      embeddings: [[0.5, -1], [0.25, 2]],
+      usage: { tokens: 8 }
+    } as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({ body: { model: 'embed', input: ['first', 'second'], dimensions: 2 } });
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'test-provider', type: 'openai', apiKey: 'test-key' },
+        chosenModel: { name: 'text-embedding-3-small', mappedName: 'embed' }
+      }
+    });
+
+    await executor.executeEmbeddings(req as any, res as any);
+
+    expect(textEmbeddingModel).toHaveBeenCalledWith('text-embedding-3-small', { dimensions: 2 });
+    expect(embedMany).toHaveBeenCalledWith(expect.objectContaining({ values: ['first', 'second'] }));
+    expect(res.json).toHaveBeenCalledWith({
+      object: 'list',
+      data: [
+        { object: 'embedding', index: 0, embedding: [0.5, -1] },
+        { object: 'embedding', index: 1, embedding: [0.25, 2] }
+      ],
+      model: 'embed',
+      usage: { prompt_tokens: 8, total_tokens: 8 }
+    });
+    expect(mockUsageManager.consume).toHaveBeenCalledWith(
+      'test-provider',
+      'text-embedding-3-small',
+      { promptTokens: 8, completionTokens: 0 },
+      expect.any(Number),
+      undefined
+    );
+  });
+
+  it('should encode embeddings as base64 float32 when requested', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { embedMany } = await import('ai');
+    const { createOpenAI } = await import('@ai-sdk/openai');
+
+    (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue({
+      textEmbeddingModel: (modelName: string) => ({ modelId: modelName })
+    } as any);
+    (embedMany as jest.MockedFunction<typeof embedMany>).mockResolvedValue({
+      embeddings: [[0.5, -1]],
+      usage: { tokens: 1 }
+    } as any);
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({ body: { input: 'hello', encoding_format: 'base64' } });
+    const res = createMockResponse();
+
+    await executor.executeEmbeddings(req as any, res as any);
+
+    const { data } = (res.json as jest.Mock).mock.calls[0][0] as any;
+    const decoded = Buffer.from(data[0].embedding, 'base64');
+    expect([decoded.readFloatLE(0), decoded.readFloatLE(4)]).toEqual([0.5, -1]);
+  });
+
+  it('should reject embeddings for providers without embedding models', async () => {
+    const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+    const { embedMany } = await import('ai');
+
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+    const req = createMockRequest({ body: { input: 'hello' } });
+    const res = createMockResponse({
+      locals: {
+        chosenProvider: { id: 'groq', type: 'groq', apiKey: 'test-key' },
+        chosenModel: { name: 'llama-3.1-8b-instant' }
+      }
+    });
+
+    await executor.executeEmbeddings(req as any, res as any);
+
+    expect(embedMany).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith({ error: "Provider 'groq' (groq) does not support embeddings." });
+  });
+
   it('should handle streaming requests', async () => {
     const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
     const { streamText } = await import('ai');
@@ -243,7 +839,7 @@ describe('UnifiedExecutor - Basic Tests', () => {
       provider: 'openai'
     }) as any);
 
-    const executor = new UnifiedExecutor(mockUsageManager as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const req = createMockRequest({ body: { stream: true } });
     const res = createMockResponse();
 
@@ -252,15 +848,15 @@ describe('UnifiedExecutor - Basic Tests', () => {
     expect(streamText).toHaveBeenCalled();
     // For streaming, expect writeHead to be called to set up SSE headers
     expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
-      'Content-Type': 'text/plain; charset=utf-8',
-      'Transfer-Encoding': 'chunked'
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
     }));
   });
 
   it('should clear cache correctly', async () => {
     const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
     
-    const executor = new UnifiedExecutor(mockUsageManager as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     
     // This should not throw
     expect(() => executor.clearCache()).not.toThrow();
@@ -269,7 +865,7 @@ describe('UnifiedExecutor - Basic Tests', () => {
   it('should handle unsupported provider types', async () => {
     const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
     
-    const executor = new UnifiedExecutor(mockUsageManager as any);
+    const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const req = createMockRequest();
     const res = createMockResponse({
       locals: {
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for UsageAnalytics
+ * Tests query parsing and aggregation of usage ledger records
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { UsageAnalytics, UsageQuery } from '../components/UsageAnalytics.js';
+import { UsageRecord } from '#schemas/usage.schema';
+
+describe('UsageAnalytics', () => {
+  const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+    timestamp: '2025-03-10T12:30:00.000Z',
+    requestId: 'req',
+    providerId: 'openai-provider',
+    model: 'gpt-4',
+    mappedModel: 'gpt-4',
+    promptTokens: 100,
+    completionTokens: 50,
+    totalTokens: 150,
+    cost: 0.01,
+    latencyMs: 200,
+    status: 'success',
+    ...overrides,
+  });
+
+  const records: UsageRecord[] = [
+    record(),
+    record({ timestamp: '2025-03-10T18:00:00.000Z', apiKey: 'ci' }),
+    record({ timestamp: '2025-03-11T09:00:00.000Z', providerId: 'anthropic-provider', model: 'claude-3', mappedModel: 'gpt-4', cost: 0.05 }),
+    record({ timestamp: '2025-03-11T09:00:01.000Z', status: 'error', promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 }),
+    record({ timestamp: '2025-04-01T00:00:00.000Z', cost: 0.02 }),
+  ];
+
+  const parse = (params: Record<string, unknown>): UsageQuery => {
+    const result = UsageAnalytics.parseQuery(params);
+    if ('error' in result) {
+      throw new Error(result.error);
+    }
+    return result.query;
+  };
+
+  describe('parseQuery', () => {
+    it('should parse dates, dimensions, filters and bucket', () => {
+      expect(parse({ from: '2025-03-01', to: '2025-04-01', groupBy: 'provider,model', model: 'gpt-4', bucket: 'hour' })).toEqual({
+        from: Date.UTC(2025, 2, 1),
+        to: Date.UTC(2025, 3, 1),
+        groupBy: ['provider', 'model'],
+        filters: { model: ['gpt-4'] },
+        bucket: 'hour',
+      });
+    });
+
+    it('should parse all-digit dates as epoch millisecond timestamps', () => {
+      const { from, to } = parse({ from: String(Date.UTC(2025, 2, 1)), to: '2025-04-01T00:00:00Z' });
+
+      expect(from).toBe(Date.UTC(2025, 2, 1));
+      expect(to).toBe(Date.UTC(2025, 3, 1));
+    });
+
+    it('should default to daily buckets without grouping', () => {
+      expect(parse({})).toEqual({ from: undefined, to: undefined, groupBy: [], filters: {}, bucket: 'day' });
+    });
+
+    it.each([
+      [{ from: 'yesterday' }, "Invalid 'from' date: yesterday"],
+      [{ from: '2025-04-01', to: '2025-03-01' }, "'from' must be before 'to'."],
+      [{ groupBy: 'region' }, "Invalid groupBy dimension 'region'. Expected one of: provider, model, mappedModel, apiKey"],
+      [{ bucket: 'week' }, "Invalid bucket 'week'. Expected one of: hour, day, month"],
+    ])('should reject %p', (params, error) => {
+      expect(UsageAnalytics.parseQuery(params)).toEqual({ error });
+    });
+  });
+
+  describe('summarize', () => {
+    it('should total records in the date range, grouped and ordered by cost', () => {
+      const summary = UsageAnalytics.summarize(records, parse({ from: '2025-03-01', to: '2025-04-01', groupBy: 'provider' }));
+
+      expect(summary.totals).toEqual({
+        requests: 3,
+        errors: 1,
+        promptTokens: 300,
+        completionTokens: 150,
+        totalTokens: 450,
+        cost: expect.closeTo(0.07),
+      });
+      expect(summary.groups.map((g) => [g.key, g.requests, g.errors])).toEqual([
+        [{ provider: 'anthropic-provider' }, 1, 0],
+        [{ provider: 'openai-provider' }, 2, 1],
+      ]);
+    });
+
+    it('should filter and group by mapped model and API key', () => {
+      const summary = UsageAnalytics.summarize(records, parse({ mappedModel: 'gpt-4', groupBy: 'apiKey' }));
+
+      expect(summary.groups.map((g) => [g.key, g.requests])).toEqual([
+        [{ apiKey: null }, 3],
+        [{ apiKey: 'ci' }, 1],
+      ]);
+    });
+  });
+
+  describe('history', () => {
+    it('should total records per time bucket, oldest first', () => {
+      const history = UsageAnalytics.history(records, parse({ bucket: 'day', provider: 'openai-provider' }));
+
+      expect(history.buckets.map((b) => [b.start, b.requests, b.errors])).toEqual([
+        ['2025-03-10T00:00:00.000Z', 2, 0],
+        ['2025-03-11T00:00:00.000Z', 0, 1],
+        ['2025-04-01T00:00:00.000Z', 1, 0],
+      ]);
+    });
+
+    it('should bucket by month with groups per bucket', () => {
+      const history = UsageAnalytics.history(records, parse({ bucket: 'month', groupBy: 'model' }));
+
+      expect(history.buckets.map((b) => b.start)).toEqual(['2025-03-01T00:00:00.000Z', '2025-04-01T00:00:00.000Z']);
+      expect(history.buckets[0].groups.map((g) => g.key)).toEqual([{ model: 'claude-3' }, { model: 'gpt-4' }]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for UsageLedger
+ * Tests persistence, validation and compaction of per-request usage records
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+const mockEvents = new EventEmitter();
+const mockConfig: any = {
+  providers: [],
+  usageLedger: { retentionDays: 30, maxRecords: 3 },
+};
+
+jest.mock('../components/config/ConfigManager.js', () => ({
+  ConfigManager: {
+    getInstance: () => ({
+      events: mockEvents,
+      getConfig: () => mockConfig,
+    }),
+  },
+}));
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('UsageLedger', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let dir: string;
+  let databasePath: string;
+
+  const record = (overrides: any = {}) => ({
+    timestamp: new Date().toISOString(),
+    requestId: 'req-1',
+    providerId: 'openai-provider',
+    model: 'gpt-4',
+    mappedModel: 'gpt-4',
+    promptTokens: 10,
+    completionTokens: 5,
+    totalTokens: 15,
+    cost: 0.001,
+    latencyMs: 120,
+    status: 'success' as const,
+    ...overrides,
+  });
+
+  const readFile = () => JSON.parse(readFileSync(databasePath, 'utf-8'));
+
+  beforeEach(async () => {
+    const { UsageLedger } = await import('../components/UsageLedger.js');
+    (UsageLedger as any).instance = undefined;
+    mockEvents.removeAllListeners();
+    mockConfig.usageLedger = { retentionDays: 30, maxRecords: 3 };
+
+    dir = mkdtempSync(path.join(tmpdir(), 'usage-ledger-'));
+    databasePath = path.join(dir, 'usage.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist appended records', async () => {
+    const { UsageLedger } = await import('../components/UsageLedger.js');
+    await UsageLedger.initialize({ databasePath });
+    const ledger = UsageLedger.getInstance();
+
+    ledger.append(record());
+    await ledger.flush();
+
+    expect(ledger.getRecords()).toHaveLength(1);
+    expect(readFile().records).toEqual([record({ timestamp: expect.any(String) })]);
+  });
+
+  it('should reject invalid records', async () => {
+    const { UsageLedger } = await import('../components/UsageLedger.js');
+    await UsageLedger.initialize({ databasePath });
+    const ledger = UsageLedger.getInstance();
+
+    ledger.append(record({ promptTokens: 'many' }));
+
+    expect(ledger.getRecords()).toHaveLength(0);
+  });
+
+  it('should drop invalid and expired records when loading', async () => {
+    const { UsageLedger } = await import('../components/UsageLedger.js');
+    writeFileSync(databasePath, JSON.stringify({
+      records: [
+        record({ requestId: 'expired', timestamp: new Date(Date.now() - 31 * DAY_MS).toISOString() }),
+        { requestId: 'corrupt' },
+        record({ requestId: 'kept' }),
+      ],
+    }));
+
+    await UsageLedger.initialize({ databasePath });
+
+    expect(UsageLedger.getInstance().getRecords().map((r) => r.requestId)).toEqual(['kept']);
+    expect(readFile().records).toHaveLength(1);
+  });
+
+  it('should keep only the newest records beyond maxRecords', async () => {
+    const { UsageLedger } = await import('../components/UsageLedger.js');
+    await UsageLedger.initialize({ databasePath });
+    const ledger = UsageLedger.getInstance();
+
+    for (const requestId of ['a', 'b', 'c', 'd', 'e']) {
+      ledger.append(record({ requestId }));
+    }
+    const removed = await ledger.compact();
+
+    expect(removed).toBe(2);
+    expect(ledger.getRecords().map((r) => r.requestId)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('should apply a shorter retention period when the config changes', async () => {
+    const { UsageLedger } = await import('../components/UsageLedger.js');
+    await UsageLedger.initialize({ databasePath });
+    const ledger = UsageLedger.getInstance();
+
+    ledger.append(record({ requestId: 'old', timestamp: new Date(Date.now() - 5 * DAY_MS).toISOString() }));
+    ledger.append(record({ requestId: 'new' }));
+
+    mockConfig.usageLedger = { retentionDays: 1, maxRecords: 3 };
+    mockEvents.emit('configUpdated', mockConfig);
+    await ledger.flush();
+
+    expect(ledger.getRecords().map((r) => r.requestId)).toEqual(['new']);
+  });
+});
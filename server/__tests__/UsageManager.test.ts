@@ -0,0 +1,197 @@
+/**
+ * Unit tests for UsageManager
+ * Tests enforcement and persistence of model, provider-level and global limits,
+ * including pre-flight checks of estimated request usage
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { EventEmitter } from 'events';
+
+const mockEvents = new EventEmitter();
+let mockConfig: any;
+let mockLimiterState: any;
+
+jest.mock('../components/config/ConfigManager.js', () => ({
+  ConfigManager: {
+    getInstance: () => ({
+      events: mockEvents,
+      getConfig: () => mockConfig,
+      getProviders: () => mockConfig.providers,
+      getLimiterState: async () => mockLimiterState,
+      storeLimiterState: async (state: any) => { mockLimiterState = state; },
+    }),
+  },
+}));
+
+jest.mock('../components/CircuitBreaker.js', () => ({
+  CircuitBreaker: {
+    getInstance: () => ({
+      getStatus: () => ({ state: 'closed', consecutiveFailures: 0 }),
+    }),
+  },
+}));
+
+jest.mock('../components/Logger.js', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn()
+  }
+}));
+
+describe('UsageManager', () => {
+  const usage = { promptTokens: 10, completionTokens: 5 };
+
+  const initialize = async () => {
+    const { UsageManager } = await import('../components/UsageManager.js');
+    await UsageManager.initialize();
+    return UsageManager.getInstance();
+  };
+
+  beforeEach(() => {
+    mockEvents.removeAllListeners();
+    mockLimiterState = undefined;
+    mockConfig = {
+      providers: [
+        {
+          id: 'groq',
+          type: 'groq',
+          apiKey: 'key',
+          limits: { requestsPerDay: 2 },
+          models: [{ name: 'llama-3' }, { name: 'mixtral' }],
+        },
+        {
+          id: 'openai',
+          type: 'openai',
+          apiKey: 'key',
+          models: [{ name: 'gpt-4' }],
+        },
+      ],
+    };
+  });
+
+  afterEach(async () => {
+    const { UsageManager } = await import('../components/UsageManager.js');
+    await UsageManager.shutdown();
+    (UsageManager as any).instance = undefined;
+  });
+
+  it('should enforce provider limits across all of its models', async () => {
+    const manager = await initialize();
+
+    await manager.consume('groq', 'llama-3', usage);
+    expect(await manager.isUnderLimit('groq', 'mixtral')).toBe(true);
+
+    await manager.consume('groq', 'mixtral', usage);
+    expect(await manager.isUnderLimit('groq', 'llama-3')).toBe(false);
+    expect(await manager.isUnderLimit('groq', 'mixtral')).toBe(false);
+    expect(await manager.isUnderLimit('openai', 'gpt-4')).toBe(true);
+  });
+
+  it('should enforce global limits across all providers', async () => {
+    mockConfig.limits = { costPerDay: 1 };
+    const manager = await initialize();
+
+    await manager.consume('openai', 'gpt-4', usage, 0.6);
+    expect(await manager.isUnderLimit('groq', 'llama-3')).toBe(true);
+
+    await manager.consume('groq', 'llama-3', usage, 0.5);
+    expect(await manager.isUnderLimit('openai', 'gpt-4')).toBe(false);
+  });
+
+  it('should reject requests whose estimated usage does not fit in the remaining limits', async () => {
+    mockConfig.providers[1].models[0].limits = { tokensPerMinute: 1000 };
+    mockConfig.limits = { costPerDay: 1 };
+    const manager = await initialize();
+    await manager.consume('openai', 'gpt-4', { promptTokens: 600, completionTokens: 100 }, 0.5);
+
+    expect(await manager.isUnderLimit('openai', 'gpt-4', { tokens: 300, costInUSD: 0.4 })).toBe(true);
+    expect(await manager.isUnderLimit('openai', 'gpt-4', { tokens: 301, costInUSD: 0.4 })).toBe(false);
+    expect(await manager.isUnderLimit('openai', 'gpt-4', { tokens: 300, costInUSD: 0.6 })).toBe(false);
+    expect(await manager.isUnderLimit('openai', 'gpt-4')).toBe(true);
+  });
+
+  it('should report which models a token or cost limit applies to', async () => {
+    mockConfig.providers[1].models[0].limits = { tokensPerMinute: 1000 };
+    mockConfig.apiKeys = [
+      { id: 'key-1', name: 'team-a', keyHash: 'hash', keyPrefix: 'cr-', createdAt: new Date().toISOString(), limits: { costPerDay: 5 } },
+    ];
+    const manager = await initialize();
+
+    // The groq provider only limits requests
+    expect(manager.hasTokenOrCostLimit('groq', 'llama-3')).toBe(false);
+    expect(manager.hasTokenOrCostLimit('groq', 'llama-3', 'key-1')).toBe(true);
+    expect(manager.hasTokenOrCostLimit('openai', 'gpt-4')).toBe(true);
+  });
+
+  it('should enforce API key limits only for requests made with that key', async () => {
+    mockConfig.apiKeys = [
+      { id: 'key-1', name: 'team-a', keyHash: 'hash', keyPrefix: 'cr-', createdAt: new Date().toISOString(), limits: { requestsPerDay: 1 } },
+    ];
+    const manager = await initialize();
+
+    await manager.consume('openai', 'gpt-4', usage);
+    expect(await manager.isApiKeyUnderLimit('key-1')).toBe(true);
+
+    await manager.consume('openai', 'gpt-4', usage, 0, 'key-1');
+    expect(await manager.isApiKeyUnderLimit('key-1')).toBe(false);
+    expect(await manager.isUnderLimit('openai', 'gpt-4')).toBe(true);
+    expect((await manager.getApiKeyUsage('key-1')).requestsPerDay).toEqual(expect.objectContaining({ consumed: 1, limit: 1 }));
+  });
+
+  it('should apply limits added by a config update', async () => {
+    const manager = await initialize();
+    await manager.consume('openai', 'gpt-4', usage);
+
+    mockConfig = { ...mockConfig, limits: { requestsPerHour: 1 } };
+    await manager.updateLimiters(mockConfig);
+    await manager.consume('openai', 'gpt-4', usage);
+
+    expect(await manager.isUnderLimit('openai', 'gpt-4')).toBe(false);
+  });
+
+  it('should report provider and global limits for the dashboard', async () => {
+    mockConfig.limits = { costPerMonth: 50, window: 'calendar' };
+    const manager = await initialize();
+    await manager.consume('groq', 'llama-3', usage, 2.5);
+
+    const data = await manager.getCurrentUsageData();
+
+    expect(data.global?.limits.costPerMonth).toEqual(expect.objectContaining({
+      consumed: 2.5,
+      limit: 50,
+      percentage: 5,
+      unit: 'USD',
+      window: 'calendar',
+      resetsAt: expect.any(Number),
+    }));
+    expect(Object.keys(data.global?.limits ?? {})).toEqual(['costPerMonth']);
+    expect(data.providers[0].limits?.requestsPerDay).toEqual(expect.objectContaining({ consumed: 1, limit: 2 }));
+    expect(data.providers[1].limits).toBeUndefined();
+  });
+
+  it('should persist and restore shared and model limiter state', async () => {
+    mockConfig.limits = { requestsPerDay: 10, requestsPerMonth: 100 };
+    const manager = await initialize();
+    await manager.consume('groq', 'llama-3', usage);
+    await manager.persistLimiterState();
+
+    expect(mockLimiterState['global/requestsPerDay']).toEqual({ points: 1, ms: expect.any(Number) });
+    expect(mockLimiterState['global/requestsPerMonth']).toEqual({ points: 1, ms: expect.any(Number) });
+    expect(mockLimiterState['provider:groq/requestsPerDay']).toEqual({ points: 1, ms: expect.any(Number) });
+    expect(mockLimiterState['groq/llama-3/requestsPerMinute']).toEqual({ points: 1, ms: expect.any(Number) });
+
+    // Simulate a restart
+    const { UsageManager } = await import('../components/UsageManager.js');
+    await UsageManager.shutdown();
+    (UsageManager as any).instance = undefined;
+    const restored = await initialize();
+    const data = await restored.getCurrentUsageData();
+
+    expect(data.global?.limits.requestsPerDay?.consumed).toBe(1);
+    expect(data.global?.limits.requestsPerMonth?.consumed).toBe(1);
+    expect(data.providers[0].limits?.requestsPerDay?.consumed).toBe(1);
+    expect(data.providers[0].models[0].limits.requestsPerMinute?.consumed).toBe(1);
+  });
+});
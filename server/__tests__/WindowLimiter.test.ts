@@ -0,0 +1,100 @@
+/**
+ * Unit tests for WindowLimiter
+ * Tests rolling and calendar-aligned windows, including timezones and persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { WindowLimiter } from '../components/WindowLimiter.js';
+
+describe('WindowLimiter', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2025-03-12T15:45:30.000Z'); // a Wednesday
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('nextBoundary', () => {
+    it.each([
+      ['minute', '2025-03-12T15:46:00.000Z'],
+      ['hour', '2025-03-12T16:00:00.000Z'],
+      ['day', '2025-03-13T00:00:00.000Z'],
+      ['week', '2025-03-17T00:00:00.000Z'],
+      ['month', '2025-04-01T00:00:00.000Z'],
+    ] as const)('should find the next %s boundary in UTC', (period, expected) => {
+      expect(new Date(WindowLimiter.nextBoundary(now, period, 'UTC')).toISOString()).toBe(expected);
+    });
+
+    it('should align to local midnight in the configured timezone', () => {
+      // 15:45 UTC is 11:45 EDT (UTC-4) in New York
+      expect(new Date(WindowLimiter.nextBoundary(now, 'day', 'America/New_York')).toISOString())
+        .toBe('2025-03-13T04:00:00.000Z');
+      // Local midnight on 1 April is still in summer time
+      expect(new Date(WindowLimiter.nextBoundary(now, 'month', 'America/New_York')).toISOString())
+        .toBe('2025-04-01T04:00:00.000Z');
+    });
+
+    it('should use the offset after a DST change', () => {
+      // New York switches to summer time on 9 March 2025, between 8 March and the next midnight
+      const saturday = Date.parse('2025-03-08T12:00:00.000Z');
+      expect(new Date(WindowLimiter.nextBoundary(saturday, 'day', 'America/New_York')).toISOString())
+        .toBe('2025-03-09T05:00:00.000Z');
+      expect(new Date(WindowLimiter.nextBoundary(saturday, 'week', 'America/New_York')).toISOString())
+        .toBe('2025-03-10T04:00:00.000Z');
+    });
+
+    it('should start a new week on Monday when called on a Sunday', () => {
+      const sunday = Date.parse('2025-03-16T23:59:00.000Z');
+      expect(new Date(WindowLimiter.nextBoundary(sunday, 'week', 'UTC')).toISOString())
+        .toBe('2025-03-17T00:00:00.000Z');
+    });
+  });
+
+  it('should reset a calendar window at the boundary', async () => {
+    const limiter = WindowLimiter.calendar(10, 'day', 'UTC');
+
+    await limiter.consume('p/m', 4);
+    expect(await limiter.get('p/m')).toEqual({ consumedPoints: 4, msBeforeNext: Date.parse('2025-03-13T00:00:00.000Z') - now });
+
+    now = Date.parse('2025-03-13T00:00:00.000Z');
+    expect(await limiter.get('p/m')).toBeNull();
+  });
+
+  it('should reject consumption beyond the limit but still record it', async () => {
+    const limiter = WindowLimiter.rolling(5, 60);
+
+    await limiter.consume('p/m', 5);
+    await expect(limiter.consume('p/m', 1)).rejects.toThrow('Limit of 5 exceeded');
+    expect((await limiter.get('p/m'))?.consumedPoints).toBe(6);
+
+    now += 60_000;
+    expect(await limiter.get('p/m')).toBeNull();
+  });
+
+  it('should support windows longer than a timer can wait', async () => {
+    const limiter = WindowLimiter.rolling(100, 30 * 86400);
+
+    await limiter.consume('p/m', 1);
+    now += 29 * 86400 * 1000;
+    expect((await limiter.get('p/m'))?.consumedPoints).toBe(1);
+  });
+
+  it('should restore persisted windows that have not ended', async () => {
+    const limiter = WindowLimiter.calendar(10, 'month', 'UTC');
+    await limiter.consume('p/m', 3);
+    const state = limiter.getState('p/m')!;
+
+    const restored = WindowLimiter.calendar(10, 'month', 'UTC');
+    restored.setState('p/m', state);
+    expect((await restored.get('p/m'))?.consumedPoints).toBe(3);
+
+    now = Date.parse('2025-04-01T00:00:00.000Z');
+    const expired = WindowLimiter.calendar(10, 'month', 'UTC');
+    expired.setState('p/m', state);
+    expect(await expired.get('p/m')).toBeNull();
+  });
+});
@@ -19,6 +19,7 @@ jest.mock('@ai-sdk/openai', () => ({
 jest.mock('@ai-sdk/anthropic', () => ({ createAnthropic: jest.fn() }));
 jest.mock('@ai-sdk/google', () => ({ createGoogleGenerativeAI: jest.fn() }));
 jest.mock('@ai-sdk/google-vertex', () => ({ createVertex: jest.fn() }));
+jest.mock('@ai-sdk/azure', () => ({ createAzure: jest.fn() }));
 jest.mock('@ai-sdk/amazon-bedrock', () => ({ createAmazonBedrock: jest.fn() }));
 jest.mock('@ai-sdk/groq', () => ({ createGroq: jest.fn() }));
 jest.mock('@ai-sdk/mistral', () => ({ createMistral: jest.fn() }));
@@ -42,7 +43,8 @@ jest.mock('../components/Logger.js', () => ({
 }));
 
 jest.mock('../components/Utils.js', () => ({
-  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error')
+  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error'),
+  isRetryableError: jest.fn()
 }));
 
 // Mock PriceData
@@ -64,6 +66,19 @@ describe('Error Scenarios and Edge Cases', () => {
     getCurrentUsage: jest.fn().mockReturnValue([])
   };
 
+  // Mock CircuitBreaker
+  const mockCircuitBreaker = {
+    startRequest: () => true,
+    abandonRequest: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn()
+  };
+
+  // Mock UsageLedger
+  const mockUsageLedger = {
+    append: jest.fn()
+  };
+
   const createMockRequest = (overrides: any = {}) => ({
     body: {
       model: 'gpt-3.5-turbo',
@@ -80,6 +95,8 @@ describe('Error Scenarios and Edge Cases', () => {
     write: jest.fn().mockReturnThis(),
     end: jest.fn().mockReturnThis(),
     writeHead: jest.fn().mockReturnThis(),
+    on: jest.fn(),
+    setHeader: jest.fn().mockReturnThis(),
     locals: {
       chosenProvider: {
         id: 'test-provider',
@@ -112,7 +129,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -135,7 +152,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -158,7 +175,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse({
         locals: {
@@ -187,7 +204,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest({ body: { stream: true } });
       const res = createMockResponse();
 
@@ -202,7 +219,7 @@ describe('Error Scenarios and Edge Cases', () => {
     it('should handle unsupported provider types', async () => {
       const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse({
         locals: {
@@ -225,7 +242,7 @@ describe('Error Scenarios and Edge Cases', () => {
         throw new Error('API key is required');
       });
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse({
         locals: {
@@ -256,7 +273,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest({
         body: { model: 'gpt-3.5-turbo', messages: null } // Malformed messages
       });
@@ -282,7 +299,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest({
         body: {
           model: 'gpt-3.5-turbo',
@@ -293,8 +310,37 @@ describe('Error Scenarios and Edge Cases', () => {
 
       await executor.execute(req as any, res as any);
 
-      // The AI SDK should handle this validation
-      expect(generateText).toHaveBeenCalled();
+      // Messages are translated before the AI SDK is called, so malformed input is rejected up front
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json).toHaveBeenCalledWith({ error: expect.stringMatching(/^Invalid messages: /) });
+      expect(generateText).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed tools and tool_choice with a 400', async () => {
+      const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+      const { generateText } = await import('ai');
+
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+      const invalidBodies = [
+        { tools: [{ type: 'function' }] },
+        { tools: { type: 'function' } },
+        { tool_choice: { type: 'function' } },
+        { tool_choice: 'any' },
+        { tool_choice: { type: 'function', function: { name: 'get_weather' } } }
+      ];
+
+      for (const body of invalidBodies) {
+        const req = createMockRequest({
+          body: { model: 'gpt-3.5-turbo', messages: [{ role: 'user', content: 'Hello' }], ...body }
+        });
+        const res = createMockResponse();
+
+        await executor.execute(req as any, res as any);
+
+        expect(res.status).toHaveBeenCalledWith(400);
+        expect(res.json).toHaveBeenCalledWith({ error: expect.stringMatching(/^Invalid tools: /) });
+      }
+      expect(generateText).not.toHaveBeenCalled();
     });
   });
 
@@ -315,7 +361,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -334,7 +380,7 @@ describe('Error Scenarios and Edge Cases', () => {
             content: "Response",
             refusal: null
           },
-          finish_reason: undefined, // finishReason not provided in mockResult
+          finish_reason: "stop", // finishReason not provided in mockResult, so it defaults to stop
           logprobs: null
         }],
         usage: {
@@ -367,7 +413,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest({
         body: {
           model: 'gpt-3.5-turbo',
@@ -398,7 +444,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest({
         body: {
           model: 'gpt-3.5-turbo',
@@ -426,7 +472,7 @@ describe('Error Scenarios and Edge Cases', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
 
       const requests = Array(5).fill(0).map(() => {
         const req = createMockRequest();
@@ -22,6 +22,7 @@ jest.mock('@ai-sdk/anthropic', () => ({
 // Mock all the provider modules
 jest.mock('@ai-sdk/google', () => ({ createGoogleGenerativeAI: jest.fn() }));
 jest.mock('@ai-sdk/google-vertex', () => ({ createVertex: jest.fn() }));
+jest.mock('@ai-sdk/azure', () => ({ createAzure: jest.fn() }));
 jest.mock('@ai-sdk/amazon-bedrock', () => ({ createAmazonBedrock: jest.fn() }));
 jest.mock('@ai-sdk/groq', () => ({ createGroq: jest.fn() }));
 jest.mock('@ai-sdk/mistral', () => ({ createMistral: jest.fn() }));
@@ -48,6 +49,7 @@ jest.mock('../components/UsageManager.js', () => {
     initialize: jest.fn(() => {
       mockInstance = {
         isUnderLimit: jest.fn(),
+        hasTokenOrCostLimit: jest.fn(),
         consume: jest.fn(),
         getCurrentUsage: jest.fn(),
       };
@@ -62,6 +64,13 @@ jest.mock('../components/UsageManager.js', () => {
   return { UsageManager: mockUsageManager };
 });
 
+jest.mock('../components/CircuitBreaker.js', () => ({
+  CircuitBreaker: {
+    getInstance: () => ({ isAvailable: () => true }),
+    initialize: jest.fn(),
+  },
+}));
+
 jest.mock('../components/Logger.js', () => ({
   logger: {
     debug: jest.fn(),
@@ -72,7 +81,8 @@ jest.mock('../components/Logger.js', () => ({
 }));
 
 jest.mock('../components/Utils.js', () => ({
-  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error')
+  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error'),
+  isRetryableError: jest.fn()
 }));
 
 // Mock PriceData
@@ -127,10 +137,24 @@ describe('Integration Tests - Complete Request Flow', () => {
 
   const mockUsageManager = {
     isUnderLimit: jest.fn(),
+    hasTokenOrCostLimit: jest.fn(),
     consume: jest.fn(),
     getCurrentUsage: jest.fn()
   };
 
+  // Mock CircuitBreaker
+  const mockCircuitBreaker = {
+    startRequest: () => true,
+    abandonRequest: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn()
+  };
+
+  // Mock UsageLedger
+  const mockUsageLedger = {
+    append: jest.fn()
+  };
+
   // Mock data
   const mockUsage = {
     promptTokens: 100,
@@ -147,10 +171,10 @@ describe('Integration Tests - Complete Request Flow', () => {
   const mockStreamTextResult = {
     usage: Promise.resolve(mockUsage),
     finishReason: Promise.resolve('stop'),
-    textStream: (async function* () {
-      yield 'Hello';
-      yield ' world';
-      yield '!';
+    fullStream: (async function* () {
+      yield { type: 'text-delta', textDelta: 'Hello' };
+      yield { type: 'text-delta', textDelta: ' world' };
+      yield { type: 'text-delta', textDelta: '!' };
     })()
   };
 
@@ -171,6 +195,8 @@ describe('Integration Tests - Complete Request Flow', () => {
     write: jest.fn().mockReturnThis(),
     end: jest.fn().mockReturnThis(),
     writeHead: jest.fn().mockReturnThis(),
+    on: jest.fn(),
+    setHeader: jest.fn().mockReturnThis(),
     locals: {},
     ...overrides
   });
@@ -185,6 +211,7 @@ describe('Integration Tests - Complete Request Flow', () => {
 
     (ConfigManager.getInstance as jest.Mock).mockReturnValue({
       getProviders: jest.fn().mockReturnValue(mockProviders),
+      events: { on: jest.fn() },
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
 
@@ -224,6 +251,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     // Setup mocks
     (ConfigManager.getInstance as jest.Mock).mockReturnValue({
       getProviders: jest.fn().mockReturnValue(mockProviders),
+      events: { on: jest.fn() },
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
     mockUsageManager.isUnderLimit.mockResolvedValue(true as never);
@@ -234,7 +262,7 @@ describe('Integration Tests - Complete Request Flow', () => {
 
     // Initialize components
     Router.initialize();
-    UnifiedExecutor.initialize(mockUsageManager as any);
+    UnifiedExecutor.initialize(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const router = Router.getInstance();
     const executor = UnifiedExecutor.getInstance();
 
@@ -292,7 +320,8 @@ describe('Integration Tests - Complete Request Flow', () => {
       expect.any(String), // Provider ID (now random)
       'gpt-3.5-turbo',
       expect.any(Object),
-      expect.any(Number)
+      expect.any(Number),
+      undefined // No gateway API key
     );
   });
 
@@ -307,6 +336,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     // Setup mocks
     (ConfigManager.getInstance as jest.Mock).mockReturnValue({
       getProviders: jest.fn().mockReturnValue(mockProviders),
+      events: { on: jest.fn() },
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
     mockUsageManager.isUnderLimit.mockResolvedValue(true as never);
@@ -316,7 +346,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     );
 
     Router.initialize();
-    UnifiedExecutor.initialize(mockUsageManager as any);
+    UnifiedExecutor.initialize(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const router = Router.getInstance();
     const executor = UnifiedExecutor.getInstance();
 
@@ -341,12 +371,13 @@ describe('Integration Tests - Complete Request Flow', () => {
 
     expect(streamText).toHaveBeenCalledWith({
       model: expect.any(Object),
-      messages: req.body.messages
+      messages: req.body.messages,
+      abortSignal: expect.any(AbortSignal)
     });
     // For streaming, expect writeHead to be called to set up SSE headers
     expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
-      'Content-Type': 'text/plain; charset=utf-8',
-      'Transfer-Encoding': 'chunked'
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
     }));
   });
 
@@ -361,6 +392,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     // Setup mocks - primary provider is over limit, backup is available
     (ConfigManager.getInstance as jest.Mock).mockReturnValue({
       getProviders: jest.fn().mockReturnValue(mockProviders),
+      events: { on: jest.fn() },
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
     mockUsageManager.isUnderLimit
@@ -372,7 +404,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     );
 
     Router.initialize();
-    UnifiedExecutor.initialize(mockUsageManager as any);
+    UnifiedExecutor.initialize(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const router = Router.getInstance();
     const executor = UnifiedExecutor.getInstance();
 
@@ -399,7 +431,8 @@ describe('Integration Tests - Complete Request Flow', () => {
       'openai-backup',
       'gpt-3.5-turbo',
       expect.any(Object),
-      expect.any(Number)
+      expect.any(Number),
+      undefined // No gateway API key
     );
   });
 
@@ -411,6 +444,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     // Setup mocks
     (ConfigManager.getInstance as jest.Mock).mockReturnValue({
       getProviders: jest.fn().mockReturnValue(mockProviders),
+      events: { on: jest.fn() },
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
 
@@ -446,6 +480,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     // Setup mocks
     (ConfigManager.getInstance as jest.Mock).mockReturnValue({
       getProviders: jest.fn().mockReturnValue(mockProviders),
+      events: { on: jest.fn() },
     });
     (UsageManager.getInstance as jest.MockedFunction<any>).mockReturnValue(mockUsageManager);
     mockUsageManager.isUnderLimit.mockResolvedValue(true as never);
@@ -455,7 +490,7 @@ describe('Integration Tests - Complete Request Flow', () => {
     );
 
     Router.initialize();
-    UnifiedExecutor.initialize(mockUsageManager as any);
+    UnifiedExecutor.initialize(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
     const router = Router.getInstance();
     const executor = UnifiedExecutor.getInstance();
 
@@ -21,6 +21,7 @@ jest.mock('@ai-sdk/openai', () => ({
 jest.mock('@ai-sdk/anthropic', () => ({ createAnthropic: jest.fn() }));
 jest.mock('@ai-sdk/google', () => ({ createGoogleGenerativeAI: jest.fn() }));
 jest.mock('@ai-sdk/google-vertex', () => ({ createVertex: jest.fn() }));
+jest.mock('@ai-sdk/azure', () => ({ createAzure: jest.fn() }));
 jest.mock('@ai-sdk/amazon-bedrock', () => ({ createAmazonBedrock: jest.fn() }));
 jest.mock('@ai-sdk/groq', () => ({ createGroq: jest.fn() }));
 jest.mock('@ai-sdk/mistral', () => ({ createMistral: jest.fn() }));
@@ -44,7 +45,8 @@ jest.mock('../components/Logger.js', () => ({
 }));
 
 jest.mock('../components/Utils.js', () => ({
-  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error')
+  getErrorMessage: jest.fn((error: any) => error.message || 'Unknown error'),
+  isRetryableError: jest.fn()
 }));
 
 // Mock PriceData
@@ -77,6 +79,19 @@ describe('Streaming Tests', () => {
     getCurrentUsage: jest.fn().mockReturnValue([])
   };
 
+  // Mock CircuitBreaker
+  const mockCircuitBreaker = {
+    startRequest: () => true,
+    abandonRequest: jest.fn(),
+    recordSuccess: jest.fn(),
+    recordFailure: jest.fn()
+  };
+
+  // Mock UsageLedger
+  const mockUsageLedger = {
+    append: jest.fn()
+  };
+
   const mockUsage = {
     promptTokens: 100,
     completionTokens: 50,
@@ -99,6 +114,8 @@ describe('Streaming Tests', () => {
     write: jest.fn().mockReturnThis(),
     end: jest.fn().mockReturnThis(),
     writeHead: jest.fn().mockReturnThis(),
+    on: jest.fn(),
+    setHeader: jest.fn().mockReturnThis(),
     setHeader: jest.fn().mockReturnThis(),
     locals: {
       chosenProvider: {
@@ -128,10 +145,10 @@ describe('Streaming Tests', () => {
       const mockStreamResult = {
         usage: Promise.resolve(mockUsage),
         finishReason: Promise.resolve('stop'),
-        textStream: (async function* () {
-          yield 'Hello';
-          yield ' world';
-          yield '!';
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'text-delta', textDelta: ' world' };
+          yield { type: 'text-delta', textDelta: '!' };
         })()
       };
 
@@ -141,7 +158,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -149,13 +166,14 @@ describe('Streaming Tests', () => {
 
       expect(streamText).toHaveBeenCalledWith({
         model: expect.any(Object),
-        messages: req.body.messages
+        messages: req.body.messages,
+        abortSignal: expect.any(AbortSignal)
       });
 
       // For streaming, expect writeHead to be called to set up SSE headers
       expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Transfer-Encoding': 'chunked'
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
       }));
     });
 
@@ -167,10 +185,10 @@ describe('Streaming Tests', () => {
       const mockStreamResult = {
         usage: Promise.resolve(mockUsage),
         finishReason: Promise.resolve('stop'),
-        textStream: (async function* () {
-          yield 'Hello';
-          yield ' world';
-          yield '!';
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'text-delta', textDelta: ' world' };
+          yield { type: 'text-delta', textDelta: '!' };
         })()
       };
 
@@ -180,7 +198,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -198,7 +216,8 @@ describe('Streaming Tests', () => {
           promptTokens: 100,
           completionTokens: 50
         }),
-        expect.any(Number)
+        expect.any(Number),
+        undefined // No gateway API key
       );
     });
 
@@ -210,10 +229,10 @@ describe('Streaming Tests', () => {
       const mockStreamResult = {
         usage: Promise.resolve(mockUsage),
         finishReason: Promise.resolve('stop'),
-        textStream: (async function* () {
-          yield 'Hello';
-          yield ' world';
-          yield '!';
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'text-delta', textDelta: ' world' };
+          yield { type: 'text-delta', textDelta: '!' };
         })()
       };
 
@@ -223,7 +242,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse({
         locals: {
@@ -255,7 +274,8 @@ describe('Streaming Tests', () => {
         'test-provider',
         'gpt-3.5-turbo',
         expect.any(Object),
-        0 // Falls back to 0 when pricing data is not available in test environment
+        0, // Falls back to 0 when pricing data is not available in test environment
+        undefined // No gateway API key
       );
     });
   });
@@ -275,7 +295,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -285,6 +305,84 @@ describe('Streaming Tests', () => {
       expect(res.json).toHaveBeenCalledWith({ error: 'AI request failed' });
     });
 
+    it('should end the stream with an OpenAI error event when the upstream fails mid-stream', async () => {
+      const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+      const { streamText } = await import('ai');
+      const { createOpenAI } = await import('@ai-sdk/openai');
+
+      (streamText as jest.MockedFunction<typeof streamText>).mockReturnValue({
+        usage: Promise.resolve(mockUsage),
+        finishReason: Promise.resolve('stop'),
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'error', error: new Error('Connection reset') };
+        })()
+      } as any);
+      (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+        modelId: modelName,
+        provider: 'openai'
+      }) as any);
+
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+      const req = createMockRequest();
+      const res = createMockResponse();
+
+      await executor.execute(req as any, res as any);
+
+      expect(res.write).toHaveBeenLastCalledWith(
+        `data: ${JSON.stringify({ error: { message: 'Streaming failed', type: 'server_error', param: null, code: null } })}\n\n`
+      );
+      expect(res.end).toHaveBeenCalled();
+      expect(mockCircuitBreaker.recordFailure).toHaveBeenCalled();
+    });
+
+    it('should abort the upstream and record estimated usage when the client disconnects', async () => {
+      const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+      const { streamText } = await import('ai');
+      const { createOpenAI } = await import('@ai-sdk/openai');
+
+      const req = createMockRequest();
+      const res = createMockResponse();
+      let abortSignal: AbortSignal | undefined;
+      (streamText as jest.MockedFunction<typeof streamText>).mockImplementation((options: any) => {
+        abortSignal = options.abortSignal;
+        return {
+          // An aborted stream never settles these
+          usage: new Promise(() => {}),
+          finishReason: new Promise(() => {}),
+          fullStream: (async function* () {
+            yield { type: 'text-delta', textDelta: 'Hello world' };
+            const [, onClose] = (res.on as jest.Mock).mock.calls.find(([event]) => event === 'close') as [string, () => void];
+            onClose();
+            throw Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+          })()
+        } as any;
+      });
+      (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+        modelId: modelName,
+        provider: 'openai'
+      }) as any);
+
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+      await executor.execute(req as any, res as any);
+
+      expect(abortSignal?.aborted).toBe(true);
+      expect(mockCircuitBreaker.recordFailure).not.toHaveBeenCalled();
+      expect(mockUsageManager.consume).toHaveBeenCalledWith(
+        'test-provider',
+        'gpt-3.5-turbo',
+        { promptTokens: expect.any(Number), completionTokens: 2 },
+        expect.any(Number),
+        undefined
+      );
+      expect(mockUsageLedger.append).toHaveBeenCalledWith(expect.objectContaining({
+        status: 'error',
+        error: 'Client disconnected',
+        completionTokens: 2
+      }));
+      expect(res.write).not.toHaveBeenCalledWith(expect.stringContaining('"error"'));
+    });
+
     it('should handle usage tracking errors in streaming', async () => {
       const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
       const { streamText } = await import('ai');
@@ -293,9 +391,9 @@ describe('Streaming Tests', () => {
       const mockStreamResult = {
         usage: Promise.reject(new Error('Usage tracking failed')),
         finishReason: Promise.resolve('stop'),
-        textStream: (async function* () {
-          yield 'Hello';
-          yield ' world';
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'text-delta', textDelta: ' world' };
         })()
       };
 
@@ -305,7 +403,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -313,8 +411,8 @@ describe('Streaming Tests', () => {
 
       // Should still set up streaming headers even if usage tracking fails
       expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Transfer-Encoding': 'chunked'
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
       }));
 
       // Wait for usage promise to be handled
@@ -324,8 +422,47 @@ describe('Streaming Tests', () => {
         // Expected to fail
       }
 
-      // Usage manager should not be called due to error
-      expect(mockUsageManager.consume).not.toHaveBeenCalled();
+      // Usage that cannot be read is estimated from the prompt and the streamed text
+      expect(mockUsageManager.consume).toHaveBeenCalledWith(
+        'test-provider',
+        'gpt-3.5-turbo',
+        { promptTokens: expect.any(Number), completionTokens: 2 },
+        expect.any(Number),
+        undefined
+      );
+    });
+
+    it('should still record a ledger row when the provider reports NaN or no usage', async () => {
+      const { UnifiedExecutor } = await import('../components/UnifiedExecutor.js');
+      const { streamText } = await import('ai');
+      const { createOpenAI } = await import('@ai-sdk/openai');
+
+      (createOpenAI as jest.MockedFunction<typeof createOpenAI>).mockReturnValue((modelName: string) => ({
+        modelId: modelName,
+        provider: 'openai'
+      }) as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
+
+      // OpenAI-compatible providers report NaN when the upstream leaves usage out of the stream
+      for (const usage of [{ promptTokens: NaN, completionTokens: NaN, totalTokens: NaN }, undefined]) {
+        mockUsageLedger.append.mockClear();
+        (streamText as jest.MockedFunction<typeof streamText>).mockReturnValue({
+          usage: Promise.resolve(usage),
+          finishReason: Promise.resolve('stop'),
+          fullStream: (async function* () {
+            yield { type: 'text-delta', textDelta: 'Hello world' };
+          })()
+        } as any);
+
+        await executor.execute(createMockRequest() as any, createMockResponse() as any);
+
+        expect(mockUsageLedger.append).toHaveBeenCalledTimes(1);
+        const [record] = mockUsageLedger.append.mock.calls[0] as any[];
+        expect(record).toEqual(expect.objectContaining({ status: 'success', completionTokens: 2, latencyMs: expect.any(Number) }));
+        expect(Number.isFinite(record.promptTokens)).toBe(true);
+        expect(record.promptTokens).toBeGreaterThan(0);
+        expect(Number.isFinite(record.cost)).toBe(true);
+      }
     });
 
     it('should handle stream interruption', async () => {
@@ -336,9 +473,9 @@ describe('Streaming Tests', () => {
       const mockStreamResult = {
         usage: Promise.resolve(mockUsage),
         finishReason: Promise.resolve('interrupted'),
-        textStream: (async function* () {
-          yield 'Hello';
-          yield ' world';
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'text-delta', textDelta: ' world' };
         })()
       };
 
@@ -348,7 +485,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -356,8 +493,8 @@ describe('Streaming Tests', () => {
 
       // Should set up streaming headers even if interrupted
       expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
-        'Content-Type': 'text/plain; charset=utf-8',
-        'Transfer-Encoding': 'chunked'
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache'
       }));
 
       // Should still track usage even if interrupted
@@ -386,7 +523,7 @@ describe('Streaming Tests', () => {
         provider: 'anthropic'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse({
         locals: {
@@ -408,7 +545,8 @@ describe('Streaming Tests', () => {
           modelId: 'claude-3-sonnet',
           provider: 'anthropic'
         }),
-        messages: req.body.messages
+        messages: req.body.messages,
+        abortSignal: expect.any(AbortSignal)
       });
     });
 
@@ -429,7 +567,7 @@ describe('Streaming Tests', () => {
         provider: 'openai-compatible'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse({
         locals: {
@@ -452,7 +590,8 @@ describe('Streaming Tests', () => {
           modelId: 'custom-model',
           provider: 'openai-compatible'
         }),
-        messages: req.body.messages
+        messages: req.body.messages,
+        abortSignal: expect.any(AbortSignal)
       });
     });
   });
@@ -473,9 +612,9 @@ describe('Streaming Tests', () => {
       const mockStreamResult = {
         usage: Promise.resolve(v2Usage),
         finishReason: Promise.resolve('stop'),
-        textStream: (async function* () {
-          yield 'Hello';
-          yield ' world';
+        fullStream: (async function* () {
+          yield { type: 'text-delta', textDelta: 'Hello' };
+          yield { type: 'text-delta', textDelta: ' world' };
         })()
       };
 
@@ -485,7 +624,7 @@ describe('Streaming Tests', () => {
         provider: 'openai'
       }) as any);
 
-      const executor = new UnifiedExecutor(mockUsageManager as any);
+      const executor = new UnifiedExecutor(mockUsageManager as any, mockCircuitBreaker as any, mockUsageLedger as any);
       const req = createMockRequest();
       const res = createMockResponse();
 
@@ -502,7 +641,8 @@ describe('Streaming Tests', () => {
           promptTokens: 75,
           completionTokens: 25
         }),
-        expect.any(Number)
+        expect.any(Number),
+        undefined // No gateway API key
       );
     });
   });
@@ -0,0 +1,188 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { RateLimiterMemory } from "rate-limiter-flexible";
+import { logger } from "./Logger.js";
+
+type InitializeParams = {
+  /** The admin token. A random one is generated for the lifetime of the process when omitted. */
+  adminToken?: string;
+};
+
+// How long a UI session lasts after logging in
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+// Session tokens carry a prefix so that a stale one, e.g. from before a restart, can be told
+// apart from a guess at the admin token
+const SESSION_PREFIX = "crs_";
+// Failed logins a client IP may make before further attempts are refused, and for how long
+const MAX_FAILED_LOGINS = 5;
+const FAILED_LOGIN_WINDOW_SECONDS = 15 * 60;
+
+/**
+ * Protects the config, admin and usage routes and the web UI with an admin token.
+ *
+ * Admin clients either pass the token itself as a Bearer token, or exchange it for a session
+ * with `login()` and pass the session token instead, which is what the web UI does. Sessions are
+ * kept in memory only, so they end when the gateway restarts. Both ways of presenting the admin
+ * token share one limit on failed attempts per client IP, so it cannot be guessed on one route
+ * while the other is throttled. The limit only refuses wrong tokens: the right one always works.
+ */
+export class AdminAuth {
+  private static instance: AdminAuth;
+  // Expiry times of the active sessions, by the SHA-256 hash of their session token
+  private sessions = new Map<string, number>();
+  // Failed logins and failed Bearer admin token checks by client IP
+  private failedLogins = new RateLimiterMemory({ points: MAX_FAILED_LOGINS, duration: FAILED_LOGIN_WINDOW_SECONDS });
+
+  // Private constructor to enforce singleton pattern. Does not initialize.
+  private constructor(private readonly tokenHash: Buffer) { }
+
+  /**
+   * Initializes the singleton AdminAuth.
+   */
+  public static initialize(params: InitializeParams = {}): void {
+    if (AdminAuth.instance) {
+      logger.warn("AdminAuth has already been initialized.");
+      return;
+    }
+
+    let adminToken = params.adminToken;
+    if (!adminToken) {
+      adminToken = randomBytes(24).toString("base64url");
+      logger.warn(
+        `No admin token configured; generated one for this run: ${adminToken}. ` +
+        "Set COSTROUTER_ADMIN_TOKEN or --admin-token to keep the same token across restarts.",
+      );
+    }
+    AdminAuth.instance = new AdminAuth(AdminAuth.hashToken(adminToken));
+    logger.info("AdminAuth initialized.");
+  }
+
+  /**
+   * Returns the singleton instance of the AdminAuth.
+   * Throws an error if it hasn't been initialized.
+   */
+  public static getInstance(): AdminAuth {
+    if (!AdminAuth.instance) {
+      throw new Error("AdminAuth must be initialized before use.");
+    }
+    return AdminAuth.instance;
+  }
+
+  private static hashToken(token: string): Buffer {
+    return createHash("sha256").update(token).digest();
+  }
+
+  private isAdminToken(token: string): boolean {
+    // Comparing fixed-length hashes keeps the comparison constant-time regardless of the input length
+    return timingSafeEqual(AdminAuth.hashToken(token), this.tokenHash);
+  }
+
+  private isActiveSession(token: string): boolean {
+    if (!token.startsWith(SESSION_PREFIX)) {
+      return false;
+    }
+    const key = AdminAuth.hashToken(token).toString("hex");
+    const expiresAt = this.sessions.get(key);
+    if (expiresAt === undefined) {
+      return false;
+    }
+    if (expiresAt <= Date.now()) {
+      this.sessions.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  private static clientOf(req: Request): string {
+    return req.ip ?? req.socket?.remoteAddress ?? "unknown";
+  }
+
+  /**
+   * Answers a wrong admin token: with a 429 if the client has already used up its failed
+   * attempts, otherwise by counting the attempt and sending the given 401 error.
+   */
+  private async refuseWrongToken(client: string, action: string, error: string, res: Response) {
+    const failures = await this.failedLogins.get(client);
+    if (failures && failures.consumedPoints >= MAX_FAILED_LOGINS) {
+      const retryAfterSeconds = Math.ceil(failures.msBeforeNext / 1000);
+      logger.warn(`Refused ${action} from ${client} after ${failures.consumedPoints} failed attempts.`);
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      return res.status(429).json({ error: `Too many failed login attempts. Try again in ${retryAfterSeconds} seconds.` });
+    }
+    await this.failedLogins.penalty(client);
+    logger.warn(`Rejected ${action} from ${client} with an invalid admin token.`);
+    return res.status(401).json({ error });
+  }
+
+  /**
+   * Express middleware that requires the admin token or an active session token as a Bearer token.
+   * Wrong admin tokens count against the same per-IP limit as failed logins. Unknown or expired
+   * session tokens do not, as the UI keeps sending them until it logs in again.
+   */
+  public async authenticate(req: Request, res: Response, next: NextFunction) {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+    if (!match) {
+      return res.status(401).json({ error: "Admin authentication required. Pass the admin token or a session token as 'Bearer <token>'." });
+    }
+    const token = match[1];
+    if (this.isAdminToken(token) || this.isActiveSession(token)) {
+      return next();
+    }
+    if (token.startsWith(SESSION_PREFIX)) {
+      logger.warn(`Rejected admin request to ${req.originalUrl} with an invalid or expired session.`);
+      return res.status(401).json({ error: "Invalid or expired admin token." });
+    }
+    return this.refuseWrongToken(AdminAuth.clientOf(req), `admin request to ${req.originalUrl}`, "Invalid or expired admin token.", res);
+  }
+
+  /**
+   * Starts a session for the web UI.
+   * @returns The session token and its expiry time, or undefined if the admin token is wrong.
+   */
+  public login(adminToken: string): { session: string; expiresAt: string } | undefined {
+    if (!this.isAdminToken(adminToken)) {
+      return undefined;
+    }
+
+    // Drop expired sessions so that the table does not grow with every login
+    const now = Date.now();
+    for (const [key, expiresAt] of this.sessions) {
+      if (expiresAt <= now) {
+        this.sessions.delete(key);
+      }
+    }
+
+    const session = SESSION_PREFIX + randomBytes(32).toString("base64url");
+    const expiresAt = now + SESSION_TTL_MS;
+    this.sessions.set(AdminAuth.hashToken(session).toString("hex"), expiresAt);
+    logger.info("Admin session started.");
+    return { session, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * Express handler for `POST /admin/login`, which exchanges the admin token in the body for a
+   * session. Failed attempts are logged with the client IP, and a client that fails too often
+   * is answered with a 429 for further wrong tokens until its window of failed attempts expires.
+   */
+  public async handleLogin(req: Request, res: Response) {
+    const { token } = req.body ?? {};
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({ error: "Admin token is required and must be a string." });
+    }
+
+    const client = AdminAuth.clientOf(req);
+    const result = this.login(token);
+    if (!result) {
+      return this.refuseWrongToken(client, "admin login", "Invalid admin token.", res);
+    }
+    await this.failedLogins.delete(client);
+    return res.json(result);
+  }
+
+  /**
+   * Ends a session. Ending an unknown or expired session has no effect.
+   */
+  public logout(session: string): void {
+    this.sessions.delete(AdminAuth.hashToken(session).toString("hex"));
+  }
+}
@@ -0,0 +1,429 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import type {
+  ChatCompletion,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources";
+import { ResponseFormat, SSE_HEADERS } from "./ResponseFormat.js";
+import { getErrorMessage } from "./Utils.js";
+
+// --- Anthropic Messages API wire format (the subset the gateway supports) ---
+
+type TextBlock = { type: "text"; text: string };
+type ImageBlock = {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+};
+type DocumentBlock = {
+  type: "document";
+  source: { type: "base64"; media_type: string; data: string } | { type: "text"; data: string };
+  title?: string;
+};
+type ToolUseBlock = { type: "tool_use"; id: string; name: string; input: unknown };
+type ToolResultBlock = {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | (TextBlock | ImageBlock)[];
+  is_error?: boolean;
+};
+// Thinking blocks from earlier turns are sent back by clients; they are not forwarded
+type ThinkingBlock = { type: "thinking" | "redacted_thinking" };
+
+type ContentBlock = TextBlock | ImageBlock | DocumentBlock | ToolUseBlock | ToolResultBlock | ThinkingBlock;
+
+/**
+ * A request body for `POST /v1/messages`.
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: { role: "user" | "assistant"; content: string | ContentBlock[] }[];
+  system?: string | TextBlock[];
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+  tools?: { name: string; description?: string; input_schema?: Record<string, unknown> }[];
+  tool_choice?: { type: "auto" | "any" | "none" } | { type: "tool"; name: string };
+  metadata?: { user_id?: string };
+}
+
+/**
+ * A response body from `POST /v1/messages`.
+ */
+export interface AnthropicMessage {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: (TextBlock | ToolUseBlock)[];
+  stop_reason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal" | null;
+  stop_sequence: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+// Anthropic error types by HTTP status
+const ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  413: "request_too_large",
+  429: "rate_limit_error",
+  529: "overloaded_error",
+};
+
+/**
+ * Translates between the Anthropic Messages API wire format and the OpenAI Chat Completions
+ * format the Router and executor work with, so Anthropic clients can use any provider.
+ * This is a stateless utility class; no instance is required.
+ */
+export class AnthropicTranslator {
+  /**
+   * Converts an Anthropic Messages request into the equivalent OpenAI chat completion request.
+   * Tool results become `tool` messages and tool uses become assistant `tool_calls`.
+   * @throws If the request is malformed or uses content the gateway cannot forward.
+   */
+  public static toChatCompletionRequest(body: AnthropicMessagesRequest): ChatCompletionCreateParams {
+    if (typeof body?.model !== "string") {
+      throw new Error("model is required");
+    }
+    if (!Array.isArray(body.messages)) {
+      throw new Error("messages must be an array");
+    }
+
+    const messages: ChatCompletionMessageParam[] = [];
+    const system = typeof body.system === "string" ? body.system : this.joinText(body.system ?? []);
+    if (system) {
+      messages.push({ role: "system", content: system });
+    }
+    for (const message of body.messages) {
+      messages.push(...this.toChatMessages(message));
+    }
+
+    return {
+      model: body.model,
+      messages,
+      ...(body.max_tokens !== undefined && { max_tokens: body.max_tokens }),
+      ...(body.temperature !== undefined && { temperature: body.temperature }),
+      ...(body.top_p !== undefined && { top_p: body.top_p }),
+      ...(body.stop_sequences && { stop: body.stop_sequences }),
+      ...(body.stream !== undefined && { stream: body.stream }),
+      ...(body.tools && { tools: body.tools.map((tool) => this.toChatTool(tool)) }),
+      ...(body.tool_choice && { tool_choice: this.toChatToolChoice(body.tool_choice) }),
+      ...(body.metadata?.user_id && { user: body.metadata.user_id }),
+    };
+  }
+
+  private static toChatMessages(message: AnthropicMessagesRequest["messages"][number]): ChatCompletionMessageParam[] {
+    if (typeof message.content === "string") {
+      return [{ role: message.role, content: message.content }];
+    }
+
+    if (message.role === "assistant") {
+      const toolCalls = message.content
+        .filter((block): block is ToolUseBlock => block.type === "tool_use")
+        .map((block) => ({
+          id: block.id,
+          type: "function" as const,
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+      const text = this.joinText(message.content);
+      return [{
+        role: "assistant",
+        content: toolCalls.length > 0 && !text ? null : text,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      }];
+    }
+
+    // Tool results come first in a user turn; each becomes its own tool message
+    const messages: ChatCompletionMessageParam[] = [];
+    const parts: ChatCompletionContentPart[] = [];
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        messages.push({ role: "tool", tool_call_id: block.tool_use_id, content: this.toolResultText(block) });
+      } else {
+        const part = this.toContentPart(block);
+        if (part) {
+          parts.push(part);
+        }
+      }
+    }
+    if (parts.length > 0) {
+      messages.push({ role: "user", content: parts });
+    }
+    return messages;
+  }
+
+  private static toContentPart(block: ContentBlock): ChatCompletionContentPart | undefined {
+    switch (block.type) {
+      case "text":
+        return { type: "text", text: block.text };
+      case "image":
+        return {
+          type: "image_url",
+          image_url: {
+            url: block.source.type === "base64"
+              ? `data:${block.source.media_type};base64,${block.source.data}`
+              : block.source.url,
+          },
+        };
+      case "document":
+        if (block.source.type === "text") {
+          return { type: "text", text: block.source.data };
+        }
+        return {
+          type: "file",
+          file: {
+            file_data: `data:${block.source.media_type};base64,${block.source.data}`,
+            ...(block.title && { filename: block.title }),
+          },
+        };
+      case "thinking":
+      case "redacted_thinking":
+        return undefined;
+      default:
+        throw new Error(`Unsupported content block type: ${block.type}`);
+    }
+  }
+
+  private static toolResultText(block: ToolResultBlock): string {
+    if (typeof block.content === "string") {
+      return block.content;
+    }
+    if ((block.content ?? []).some((part) => part.type !== "text")) {
+      throw new Error("Tool results can only contain text");
+    }
+    return this.joinText(block.content ?? []);
+  }
+
+  private static toChatTool(tool: NonNullable<AnthropicMessagesRequest["tools"]>[number]): ChatCompletionTool {
+    return {
+      type: "function",
+      function: {
+        name: tool.name,
+        ...(tool.description && { description: tool.description }),
+        parameters: tool.input_schema ?? { type: "object", properties: {} },
+      },
+    };
+  }
+
+  private static toChatToolChoice(
+    toolChoice: NonNullable<AnthropicMessagesRequest["tool_choice"]>,
+  ): ChatCompletionToolChoiceOption {
+    switch (toolChoice.type) {
+      case "any":
+        return "required";
+      case "none":
+        return "none";
+      case "tool":
+        return { type: "function", function: { name: toolChoice.name } };
+      default:
+        return "auto";
+    }
+  }
+
+  /**
+   * Converts an OpenAI chat completion into an Anthropic message.
+   */
+  public static toAnthropicMessage(completion: ChatCompletion): AnthropicMessage {
+    const choice = completion.choices[0];
+    const content: AnthropicMessage["content"] = [];
+    if (choice?.message.content) {
+      content.push({ type: "text", text: choice.message.content });
+    }
+    for (const toolCall of choice?.message.tool_calls ?? []) {
+      if (toolCall.type === "function") {
+        content.push({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.function.name,
+          input: this.parseInput(toolCall.function.arguments),
+        });
+      }
+    }
+
+    return {
+      id: this.toMessageId(completion.id),
+      type: "message",
+      role: "assistant",
+      model: completion.model,
+      content,
+      stop_reason: this.toStopReason(choice?.finish_reason),
+      stop_sequence: null,
+      usage: {
+        input_tokens: completion.usage?.prompt_tokens ?? 0,
+        output_tokens: completion.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Maps an OpenAI `finish_reason` onto the Anthropic `stop_reason` vocabulary.
+   */
+  public static toStopReason(finishReason?: string | null): AnthropicMessage["stop_reason"] {
+    switch (finishReason) {
+      case "length":
+        return "max_tokens";
+      case "tool_calls":
+      case "function_call":
+        return "tool_use";
+      case "content_filter":
+        return "refusal";
+      case undefined:
+      case null:
+        return null;
+      default:
+        return "end_turn";
+    }
+  }
+
+  /**
+   * Builds an Anthropic error body, typed by the HTTP status.
+   */
+  public static toErrorBody(status: number, message: string): { type: "error"; error: { type: string; message: string } } {
+    return { type: "error", error: { type: ERROR_TYPES[status] ?? "api_error", message } };
+  }
+
+  public static toMessageId(completionId?: string): string {
+    return completionId?.startsWith("chatcmpl-")
+      ? `msg_${completionId.slice("chatcmpl-".length)}`
+      : `msg_${randomUUID().replace(/-/g, "")}`;
+  }
+
+  private static parseInput(args: string): unknown {
+    try {
+      return JSON.parse(args || "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  private static joinText(blocks: { type: string; text?: string }[]): string {
+    return blocks
+      .filter((block) => block.type === "text")
+      .map((block) => block.text)
+      .join("");
+  }
+}
+
+/**
+ * Answers in the Anthropic Messages format. Streams are sent as Anthropic server-sent events:
+ * message_start, then content_block_start/delta/stop for each text or tool_use block, then
+ * message_delta with the stop reason and usage, and message_stop.
+ */
+export const anthropicResponseFormat: ResponseFormat = {
+  sendCompletion(res, completion) {
+    res.json(AnthropicTranslator.toAnthropicMessage(completion));
+  },
+
+  sendError(res, status, message) {
+    res.status(status).json(AnthropicTranslator.toErrorBody(status, message));
+  },
+
+  startStream(res) {
+    res.writeHead(200, SSE_HEADERS);
+    const send = (type: string, data: object) => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`);
+    };
+
+    let started = false;
+    let stopReason: AnthropicMessage["stop_reason"] = null;
+    // The content block being streamed, and the blocks of each OpenAI tool call index
+    let blockIndex = -1;
+    let openBlock: "text" | "tool_use" | undefined;
+    const toolBlocks = new Map<number, number>();
+
+    const startBlock = (type: "text" | "tool_use", contentBlock: object) => {
+      stopBlock();
+      blockIndex++;
+      openBlock = type;
+      send("content_block_start", { index: blockIndex, content_block: contentBlock });
+    };
+    const stopBlock = () => {
+      if (openBlock) {
+        send("content_block_stop", { index: blockIndex });
+        openBlock = undefined;
+      }
+    };
+
+    return {
+      writeChunk(chunk) {
+        if (!started) {
+          started = true;
+          send("message_start", {
+            message: {
+              id: AnthropicTranslator.toMessageId(chunk.id),
+              type: "message",
+              role: "assistant",
+              model: chunk.model,
+              content: [],
+              stop_reason: null,
+              stop_sequence: null,
+              usage: { input_tokens: 0, output_tokens: 0 },
+            },
+          });
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) {
+          return;
+        }
+        if (choice.delta.content) {
+          if (openBlock !== "text") {
+            startBlock("text", { type: "text", text: "" });
+          }
+          send("content_block_delta", { index: blockIndex, delta: { type: "text_delta", text: choice.delta.content } });
+        }
+        for (const toolCall of choice.delta.tool_calls ?? []) {
+          if (toolCall.id) {
+            startBlock("tool_use", { type: "tool_use", id: toolCall.id, name: toolCall.function?.name ?? "", input: {} });
+            toolBlocks.set(toolCall.index, blockIndex);
+          }
+          const partialJson = toolCall.function?.arguments;
+          if (partialJson) {
+            send("content_block_delta", {
+              index: toolBlocks.get(toolCall.index) ?? blockIndex,
+              delta: { type: "input_json_delta", partial_json: partialJson },
+            });
+          }
+        }
+        if (choice.finish_reason) {
+          stopReason = AnthropicTranslator.toStopReason(choice.finish_reason);
+        }
+      },
+
+      end(usage) {
+        stopBlock();
+        send("message_delta", {
+          delta: { stop_reason: stopReason ?? "end_turn", stop_sequence: null },
+          usage: { input_tokens: usage?.prompt_tokens ?? 0, output_tokens: usage?.completion_tokens ?? 0 },
+        });
+        send("message_stop", {});
+        res.end();
+      },
+
+      fail(message) {
+        send("error", { error: { type: "api_error", message } });
+        res.end();
+      },
+    };
+  },
+};
+
+/**
+ * Express middleware that translates an Anthropic Messages request body into the OpenAI chat
+ * completion request the Router and executor expect. Invalid requests are rejected with a 400.
+ */
+export function translateAnthropicRequest(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = AnthropicTranslator.toChatCompletionRequest(req.body);
+  } catch (error) {
+    return anthropicResponseFormat.sendError(res, 400, `Invalid request: ${getErrorMessage(error)}`);
+  }
+  return next();
+}
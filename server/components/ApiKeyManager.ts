@@ -0,0 +1,242 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { ConfigManager } from "./config/ConfigManager.js";
+import { AppConfig } from "#schemas/appConfig.schema";
+import { ApiKey, ApiKeySchema } from "#schemas/apiKey.schema";
+import { Limits } from "#schemas/limits.schema";
+import { logger } from "./Logger.js";
+import { getResponseFormat } from "./ResponseFormat.js";
+
+/**
+ * An API key as shown by the management API, without its hash.
+ */
+export type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+
+/**
+ * The settings of an API key that can be chosen when it is created or changed later.
+ */
+export interface ApiKeySettings {
+  allowedModels?: string[];
+  limits?: Limits;
+}
+
+const KEY_PREFIX = "cr-";
+// Characters of the key kept in the config to help identify it, including KEY_PREFIX
+const DISPLAYED_KEY_LENGTH = 10;
+
+/**
+ * Issues gateway API keys and authenticates requests made with them.
+ *
+ * Keys are stored in the config as SHA-256 hashes, so a key can only be read when it is created.
+ * Authentication is only enforced once at least one key exists, so a gateway without keys keeps
+ * working as before. Revoked keys stay in the config so that their usage history keeps its name.
+ */
+export class ApiKeyManager {
+  private static instance: ApiKeyManager;
+  // Keys by hash, rebuilt whenever the config changes
+  private keysByHash = new Map<string, ApiKey>();
+
+  // Private constructor to enforce singleton pattern. Does not initialize.
+  private constructor() { }
+
+  /**
+   * Initializes the singleton ApiKeyManager.
+   * This MUST be called after ConfigManager is initialized.
+   */
+  public static initialize(): void {
+    if (ApiKeyManager.instance) {
+      logger.warn("ApiKeyManager has already been initialized.");
+      return;
+    }
+    const configManager = ConfigManager.getInstance();
+    ApiKeyManager.instance = new ApiKeyManager();
+    ApiKeyManager.instance.indexKeys(configManager.getConfig());
+
+    configManager.events.on('configUpdated', (newConfig: AppConfig) => {
+      ApiKeyManager.getInstance().indexKeys(newConfig);
+    });
+
+    const keyCount = ApiKeyManager.instance.keysByHash.size;
+    if (keyCount === 0) {
+      logger.warn("No gateway API keys are configured; the /v1 endpoints are open to anyone who can reach them.");
+    } else {
+      logger.info(`ApiKeyManager initialized with ${keyCount} API key(s).`);
+    }
+  }
+
+  /**
+   * Returns the singleton instance of the ApiKeyManager.
+   * Throws an error if it hasn't been initialized.
+   */
+  public static getInstance(): ApiKeyManager {
+    if (!ApiKeyManager.instance) {
+      throw new Error("ApiKeyManager must be initialized before use.");
+    }
+    return ApiKeyManager.instance;
+  }
+
+  /**
+   * Determines whether an API key may use a model, by its mapped name.
+   */
+  public static allowsModel(apiKey: ApiKey | undefined, modelName: string): boolean {
+    return !apiKey?.allowedModels || apiKey.allowedModels.includes(modelName);
+  }
+
+  private static hashKey(key: string): string {
+    return createHash("sha256").update(key).digest("hex");
+  }
+
+  private static toInfo(apiKey: ApiKey): ApiKeyInfo {
+    const { keyHash: _keyHash, ...info } = apiKey;
+    return info;
+  }
+
+  /**
+   * Validates an API key before it is saved.
+   * @returns A description of the invalid fields, or undefined if the key is valid.
+   */
+  private static validate(apiKey: ApiKey): string | undefined {
+    const result = ApiKeySchema.safeParse(apiKey);
+    if (result.success) {
+      return undefined;
+    }
+    return result.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`).join("; ");
+  }
+
+  private indexKeys(config: AppConfig): void {
+    this.keysByHash = new Map((config.apiKeys ?? []).map((apiKey) => [apiKey.keyHash, apiKey]));
+  }
+
+  /**
+   * Express middleware that requires a valid, unrevoked API key once any key is configured.
+   * The key is read from a Bearer token, or from the x-api-key header that Anthropic clients use
+   * or the x-goog-api-key header that Google GenAI clients use.
+   * It is made available to later handlers as `res.locals.apiKey`.
+   */
+  public authenticate(req: Request, res: Response, next: NextFunction) {
+    if (this.keysByHash.size === 0) {
+      return next();
+    }
+
+    const key = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "")?.[1]
+      ?? (req.headers["x-api-key"] as string | undefined)
+      ?? (req.headers["x-goog-api-key"] as string | undefined);
+    if (!key) {
+      return getResponseFormat(res).sendError(
+        res,
+        401,
+        "Missing API key. Pass it in the Authorization header as 'Bearer <key>' or in the x-api-key or x-goog-api-key header.",
+      );
+    }
+
+    const apiKey = this.keysByHash.get(ApiKeyManager.hashKey(key));
+    if (!apiKey) {
+      logger.warn(`Rejected request to ${req.path} with an invalid API key.`);
+      return getResponseFormat(res).sendError(res, 401, "Invalid API key.");
+    }
+    if (apiKey.revokedAt) {
+      logger.warn(`Rejected request to ${req.path} with revoked API key '${apiKey.name}'.`);
+      return getResponseFormat(res).sendError(res, 401, "This API key has been revoked.");
+    }
+
+    res.locals.apiKey = apiKey;
+    return next();
+  }
+
+  /**
+   * Lists all API keys, including revoked ones.
+   */
+  public listKeys(): ApiKeyInfo[] {
+    return (ConfigManager.getInstance().getConfig().apiKeys ?? []).map((apiKey) => ApiKeyManager.toInfo(apiKey));
+  }
+
+  /**
+   * Returns an API key by its ID.
+   */
+  public getKey(id: string): ApiKeyInfo | undefined {
+    const apiKey = ConfigManager.getInstance().getConfig().apiKeys?.find((k) => k.id === id);
+    return apiKey && ApiKeyManager.toInfo(apiKey);
+  }
+
+  /**
+   * Issues a new API key.
+   * @returns The stored key and the key itself, which cannot be retrieved again, or an error.
+   */
+  public async createKey(
+    name: string,
+    settings: ApiKeySettings = {},
+  ): Promise<{ apiKey: ApiKeyInfo; key: string } | { error: string; status: number }> {
+    const config = ConfigManager.getInstance().getConfig();
+    const apiKeys = config.apiKeys ?? [];
+    if (apiKeys.some((k) => k.name === name)) {
+      return { error: `An API key named '${name}' already exists.`, status: 409 };
+    }
+
+    const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      name,
+      keyHash: ApiKeyManager.hashKey(key),
+      keyPrefix: key.slice(0, DISPLAYED_KEY_LENGTH),
+      createdAt: new Date().toISOString(),
+      allowedModels: settings.allowedModels,
+      limits: settings.limits,
+    };
+    const invalid = ApiKeyManager.validate(apiKey);
+    if (invalid) {
+      return { error: `Invalid API key settings: ${invalid}`, status: 400 };
+    }
+
+    await ConfigManager.getInstance().updateConfig({ ...config, apiKeys: [...apiKeys, apiKey] });
+    logger.info(`Created API key '${name}' (${apiKey.id}).`);
+    return { apiKey: ApiKeyManager.toInfo(apiKey), key };
+  }
+
+  /**
+   * Replaces the allowed models and limits of an API key.
+   * @returns The updated key, or an error.
+   */
+  public async updateKey(
+    id: string,
+    settings: ApiKeySettings,
+  ): Promise<{ apiKey: ApiKeyInfo } | { error: string; status: number }> {
+    return this.modifyKey(id, (apiKey) => ({
+      ...apiKey,
+      allowedModels: settings.allowedModels,
+      limits: settings.limits,
+    }));
+  }
+
+  /**
+   * Revokes an API key. Requests made with it are rejected from then on.
+   * @returns The revoked key, or an error.
+   */
+  public async revokeKey(id: string): Promise<{ apiKey: ApiKeyInfo } | { error: string; status: number }> {
+    return this.modifyKey(id, (apiKey) => ({ ...apiKey, revokedAt: apiKey.revokedAt ?? new Date().toISOString() }));
+  }
+
+  private async modifyKey(
+    id: string,
+    modify: (apiKey: ApiKey) => ApiKey,
+  ): Promise<{ apiKey: ApiKeyInfo } | { error: string; status: number }> {
+    const config = ConfigManager.getInstance().getConfig();
+    const apiKeys = config.apiKeys ?? [];
+    const index = apiKeys.findIndex((k) => k.id === id);
+    if (index === -1) {
+      return { error: `API key not found: ${id}`, status: 404 };
+    }
+
+    const updated = modify(apiKeys[index]);
+    const invalid = ApiKeyManager.validate(updated);
+    if (invalid) {
+      return { error: `Invalid API key settings: ${invalid}`, status: 400 };
+    }
+
+    await ConfigManager.getInstance().updateConfig({
+      ...config,
+      apiKeys: apiKeys.map((apiKey, i) => (i === index ? updated : apiKey)),
+    });
+    logger.info(`Updated API key '${updated.name}' (${id}).`);
+    return { apiKey: ApiKeyManager.toInfo(updated) };
+  }
+}
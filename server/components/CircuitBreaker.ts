@@ -0,0 +1,231 @@
+import { ConfigManager } from "./config/ConfigManager.js";
+import { AppConfig } from "#schemas/appConfig.schema";
+import { logger } from "./Logger.js";
+import { getErrorMessage, isRetryableError } from "./Utils.js";
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Types for usage dashboard
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  /** Epoch milliseconds at which an open circuit will let requests through again. */
+  retryAt?: number;
+}
+
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // Number of times the circuit has re-opened without a success; doubles the cooldown
+  trips: number;
+  lastError?: string;
+  retryAt?: number;
+  // Whether a half-open circuit's single probe request is in flight
+  probing?: boolean;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_SECONDS = 30;
+const DEFAULT_MAX_COOLDOWN_SECONDS = 600;
+
+/**
+ * Tracks upstream health per provider/model and stops routing to backends that keep failing.
+ *
+ * A circuit starts closed. After `failureThreshold` consecutive upstream failures it opens and
+ * the Router skips the provider/model until the cooldown has elapsed. It then goes half-open and
+ * lets a single probe request through, rejecting the rest until the probe ends: its success closes
+ * the circuit, while a failure re-opens it immediately with a doubled cooldown (up to `maxCooldownSeconds`).
+ * Requests are started with startRequest, which claims the probe of a half-open circuit.
+ */
+export class CircuitBreaker {
+  private static instance: CircuitBreaker;
+  private circuits = new Map<string, Circuit>();
+
+  // Private constructor to enforce singleton pattern. Does not initialize.
+  private constructor() { }
+
+  /**
+   * Initializes the singleton CircuitBreaker.
+   * This MUST be called after ConfigManager is initialized.
+   */
+  public static initialize(): void {
+    if (CircuitBreaker.instance) {
+      logger.warn("CircuitBreaker has already been initialized.");
+      return;
+    }
+    CircuitBreaker.instance = new CircuitBreaker();
+
+    // Forget circuits for providers and models that have been removed from the config
+    ConfigManager.getInstance().events.on('configUpdated', (newConfig: AppConfig) => {
+      CircuitBreaker.getInstance().pruneCircuits(newConfig);
+    });
+    logger.info("CircuitBreaker initialized.");
+  }
+
+  /**
+   * Returns the singleton instance of the CircuitBreaker.
+   * Throws an error if it hasn't been initialized.
+   */
+  public static getInstance(): CircuitBreaker {
+    if (!CircuitBreaker.instance) {
+      throw new Error("CircuitBreaker must be initialized before use.");
+    }
+    return CircuitBreaker.instance;
+  }
+
+  /**
+   * Determines whether an upstream error says something about the health of the backend.
+   * Rate limits, server errors, timeouts, connection failures and rejected credentials count;
+   * other client errors are the caller's fault and do not.
+   */
+  public static isUpstreamFailure(error: unknown): boolean {
+    // The AI SDK wraps the final failure after exhausting its own retries
+    const cause = (error as { lastError?: unknown } | undefined)?.lastError ?? error;
+    const statusCode = (cause as { statusCode?: number } | undefined)?.statusCode;
+    if (statusCode === 401 || statusCode === 403) {
+      return true;
+    }
+    return isRetryableError(error);
+  }
+
+  /**
+   * Checks whether requests may currently be sent to a provider/model, without starting one.
+   * An open circuit whose cooldown has elapsed is available until its probe request is started.
+   */
+  public isAvailable(providerId: string, modelName: string): boolean {
+    const circuit = this.circuits.get(this.key(providerId, modelName));
+    if (!circuit || circuit.state === 'closed') {
+      return true;
+    }
+    if (circuit.state === 'open') {
+      return Date.now() >= (circuit.retryAt ?? 0);
+    }
+    return !circuit.probing;
+  }
+
+  /**
+   * Starts a request to a provider/model if its circuit allows one. An open circuit whose cooldown
+   * has elapsed moves to half-open and the request becomes its probe; no other request is allowed
+   * until the probe is recorded with recordSuccess, recordFailure or abandonRequest.
+   * @returns Whether the request may be sent.
+   */
+  public startRequest(providerId: string, modelName: string): boolean {
+    const key = this.key(providerId, modelName);
+    const circuit = this.circuits.get(key);
+    if (!circuit || circuit.state === 'closed') {
+      return true;
+    }
+    if (!this.isAvailable(providerId, modelName)) {
+      return false;
+    }
+    circuit.state = 'half-open';
+    circuit.probing = true;
+    logger.info(`Circuit for '${key}' is half-open; allowing a probe request.`);
+    return true;
+  }
+
+  /**
+   * Records a request that ended without showing whether the backend is healthy, such as one
+   * the client disconnected from. A half-open circuit admits a new probe request.
+   */
+  public abandonRequest(providerId: string, modelName: string): void {
+    const circuit = this.circuits.get(this.key(providerId, modelName));
+    if (circuit) {
+      circuit.probing = false;
+    }
+  }
+
+  /**
+   * Records a successful upstream call, closing the circuit.
+   */
+  public recordSuccess(providerId: string, modelName: string): void {
+    const key = this.key(providerId, modelName);
+    const circuit = this.circuits.get(key);
+    if (!circuit) {
+      return;
+    }
+    if (circuit.state !== 'closed') {
+      logger.info(`Circuit for '${key}' closed after a successful request.`);
+    }
+    this.circuits.delete(key);
+  }
+
+  /**
+   * Records a failed upstream call. Errors that are not upstream failures are treated like an
+   * abandoned request.
+   */
+  public recordFailure(providerId: string, modelName: string, error: unknown): void {
+    if (!CircuitBreaker.isUpstreamFailure(error)) {
+      this.abandonRequest(providerId, modelName);
+      return;
+    }
+
+    const key = this.key(providerId, modelName);
+    const circuit = this.circuits.get(key) ?? { state: 'closed', consecutiveFailures: 0, trips: 0 };
+
+    circuit.consecutiveFailures++;
+    circuit.lastError = getErrorMessage(error);
+    this.circuits.set(key, circuit);
+
+    const { failureThreshold } = this.getSettings();
+    if (circuit.state === 'half-open' || circuit.consecutiveFailures >= failureThreshold) {
+      this.open(key, circuit);
+    }
+  }
+
+  /**
+   * Returns the circuit status of a provider/model for the usage dashboard.
+   */
+  public getStatus(providerId: string, modelName: string): CircuitStatus {
+    const circuit = this.circuits.get(this.key(providerId, modelName));
+    if (!circuit) {
+      return { state: 'closed', consecutiveFailures: 0 };
+    }
+    // Report an open circuit whose cooldown has elapsed as half-open, as the next check will
+    const state = circuit.state === 'open' && Date.now() >= (circuit.retryAt ?? 0) ? 'half-open' : circuit.state;
+    return {
+      state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastError: circuit.lastError,
+      retryAt: state === 'open' ? circuit.retryAt : undefined,
+    };
+  }
+
+  private open(key: string, circuit: Circuit): void {
+    const { cooldownSeconds, maxCooldownSeconds } = this.getSettings();
+    const cooldownMs = Math.min(cooldownSeconds * 2 ** circuit.trips, maxCooldownSeconds) * 1000;
+
+    circuit.state = 'open';
+    circuit.probing = false;
+    circuit.trips++;
+    circuit.retryAt = Date.now() + cooldownMs;
+    logger.warn(
+      `Circuit for '${key}' opened after ${circuit.consecutiveFailures} consecutive failure(s) (${circuit.lastError}). Retrying in ${cooldownMs / 1000}s.`
+    );
+  }
+
+  private pruneCircuits(config: AppConfig): void {
+    const validKeys = new Set(
+      config.providers.flatMap((provider) => provider.models.map((model) => this.key(provider.id, model.name)))
+    );
+    for (const key of this.circuits.keys()) {
+      if (!validKeys.has(key)) {
+        this.circuits.delete(key);
+      }
+    }
+  }
+
+  private getSettings(): { failureThreshold: number; cooldownSeconds: number; maxCooldownSeconds: number } {
+    const settings = ConfigManager.getInstance().getConfig().circuitBreaker;
+    return {
+      failureThreshold: settings?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD,
+      cooldownSeconds: settings?.cooldownSeconds ?? DEFAULT_COOLDOWN_SECONDS,
+      maxCooldownSeconds: settings?.maxCooldownSeconds ?? DEFAULT_MAX_COOLDOWN_SECONDS,
+    };
+  }
+
+  private key(providerId: string, modelName: string): string {
+    return `${providerId}/${modelName}`;
+  }
+}
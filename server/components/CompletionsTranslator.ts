@@ -0,0 +1,222 @@
+import { NextFunction, Request, Response } from "express";
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  Completion,
+  CompletionChoice,
+  CompletionUsage,
+} from "openai/resources";
+import type { CompletionCreateParamsBase } from "openai/resources/completions";
+import { openAIErrorEvent, openAIResponseFormat, ResponseFormat, SSE_HEADERS } from "./ResponseFormat.js";
+import { getErrorMessage } from "./Utils.js";
+
+/**
+ * A request body for `POST /v1/completions`.
+ */
+export type CompletionsRequest = CompletionCreateParamsBase;
+
+/**
+ * The options of a completions request that shape its response rather than the chat
+ * completion it is served by. Kept in `res.locals.completionsOptions` for the response format.
+ */
+export interface CompletionsOptions {
+  /** The prompt, to prepend to the completion text when the request set `echo`. */
+  echo?: string;
+  /** Whether to send a final stream chunk with the usage, as set by `stream_options.include_usage`. */
+  includeUsage: boolean;
+}
+
+// Chat models have no fill-in-the-middle mode, so requests with a suffix are rephrased as an instruction
+const FILL_IN_THE_MIDDLE_INSTRUCTION =
+  "Fill in the missing text between <prefix> and <suffix> in the user's message. " +
+  "Reply with the missing text only, without the prefix, the suffix, the tags or any explanation.";
+
+/**
+ * Translates between the legacy OpenAI Completions wire format and the Chat Completions format
+ * the Router and executor work with. The prompt is sent as a user message, so the text comes
+ * from whichever chat model serves the mapped model name.
+ * This is a stateless utility class; no instance is required.
+ */
+export class CompletionsTranslator {
+  /**
+   * Converts a completions request into the equivalent chat completion request. A `suffix`
+   * turns the request into a fill-in-the-middle instruction around the prompt.
+   * @throws If the request is malformed or uses features the gateway cannot forward.
+   */
+  public static toChatCompletionRequest(body: CompletionsRequest): ChatCompletionCreateParams {
+    if (typeof body?.model !== "string") {
+      throw new Error("model is required");
+    }
+    const prompt = this.toPromptText(body.prompt);
+    if (body.best_of != null && body.best_of > 1) {
+      throw new Error("best_of is not supported");
+    }
+    if (body.logprobs != null) {
+      throw new Error("logprobs is not supported");
+    }
+
+    const messages: ChatCompletionMessageParam[] = body.suffix
+      ? [
+          { role: "system", content: FILL_IN_THE_MIDDLE_INSTRUCTION },
+          { role: "user", content: `<prefix>${prompt}</prefix><suffix>${body.suffix}</suffix>` },
+        ]
+      : [{ role: "user", content: prompt }];
+
+    return {
+      model: body.model,
+      messages,
+      ...(body.max_tokens != null && { max_tokens: body.max_tokens }),
+      ...(body.temperature != null && { temperature: body.temperature }),
+      ...(body.top_p != null && { top_p: body.top_p }),
+      ...(body.n != null && { n: body.n }),
+      ...(body.stop != null && { stop: body.stop }),
+      ...(body.presence_penalty != null && { presence_penalty: body.presence_penalty }),
+      ...(body.frequency_penalty != null && { frequency_penalty: body.frequency_penalty }),
+      ...(body.seed != null && { seed: body.seed }),
+      ...(body.user && { user: body.user }),
+      ...(body.stream != null && { stream: body.stream }),
+    } as ChatCompletionCreateParams;
+  }
+
+  /**
+   * Returns the text of a request's prompt. A completions request can batch several prompts
+   * or send them as tokens; only a single text prompt can be served by a chat model.
+   * @throws If the prompt is not a single text prompt.
+   */
+  public static toPromptText(prompt: CompletionsRequest["prompt"]): string {
+    if (typeof prompt === "string") {
+      return prompt;
+    }
+    if (Array.isArray(prompt) && prompt.length === 1 && typeof prompt[0] === "string") {
+      return prompt[0];
+    }
+    throw new Error("prompt must be a string. Batched and token prompts are not supported.");
+  }
+
+  /**
+   * Converts a chat completion into a `text_completion`, one choice per chat choice.
+   * @param echo The prompt, to prepend to each choice's text.
+   */
+  public static toCompletion(completion: ChatCompletion, echo?: string): Completion {
+    return {
+      id: this.toCompletionId(completion.id),
+      object: "text_completion",
+      created: completion.created,
+      model: completion.model,
+      choices: completion.choices.map((choice) => ({
+        index: choice.index,
+        text: (echo ?? "") + (choice.message.content ?? ""),
+        logprobs: null,
+        finish_reason: this.toFinishReason(choice.finish_reason),
+      })),
+      ...(completion.usage && { usage: completion.usage }),
+    };
+  }
+
+  /**
+   * Maps a chat completion finish reason onto the ones a text completion can have.
+   * Tool calls cannot be requested through the completions API, so they only end a text.
+   */
+  public static toFinishReason(finishReason: ChatCompletion.Choice["finish_reason"]): CompletionChoice["finish_reason"] {
+    return finishReason === "length" || finishReason === "content_filter" ? finishReason : "stop";
+  }
+
+  /**
+   * Derives the completion ID from the chat completion ID (`chatcmpl-x` becomes `cmpl-x`).
+   */
+  public static toCompletionId(completionId: string): string {
+    return completionId.startsWith("chatcmpl-") ? `cmpl-${completionId.slice("chatcmpl-".length)}` : completionId;
+  }
+}
+
+/**
+ * Returns the response options of a completions request, set by `translateCompletionsRequest`.
+ */
+function getCompletionsOptions(res: Response): CompletionsOptions {
+  return res.locals.completionsOptions ?? { includeUsage: false };
+}
+
+/**
+ * Answers in the legacy Completions format. Streams are sent as `text_completion` chunks in
+ * the same server-sent events as chat completion chunks, ending with `[DONE]`. Errors are sent
+ * like those of the Chat Completions endpoint.
+ */
+export const completionsResponseFormat: ResponseFormat = {
+  sendCompletion(res, completion) {
+    res.json(CompletionsTranslator.toCompletion(completion, getCompletionsOptions(res).echo));
+  },
+
+  sendError(res, status, message) {
+    openAIResponseFormat.sendError(res, status, message);
+  },
+
+  startStream(res) {
+    const { echo, includeUsage } = getCompletionsOptions(res);
+    res.writeHead(200, SSE_HEADERS);
+
+    let id = "";
+    let created = 0;
+    let model = "";
+    const send = (choices: CompletionChoice[], usage?: CompletionUsage) => {
+      const chunk: Completion = { id, object: "text_completion", created, model, choices, ...(usage && { usage }) };
+      res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+    };
+    const choice = (text: string, finishReason: CompletionChoice["finish_reason"] | null): CompletionChoice =>
+      // Chunks have no finish reason until the last one, which the SDK types do not allow for
+      ({ index: 0, text, logprobs: null, finish_reason: finishReason as CompletionChoice["finish_reason"] });
+
+    return {
+      writeChunk(chunk) {
+        if (!id) {
+          id = CompletionsTranslator.toCompletionId(chunk.id);
+          created = chunk.created;
+          model = chunk.model;
+          if (echo) {
+            send([choice(echo, null)]);
+          }
+        }
+
+        const delta = chunk.choices[0];
+        if (delta?.delta.content) {
+          send([choice(delta.delta.content, null)]);
+        }
+        if (delta?.finish_reason) {
+          send([choice("", CompletionsTranslator.toFinishReason(delta.finish_reason))]);
+        }
+      },
+
+      end(usage) {
+        if (includeUsage && usage) {
+          send([], usage);
+        }
+        res.write('data: [DONE]\n\n');
+        res.end();
+      },
+
+      fail(message) {
+        res.write(openAIErrorEvent(message));
+        res.end();
+      },
+    };
+  },
+};
+
+/**
+ * Express middleware that translates a completions request body into the chat completion
+ * request the Router and executor expect. Invalid requests are rejected with a 400.
+ */
+export function translateCompletionsRequest(req: Request, res: Response, next: NextFunction) {
+  const body: CompletionsRequest = req.body;
+  try {
+    req.body = CompletionsTranslator.toChatCompletionRequest(body);
+  } catch (error) {
+    return completionsResponseFormat.sendError(res, 400, `Invalid request: ${getErrorMessage(error)}`);
+  }
+  const options: CompletionsOptions = {
+    echo: body.echo ? CompletionsTranslator.toPromptText(body.prompt) : undefined,
+    includeUsage: body.stream_options?.include_usage === true,
+  };
+  res.locals.completionsOptions = options;
+  return next();
+}
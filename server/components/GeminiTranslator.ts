@@ -0,0 +1,447 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import type {
+  ChatCompletion,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+  CompletionUsage,
+} from "openai/resources";
+import { ResponseFormat } from "./ResponseFormat.js";
+import { getErrorMessage } from "./Utils.js";
+
+// --- Gemini generateContent wire format (the subset the gateway supports) ---
+
+// A part has exactly one of its data fields set
+interface Part {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  fileData?: { mimeType?: string; fileUri: string };
+  functionCall?: { id?: string; name: string; args?: Record<string, unknown> };
+  functionResponse?: { id?: string; name: string; response: Record<string, unknown> };
+}
+
+interface Content {
+  role?: "user" | "model";
+  parts: Part[];
+}
+
+interface FunctionDeclaration {
+  name: string;
+  description?: string;
+  // An OpenAPI schema, with upper case type names
+  parameters?: Record<string, unknown>;
+  parametersJsonSchema?: Record<string, unknown>;
+}
+
+/**
+ * A request body for `POST /v1beta/models/{model}:generateContent` and `:streamGenerateContent`.
+ * The model and whether to stream are part of the path.
+ */
+export interface GeminiGenerateContentRequest {
+  contents: Content[];
+  systemInstruction?: string | Content;
+  generationConfig?: {
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    stopSequences?: string[];
+    candidateCount?: number;
+    presencePenalty?: number;
+    frequencyPenalty?: number;
+    seed?: number;
+    responseMimeType?: string;
+    responseSchema?: Record<string, unknown>;
+    responseJsonSchema?: Record<string, unknown>;
+  };
+  tools?: ({ functionDeclarations?: FunctionDeclaration[] } & Record<string, unknown>)[];
+  toolConfig?: {
+    functionCallingConfig?: { mode?: "AUTO" | "ANY" | "NONE" | "VALIDATED"; allowedFunctionNames?: string[] };
+  };
+  cachedContent?: string;
+}
+
+/**
+ * A response body from `generateContent`, and each chunk of `streamGenerateContent`.
+ */
+export interface GeminiGenerateContentResponse {
+  candidates: { content: Content; finishReason?: "STOP" | "MAX_TOKENS" | "SAFETY"; index: number }[];
+  usageMetadata?: { promptTokenCount: number; candidatesTokenCount: number; totalTokenCount: number };
+  modelVersion: string;
+  responseId: string;
+}
+
+// Google API error statuses by HTTP status
+const ERROR_STATUSES: Record<number, string> = {
+  400: "INVALID_ARGUMENT",
+  401: "UNAUTHENTICATED",
+  403: "PERMISSION_DENIED",
+  404: "NOT_FOUND",
+  429: "RESOURCE_EXHAUSTED",
+  503: "UNAVAILABLE",
+};
+
+/**
+ * Translates between the Gemini generateContent wire format and the OpenAI Chat Completions
+ * format the Router and executor work with, so Google GenAI SDK clients can use any provider.
+ * This is a stateless utility class; no instance is required.
+ */
+export class GeminiTranslator {
+  /**
+   * Converts a generateContent request into the equivalent OpenAI chat completion request.
+   * Gemini matches function responses to calls by name when they have no ID, so calls without
+   * one are given IDs and their responses take the oldest unanswered ID for the same name.
+   * @throws If the request is malformed or uses features the gateway cannot forward.
+   */
+  public static toChatCompletionRequest(
+    body: GeminiGenerateContentRequest,
+    model: string,
+    stream: boolean,
+  ): ChatCompletionCreateParams {
+    if (!Array.isArray(body?.contents)) {
+      throw new Error("contents must be an array");
+    }
+    if (body.cachedContent) {
+      throw new Error("cachedContent is not supported. Send the whole conversation in contents.");
+    }
+
+    const messages: ChatCompletionMessageParam[] = [];
+    const system = typeof body.systemInstruction === "string"
+      ? body.systemInstruction
+      : this.joinText(body.systemInstruction?.parts ?? []);
+    if (system) {
+      messages.push({ role: "system", content: system });
+    }
+    const unansweredCalls = new Map<string, string[]>();
+    for (const content of body.contents) {
+      messages.push(...this.toChatMessages(content, unansweredCalls));
+    }
+
+    const config = body.generationConfig ?? {};
+    const tools = (body.tools ?? []).flatMap((tool) => this.toChatTools(tool));
+    const toolChoice = body.toolConfig?.functionCallingConfig;
+    const schema = config.responseJsonSchema ?? (config.responseSchema && this.toJsonSchema(config.responseSchema));
+    return {
+      model,
+      messages,
+      ...(config.maxOutputTokens !== undefined && { max_tokens: config.maxOutputTokens }),
+      ...(config.temperature !== undefined && { temperature: config.temperature }),
+      ...(config.topP !== undefined && { top_p: config.topP }),
+      ...(config.stopSequences && { stop: config.stopSequences }),
+      ...(config.candidateCount !== undefined && { n: config.candidateCount }),
+      ...(config.presencePenalty !== undefined && { presence_penalty: config.presencePenalty }),
+      ...(config.frequencyPenalty !== undefined && { frequency_penalty: config.frequencyPenalty }),
+      ...(config.seed !== undefined && { seed: config.seed }),
+      ...(schema
+        ? { response_format: { type: "json_schema", json_schema: { name: "response", schema } } }
+        : config.responseMimeType === "application/json" && { response_format: { type: "json_object" } }),
+      ...(tools.length > 0 && { tools }),
+      ...(toolChoice?.mode && { tool_choice: this.toChatToolChoice(toolChoice) }),
+      stream,
+    };
+  }
+
+  private static toChatMessages(content: Content, unansweredCalls: Map<string, string[]>): ChatCompletionMessageParam[] {
+    const parts = (content.parts ?? []).filter((part) => !part.thought);
+
+    if (content.role === "model") {
+      const toolCalls: ChatCompletionMessageToolCall[] = parts
+        .filter((part) => part.functionCall)
+        .map(({ functionCall }) => {
+          const id = functionCall!.id ?? this.newCallId();
+          unansweredCalls.set(functionCall!.name, [...(unansweredCalls.get(functionCall!.name) ?? []), id]);
+          return {
+            id,
+            type: "function",
+            function: { name: functionCall!.name, arguments: JSON.stringify(functionCall!.args ?? {}) },
+          };
+        });
+      const text = this.joinText(parts);
+      return [{
+        role: "assistant",
+        content: toolCalls.length > 0 && !text ? null : text,
+        ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+      }];
+    }
+
+    // Function responses answer the previous model turn; each becomes its own tool message
+    const messages: ChatCompletionMessageParam[] = [];
+    const contentParts: ChatCompletionContentPart[] = [];
+    for (const part of parts) {
+      if (part.functionResponse) {
+        const { id, name, response } = part.functionResponse;
+        messages.push({
+          role: "tool",
+          tool_call_id: id ?? unansweredCalls.get(name)?.shift() ?? this.newCallId(),
+          content: JSON.stringify(response ?? {}),
+        });
+      } else {
+        contentParts.push(this.toContentPart(part));
+      }
+    }
+    if (contentParts.length > 0) {
+      messages.push({ role: "user", content: contentParts });
+    }
+    return messages;
+  }
+
+  private static toContentPart(part: Part): ChatCompletionContentPart {
+    if (part.text !== undefined) {
+      return { type: "text", text: part.text };
+    }
+    if (part.inlineData) {
+      const url = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+      return part.inlineData.mimeType.startsWith("image/")
+        ? { type: "image_url", image_url: { url } }
+        : { type: "file", file: { file_data: url } };
+    }
+    if (part.fileData) {
+      if (!part.fileData.mimeType?.startsWith("image/")) {
+        throw new Error("fileData parts are only supported for images. Send other files as inlineData.");
+      }
+      return { type: "image_url", image_url: { url: part.fileData.fileUri } };
+    }
+    throw new Error(`Unsupported part: ${Object.keys(part).join(", ")}`);
+  }
+
+  private static toChatTools(tool: NonNullable<GeminiGenerateContentRequest["tools"]>[number]): ChatCompletionTool[] {
+    const { functionDeclarations, ...others } = tool;
+    const unsupported = Object.keys(others);
+    if (unsupported.length > 0) {
+      throw new Error(`Only functionDeclarations tools are supported, not ${unsupported.join(", ")}`);
+    }
+    return (functionDeclarations ?? []).map((declaration) => ({
+      type: "function",
+      function: {
+        name: declaration.name,
+        ...(declaration.description && { description: declaration.description }),
+        parameters: declaration.parametersJsonSchema
+          ?? (declaration.parameters && this.toJsonSchema(declaration.parameters))
+          ?? { type: "object", properties: {} },
+      },
+    }));
+  }
+
+  private static toChatToolChoice(
+    config: NonNullable<NonNullable<GeminiGenerateContentRequest["toolConfig"]>["functionCallingConfig"]>,
+  ): ChatCompletionToolChoiceOption {
+    switch (config.mode) {
+      case "ANY":
+        return config.allowedFunctionNames?.length === 1
+          ? { type: "function", function: { name: config.allowedFunctionNames[0] } }
+          : "required";
+      case "NONE":
+        return "none";
+      default:
+        return "auto";
+    }
+  }
+
+  /**
+   * Converts a Gemini OpenAPI schema, whose type names are upper case (`OBJECT`), into JSON Schema.
+   */
+  private static toJsonSchema(schema: unknown): Record<string, unknown> {
+    const convert = (value: unknown, key?: string): unknown => {
+      if (Array.isArray(value)) {
+        return value.map((item) => convert(item));
+      }
+      if (value && typeof value === "object") {
+        // Property names are user-defined, so only their schemas are converted
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, convert(v, key === "properties" ? undefined : k)]));
+      }
+      return key === "type" && typeof value === "string" ? value.toLowerCase() : value;
+    };
+    return convert(schema) as Record<string, unknown>;
+  }
+
+  /**
+   * Converts an OpenAI chat completion into a generateContent response, one candidate per choice.
+   */
+  public static toGenerateContentResponse(completion: ChatCompletion): GeminiGenerateContentResponse {
+    return {
+      candidates: completion.choices.map((choice) => ({
+        content: {
+          role: "model",
+          parts: [
+            ...(choice.message.content ? [{ text: choice.message.content }] : []),
+            ...this.toFunctionCallParts(choice.message.tool_calls ?? []),
+          ],
+        },
+        finishReason: this.toFinishReason(choice.finish_reason),
+        index: choice.index,
+      })),
+      ...(completion.usage && { usageMetadata: this.toUsageMetadata(completion.usage) }),
+      modelVersion: completion.model,
+      responseId: completion.id,
+    };
+  }
+
+  public static toFunctionCallParts(toolCalls: ChatCompletionMessageToolCall[]): Part[] {
+    return toolCalls
+      .filter((toolCall) => toolCall.type === "function")
+      .map((toolCall) => ({
+        functionCall: { id: toolCall.id, name: toolCall.function.name, args: this.parseArgs(toolCall.function.arguments) },
+      }));
+  }
+
+  /**
+   * Maps an OpenAI `finish_reason` onto the Gemini `finishReason` vocabulary.
+   */
+  public static toFinishReason(finishReason?: string | null): GeminiGenerateContentResponse["candidates"][number]["finishReason"] {
+    switch (finishReason) {
+      case "length":
+        return "MAX_TOKENS";
+      case "content_filter":
+        return "SAFETY";
+      case undefined:
+      case null:
+        return undefined;
+      default:
+        return "STOP";
+    }
+  }
+
+  public static toUsageMetadata(usage: CompletionUsage): NonNullable<GeminiGenerateContentResponse["usageMetadata"]> {
+    return {
+      promptTokenCount: usage.prompt_tokens,
+      candidatesTokenCount: usage.completion_tokens,
+      totalTokenCount: usage.total_tokens,
+    };
+  }
+
+  /**
+   * Builds a Google API error body, with the status name for the HTTP status.
+   */
+  public static toErrorBody(status: number, message: string): { error: { code: number; message: string; status: string } } {
+    return { error: { code: status, message, status: ERROR_STATUSES[status] ?? "INTERNAL" } };
+  }
+
+  private static newCallId(): string {
+    return `call_${randomUUID().replace(/-/g, "")}`;
+  }
+
+  private static parseArgs(args: string): Record<string, unknown> {
+    try {
+      return JSON.parse(args || "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  private static joinText(parts: Part[]): string {
+    return parts
+      .filter((part) => part.text !== undefined && !part.thought)
+      .map((part) => part.text)
+      .join("");
+  }
+}
+
+/**
+ * Answers in the Gemini generateContent format. Streams are a sequence of partial
+ * generateContent responses, sent as server-sent events for `alt=sse` (as the GenAI SDKs
+ * request) and as a JSON array otherwise. Text is streamed as it arrives; function calls are
+ * sent whole in the last response, with the finish reason and usage.
+ */
+export const geminiResponseFormat: ResponseFormat = {
+  sendCompletion(res, completion) {
+    res.json(GeminiTranslator.toGenerateContentResponse(completion));
+  },
+
+  sendError(res, status, message) {
+    res.status(status).json(GeminiTranslator.toErrorBody(status, message));
+  },
+
+  startStream(res) {
+    const sse = res.locals.geminiStreamAlt === "sse";
+    res.writeHead(200, {
+      'Content-Type': sse ? 'text/event-stream' : 'application/json',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    let sent = 0;
+    const send = (body: object) => {
+      res.write(sse ? `data: ${JSON.stringify(body)}\n\n` : `${sent === 0 ? "[" : ","}${JSON.stringify(body)}`);
+      sent++;
+    };
+    const close = () => {
+      if (!sse) {
+        res.write(sent === 0 ? "[]" : "]");
+      }
+      res.end();
+    };
+
+    let responseId = "";
+    let modelVersion = "";
+    let finishReason: string | null = null;
+    // Function calls by OpenAI tool call index, completed as their argument deltas arrive
+    const toolCalls = new Map<number, ChatCompletionMessageToolCall>();
+    const response = (parts: Part[], extra: object = {}) => ({
+      candidates: [{ content: { role: "model", parts }, index: 0, ...extra }],
+      modelVersion,
+      responseId,
+    });
+
+    return {
+      writeChunk(chunk) {
+        responseId ||= chunk.id;
+        modelVersion ||= chunk.model;
+
+        const choice = chunk.choices[0];
+        if (!choice) {
+          return;
+        }
+        if (choice.delta.content) {
+          send(response([{ text: choice.delta.content }]));
+        }
+        for (const toolCall of choice.delta.tool_calls ?? []) {
+          const call = toolCalls.get(toolCall.index)
+            ?? { id: toolCall.id ?? "", type: "function" as const, function: { name: toolCall.function?.name ?? "", arguments: "" } };
+          call.function.arguments += toolCall.function?.arguments ?? "";
+          toolCalls.set(toolCall.index, call);
+        }
+        if (choice.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+      },
+
+      end(usage) {
+        const parts = GeminiTranslator.toFunctionCallParts([...toolCalls.values()]);
+        send({
+          ...response(parts.length > 0 ? parts : [{ text: "" }], { finishReason: GeminiTranslator.toFinishReason(finishReason ?? "stop") }),
+          ...(usage && { usageMetadata: GeminiTranslator.toUsageMetadata(usage) }),
+        });
+        close();
+      },
+
+      fail(message) {
+        send(GeminiTranslator.toErrorBody(500, message));
+        close();
+      },
+    };
+  },
+};
+
+/**
+ * Express middleware that translates a generateContent or streamGenerateContent request into
+ * the OpenAI chat completion request the Router and executor expect. The route's `modelAction`
+ * parameter is the `{model}:{action}` path segment. Unsupported methods and invalid requests are
+ * rejected with a 400.
+ */
+export function translateGeminiRequest(req: Request, res: Response, next: NextFunction) {
+  const match = /^(.+):(generateContent|streamGenerateContent)$/.exec(req.params.modelAction ?? "");
+  if (!match) {
+    return geminiResponseFormat.sendError(res, 400, `Unsupported method: ${req.params.modelAction}`);
+  }
+  const [, model, action] = match;
+  try {
+    req.body = GeminiTranslator.toChatCompletionRequest(req.body, model, action === "streamGenerateContent");
+  } catch (error) {
+    return geminiResponseFormat.sendError(res, 400, `Invalid request: ${getErrorMessage(error)}`);
+  }
+  res.locals.geminiStreamAlt = req.query.alt === "sse" ? "sse" : "json";
+  return next();
+}
@@ -30,6 +30,8 @@ export const requestResponseLogger = (
 ) => {
   const requestId = randomUUID();
   const logger = PinoLogger.getLogger();
+  // Shared with the usage ledger so records can be matched to these log lines
+  res.locals.requestId = requestId;
 
   // Log incoming request based on log level
   const { method, url, headers, body } = req;
@@ -0,0 +1,352 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import type {
+  ChatCompletion,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+  CompletionUsage,
+} from "openai/resources";
+import { CompletionsTranslator } from "./CompletionsTranslator.js";
+import { ResponseFormat } from "./ResponseFormat.js";
+import { getErrorMessage } from "./Utils.js";
+
+// --- Ollama API wire format (the subset the gateway supports) ---
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> };
+}
+
+interface OllamaMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  // Base64 encoded images, without a data URL prefix
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaOptions {
+  temperature?: number;
+  top_p?: number;
+  num_predict?: number;
+  stop?: string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+}
+
+// Fields shared by chat and generate requests. Ollama streams unless `stream` is false.
+interface OllamaRequestBase {
+  model: string;
+  format?: "json" | Record<string, unknown>;
+  options?: OllamaOptions;
+  stream?: boolean;
+}
+
+/**
+ * A request body for `POST /api/chat`.
+ */
+export interface OllamaChatRequest extends OllamaRequestBase {
+  messages: OllamaMessage[];
+  tools?: ChatCompletionTool[];
+}
+
+/**
+ * A request body for `POST /api/generate`.
+ */
+export interface OllamaGenerateRequest extends OllamaRequestBase {
+  prompt: string;
+  suffix?: string;
+  system?: string;
+  images?: string[];
+}
+
+/**
+ * An entry of the model list returned by `GET /api/tags`.
+ */
+export interface OllamaModel {
+  name: string;
+  model: string;
+  modified_at: string;
+  size: number;
+  digest: string;
+  details: { format: string; family: string; families: null; parameter_size: string; quantization_level: string };
+}
+
+type DoneReason = "stop" | "length";
+
+/**
+ * Translates between the Ollama API wire format and the OpenAI Chat Completions format the
+ * Router and executor work with, so apps that only speak Ollama can use any provider.
+ * This is a stateless utility class; no instance is required.
+ */
+export class OllamaTranslator {
+  /**
+   * Converts an `/api/chat` request into the equivalent OpenAI chat completion request.
+   * Ollama tool calls have no IDs, so they are given IDs here and each tool message answers
+   * the oldest unanswered call with its `tool_name`, or the oldest unanswered call without one.
+   * @throws If the request is malformed.
+   */
+  public static chatToChatCompletionRequest(body: OllamaChatRequest): ChatCompletionCreateParams {
+    if (typeof body?.model !== "string") {
+      throw new Error("model is required");
+    }
+    if (!Array.isArray(body.messages)) {
+      throw new Error("messages must be an array");
+    }
+
+    const unansweredCalls: { id: string; name: string }[] = [];
+    const messages = body.messages.map((message): ChatCompletionMessageParam => {
+      switch (message.role) {
+        case "system":
+          return { role: "system", content: message.content };
+        case "assistant": {
+          const toolCalls = (message.tool_calls ?? []).map((toolCall) => {
+            const id = `call_${randomUUID().replace(/-/g, "")}`;
+            unansweredCalls.push({ id, name: toolCall.function.name });
+            return {
+              id,
+              type: "function" as const,
+              function: { name: toolCall.function.name, arguments: JSON.stringify(toolCall.function.arguments ?? {}) },
+            };
+          });
+          return {
+            role: "assistant",
+            content: toolCalls.length > 0 && !message.content ? null : message.content,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+          };
+        }
+        case "tool": {
+          const index = Math.max(0, unansweredCalls.findIndex((call) => !message.tool_name || call.name === message.tool_name));
+          const [call] = unansweredCalls.splice(index, 1);
+          return { role: "tool", tool_call_id: call?.id ?? `call_${randomUUID().replace(/-/g, "")}`, content: message.content };
+        }
+        default:
+          return { role: "user", content: this.toUserContent(message.content, message.images) };
+      }
+    });
+
+    return {
+      ...this.toRequestSettings(body),
+      messages,
+      ...(body.tools && body.tools.length > 0 && { tools: body.tools }),
+    };
+  }
+
+  /**
+   * Converts an `/api/generate` request into the equivalent OpenAI chat completion request.
+   * A `suffix` turns it into a fill-in-the-middle request, as for the legacy completions API.
+   * @throws If the request is malformed.
+   */
+  public static generateToChatCompletionRequest(body: OllamaGenerateRequest): ChatCompletionCreateParams {
+    if (typeof body?.model !== "string") {
+      throw new Error("model is required");
+    }
+    if (typeof body.prompt !== "string") {
+      throw new Error("prompt must be a string");
+    }
+
+    const messages: ChatCompletionMessageParam[] = body.suffix
+      ? CompletionsTranslator.toChatCompletionRequest({ model: body.model, prompt: body.prompt, suffix: body.suffix }).messages
+      : [{ role: "user", content: this.toUserContent(body.prompt, body.images) }];
+    if (body.system) {
+      messages.unshift({ role: "system", content: body.system });
+    }
+
+    return { ...this.toRequestSettings(body), messages };
+  }
+
+  private static toRequestSettings(body: OllamaRequestBase): Omit<ChatCompletionCreateParams, "messages"> {
+    const options = body.options ?? {};
+    return {
+      model: body.model,
+      // A negative num_predict means no limit
+      ...(options.num_predict !== undefined && options.num_predict >= 0 && { max_tokens: options.num_predict }),
+      ...(options.temperature !== undefined && { temperature: options.temperature }),
+      ...(options.top_p !== undefined && { top_p: options.top_p }),
+      ...(options.stop && { stop: options.stop }),
+      ...(options.seed !== undefined && { seed: options.seed }),
+      ...(options.presence_penalty !== undefined && { presence_penalty: options.presence_penalty }),
+      ...(options.frequency_penalty !== undefined && { frequency_penalty: options.frequency_penalty }),
+      ...(body.format === "json"
+        ? { response_format: { type: "json_object" } }
+        : body.format && { response_format: { type: "json_schema", json_schema: { name: "response", schema: body.format } } }),
+      stream: body.stream !== false,
+    };
+  }
+
+  private static toUserContent(text: string, images?: string[]): string | ChatCompletionContentPart[] {
+    if (!images || images.length === 0) {
+      return text;
+    }
+    // Ollama does not say what type its images are; providers accept any image type here
+    return [
+      { type: "text", text },
+      ...images.map((image): ChatCompletionContentPart => ({ type: "image_url", image_url: { url: `data:image/png;base64,${image}` } })),
+    ];
+  }
+
+  /**
+   * Converts OpenAI tool calls into Ollama tool calls, whose arguments are objects.
+   */
+  public static toOllamaToolCalls(toolCalls: ChatCompletionMessageToolCall[]): OllamaToolCall[] {
+    return toolCalls
+      .filter((toolCall) => toolCall.type === "function")
+      .map((toolCall) => {
+        let args: Record<string, unknown>;
+        try {
+          args = JSON.parse(toolCall.function.arguments || "{}");
+        } catch {
+          args = {};
+        }
+        return { function: { name: toolCall.function.name, arguments: args } };
+      });
+  }
+
+  /**
+   * The fields that end every Ollama response: why it stopped and the token counts.
+   */
+  public static toDoneFields(finishReason?: string | null, usage?: CompletionUsage) {
+    return {
+      done: true,
+      done_reason: (finishReason === "length" ? "length" : "stop") as DoneReason,
+      ...(usage && { prompt_eval_count: usage.prompt_tokens, eval_count: usage.completion_tokens }),
+    };
+  }
+
+  /**
+   * Lists the given model names as Ollama models. Models are served remotely, so they have
+   * no size, digest or local details.
+   */
+  public static toModelList(modelNames: string[]): { models: OllamaModel[] } {
+    return {
+      models: modelNames.map((name) => ({
+        name,
+        model: name,
+        modified_at: new Date(0).toISOString(),
+        size: 0,
+        digest: "",
+        details: { format: "", family: "", families: null, parameter_size: "", quantization_level: "" },
+      })),
+    };
+  }
+}
+
+/**
+ * Creates an Ollama response format. Chat and generate responses differ only in how the
+ * output is carried: as a `message`, or as `response` text.
+ */
+function createOllamaResponseFormat(
+  toOutput: (text: string, toolCalls?: OllamaToolCall[]) => object,
+): ResponseFormat {
+  return {
+    sendCompletion(res, completion: ChatCompletion) {
+      const choice = completion.choices[0];
+      const toolCalls = OllamaTranslator.toOllamaToolCalls(choice?.message.tool_calls ?? []);
+      res.json({
+        model: completion.model,
+        created_at: new Date(completion.created * 1000).toISOString(),
+        ...toOutput(choice?.message.content ?? "", toolCalls.length > 0 ? toolCalls : undefined),
+        ...OllamaTranslator.toDoneFields(choice?.finish_reason, completion.usage),
+      });
+    },
+
+    // Ollama reports errors as a bare message, like the stream failures below
+    sendError(res, status, message) {
+      res.status(status).json({ error: message });
+    },
+
+    startStream(res) {
+      res.writeHead(200, {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      });
+      let model = "";
+      let finishReason: string | null = null;
+      // Ollama sends each tool call whole, so argument deltas are collected until the end
+      const toolCalls = new Map<number, ChatCompletionMessageToolCall>();
+      const send = (body: object) => {
+        res.write(`${JSON.stringify({ model, created_at: new Date().toISOString(), ...body })}\n`);
+      };
+
+      return {
+        writeChunk(chunk) {
+          model ||= chunk.model;
+          const choice = chunk.choices[0];
+          if (!choice) {
+            return;
+          }
+          if (choice.delta.content) {
+            send({ ...toOutput(choice.delta.content), done: false });
+          }
+          for (const toolCall of choice.delta.tool_calls ?? []) {
+            const call = toolCalls.get(toolCall.index)
+              ?? { id: toolCall.id ?? "", type: "function" as const, function: { name: toolCall.function?.name ?? "", arguments: "" } };
+            call.function.arguments += toolCall.function?.arguments ?? "";
+            toolCalls.set(toolCall.index, call);
+          }
+          if (choice.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+        },
+
+        end(usage) {
+          if (toolCalls.size > 0) {
+            send({ ...toOutput("", OllamaTranslator.toOllamaToolCalls([...toolCalls.values()])), done: false });
+          }
+          send({ ...toOutput(""), ...OllamaTranslator.toDoneFields(finishReason, usage) });
+          res.end();
+        },
+
+        fail(message) {
+          res.write(`${JSON.stringify({ error: message })}\n`);
+          res.end();
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Answers `/api/chat` requests in the Ollama format. Streams are newline-delimited JSON objects,
+ * each with a `message` delta, ending with one that has `done: true` and the token counts.
+ */
+export const ollamaChatResponseFormat = createOllamaResponseFormat((content, toolCalls) => ({
+  message: { role: "assistant", content, ...(toolCalls && { tool_calls: toolCalls }) },
+}));
+
+/**
+ * Answers `/api/generate` requests in the Ollama format, like `/api/chat` but with `response` text.
+ * Tool calls cannot be requested through `/api/generate`.
+ */
+export const ollamaGenerateResponseFormat = createOllamaResponseFormat((response) => ({ response }));
+
+/**
+ * Express middleware that translates an `/api/chat` request into the OpenAI chat completion
+ * request the Router and executor expect. Invalid requests are rejected with a 400.
+ */
+export function translateOllamaChatRequest(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = OllamaTranslator.chatToChatCompletionRequest(req.body);
+  } catch (error) {
+    return ollamaChatResponseFormat.sendError(res, 400, `Invalid request: ${getErrorMessage(error)}`);
+  }
+  return next();
+}
+
+/**
+ * Express middleware that translates an `/api/generate` request into the OpenAI chat completion
+ * request the Router and executor expect. Invalid requests are rejected with a 400.
+ */
+export function translateOllamaGenerateRequest(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = OllamaTranslator.generateToChatCompletionRequest(req.body);
+  } catch (error) {
+    return ollamaGenerateResponseFormat.sendError(res, 400, `Invalid request: ${getErrorMessage(error)}`);
+  }
+  return next();
+}
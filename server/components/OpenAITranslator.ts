@@ -0,0 +1,327 @@
+import { CoreMessage, FinishReason, Output, ToolChoice, ToolSet, UserContent, jsonSchema } from "ai";
+import Ajv from "ajv";
+import type {
+  ChatCompletion,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+} from "openai/resources";
+
+/**
+ * A tool call as produced by the AI SDK (generateText result or stream part).
+ */
+interface SdkToolCall {
+  toolCallId: string;
+  toolName: string;
+  args: unknown;
+}
+
+type JSONSchema = Parameters<typeof jsonSchema>[0];
+
+// Each request's schema is compiled by its own Ajv instance: a shared one keeps every schema it
+// compiles and refuses a second schema with the same `$id`
+const AJV_OPTIONS = { allErrors: true, strict: false };
+
+// OpenAI `input_audio` formats and their MIME types
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mpeg",
+};
+
+// String `tool_choice` values, which the AI SDK accepts as they are
+const TOOL_CHOICE_MODES: string[] = ["auto", "none", "required"];
+
+/**
+ * Translates between the OpenAI Chat Completions wire format and AI SDK structures.
+ * This is a stateless utility class; no instance is required.
+ */
+export class OpenAITranslator {
+  /**
+   * Converts OpenAI chat messages into AI SDK core messages.
+   * Assistant `tool_calls` become tool-call parts and `role: "tool"` messages become
+   * tool-result parts, so multi-turn function calling round-trips through any provider.
+   * User content parts (images, audio, files) become AI SDK image and file parts.
+   * @param messages The `messages` array from an OpenAI request body.
+   * @returns The equivalent AI SDK messages.
+   * @throws If a message or content part has no AI SDK equivalent.
+   */
+  public static toCoreMessages(messages: ChatCompletionMessageParam[]): CoreMessage[] {
+    // Tool results in the OpenAI format only reference the call id, but the AI SDK
+    // also needs the tool name, so remember it from the preceding assistant turn.
+    const toolNamesById = new Map<string, string>();
+
+    return messages.map((message): CoreMessage => {
+      switch (message.role) {
+        case "assistant": {
+          if (!message.tool_calls || message.tool_calls.length === 0) {
+            return { role: "assistant", content: this.textContent(message.content) };
+          }
+          const text = this.textContent(message.content);
+          return {
+            role: "assistant",
+            content: [
+              ...(text ? [{ type: "text" as const, text }] : []),
+              ...message.tool_calls.map((toolCall) => {
+                toolNamesById.set(toolCall.id, toolCall.function.name);
+                return {
+                  type: "tool-call" as const,
+                  toolCallId: toolCall.id,
+                  toolName: toolCall.function.name,
+                  args: this.parseArguments(toolCall.function.arguments),
+                };
+              }),
+            ],
+          };
+        }
+        case "tool":
+          return {
+            role: "tool",
+            content: [{
+              type: "tool-result",
+              toolCallId: message.tool_call_id,
+              toolName: toolNamesById.get(message.tool_call_id) ?? "unknown",
+              result: this.textContent(message.content),
+            }],
+          };
+        case "system":
+        case "developer":
+          return { role: "system", content: this.textContent(message.content) };
+        case "user":
+          if (Array.isArray(message.content)) {
+            return { role: "user", content: this.toUserContent(message.content) };
+          }
+          return message as CoreMessage;
+        default:
+          throw new Error(`Unsupported message role '${message.role}'; use tools and 'tool' messages instead.`);
+      }
+    });
+  }
+
+  /**
+   * Checks whether any message in an OpenAI request carries image content.
+   * Runs before the request is validated, so malformed messages count as having no images.
+   * @param messages The `messages` array from an OpenAI request body.
+   * @returns True if at least one `image_url` part is present.
+   */
+  public static hasImageContent(messages?: ChatCompletionMessageParam[]): boolean {
+    return Array.isArray(messages) && messages.some((message) =>
+      Array.isArray(message?.content) &&
+      (message.content as { type: string }[]).some((part) => part?.type === "image_url")
+    );
+  }
+
+  /**
+   * Converts OpenAI user content parts into AI SDK text, image and file parts.
+   * Images may be remote URLs or `data:` URLs; audio and files are inline base64 data.
+   * @throws If a part cannot be represented, such as a `file_id` reference.
+   */
+  private static toUserContent(parts: ChatCompletionContentPart[]): UserContent {
+    return parts.map((part) => {
+      switch (part.type) {
+        case "text":
+          return { type: "text" as const, text: part.text };
+        case "image_url": {
+          const dataUrl = this.parseDataUrl(part.image_url.url);
+          return {
+            type: "image" as const,
+            image: dataUrl ? dataUrl.data : new URL(part.image_url.url),
+            ...(dataUrl?.mimeType && { mimeType: dataUrl.mimeType }),
+            ...(part.image_url.detail && { providerOptions: { openai: { imageDetail: part.image_url.detail } } }),
+          };
+        }
+        case "input_audio": {
+          const mimeType = AUDIO_MIME_TYPES[part.input_audio.format];
+          if (!mimeType) {
+            throw new Error(`Unsupported input_audio format: ${part.input_audio.format}`);
+          }
+          return { type: "file" as const, data: part.input_audio.data, mimeType };
+        }
+        case "file": {
+          const dataUrl = part.file.file_data ? this.parseDataUrl(part.file.file_data) : undefined;
+          if (!dataUrl?.mimeType) {
+            throw new Error("File parts must include file_data as a base64 data: URL; file_id references are not supported.");
+          }
+          return {
+            type: "file" as const,
+            data: dataUrl.data,
+            mimeType: dataUrl.mimeType,
+            ...(part.file.filename && { filename: part.file.filename }),
+          };
+        }
+        default:
+          throw new Error(`Unsupported content part type: ${(part as { type: string }).type}`);
+      }
+    });
+  }
+
+  /**
+   * Splits a base64 `data:` URL into its MIME type and payload.
+   * @returns The parsed URL, or undefined if the string is not a base64 data URL.
+   */
+  private static parseDataUrl(url: string): { mimeType?: string; data: string } | undefined {
+    const match = /^data:([^;,]+)?;base64,(.*)$/s.exec(url);
+    if (!match) {
+      return undefined;
+    }
+    return { mimeType: match[1], data: match[2] };
+  }
+
+  /**
+   * Converts OpenAI function tool definitions into an AI SDK tool set.
+   * The tools have no `execute` function: calls are returned to the client, never run here.
+   * @param tools The `tools` array from an OpenAI request body.
+   * @returns The AI SDK tool set, or undefined if no tools were given.
+   * @throws If a tool is not a function tool with a name.
+   */
+  public static toToolSet(tools?: ChatCompletionTool[]): ToolSet | undefined {
+    if (!tools || (Array.isArray(tools) && tools.length === 0)) {
+      return undefined;
+    }
+    if (!Array.isArray(tools)) {
+      throw new Error("tools must be an array.");
+    }
+
+    const toolSet: ToolSet = {};
+    for (const tool of tools) {
+      if (tool?.type !== "function" || typeof tool.function?.name !== "string") {
+        throw new Error("Only function tools with a function name are supported.");
+      }
+      const fn = tool.function;
+      toolSet[fn.name] = {
+        description: fn.description,
+        parameters: jsonSchema(fn.parameters ?? { type: "object", properties: {} }),
+      };
+    }
+    return toolSet;
+  }
+
+  /**
+   * Converts an OpenAI `tool_choice` into the AI SDK equivalent.
+   * @param toolChoice The `tool_choice` value from an OpenAI request body.
+   * @param tools The request's tool set, which a specific tool choice must name a tool of.
+   * @returns The AI SDK tool choice, or undefined if none was given.
+   * @throws If the tool choice is an unknown mode, or a specific tool choice does not name one of the tools.
+   */
+  public static toToolChoice(toolChoice?: ChatCompletionToolChoiceOption, tools?: ToolSet): ToolChoice<ToolSet> | undefined {
+    if (!toolChoice) {
+      return undefined;
+    }
+    if (typeof toolChoice === "string") {
+      if (!TOOL_CHOICE_MODES.includes(toolChoice)) {
+        throw new Error(`Unsupported tool_choice: ${toolChoice}. Use one of ${TOOL_CHOICE_MODES.join(", ")} or a function.`);
+      }
+      return toolChoice;
+    }
+    if (typeof toolChoice.function?.name !== "string") {
+      throw new Error("A specific tool_choice must name a function.");
+    }
+    if (!tools || !Object.hasOwn(tools, toolChoice.function.name)) {
+      throw new Error(`tool_choice names a function that is not in tools: ${toolChoice.function.name}`);
+    }
+    return { type: "tool", toolName: toolChoice.function.name };
+  }
+
+  /**
+   * Converts an OpenAI `response_format` into an AI SDK structured output specification.
+   * Providers with native structured output receive the schema directly; for the rest the
+   * AI SDK requests JSON mode and adds the schema to the system prompt. Either way the
+   * response is parsed and, for `json_schema`, validated against the schema.
+   * @param responseFormat The `response_format` value from an OpenAI request body.
+   * @returns The AI SDK output, or undefined for plain text responses.
+   * @throws If the supplied JSON schema cannot be compiled.
+   */
+  public static toOutput(
+    responseFormat?: ChatCompletionCreateParams['response_format'],
+  ): Output.Output<unknown, unknown> | undefined {
+    switch (responseFormat?.type) {
+      case "json_object":
+        // Without a schema the AI SDK only asks for JSON and checks that it parses
+        return Output.object({ schema: jsonSchema<unknown>(undefined as unknown as JSONSchema) });
+      case "json_schema": {
+        const schema = (responseFormat.json_schema.schema ?? {}) as JSONSchema;
+        const ajv = new Ajv(AJV_OPTIONS);
+        const validate = ajv.compile(schema);
+        return Output.object({
+          schema: jsonSchema<unknown>(schema, {
+            validate: (value) => validate(value)
+              ? { success: true, value }
+              : { success: false, error: new Error(ajv.errorsText(validate.errors)) },
+          }),
+        });
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Converts AI SDK tool calls into OpenAI `tool_calls` entries.
+   * @param toolCalls The tool calls from a generateText result.
+   * @returns The OpenAI tool calls, or undefined if there were none.
+   */
+  public static toOpenAIToolCalls(toolCalls?: SdkToolCall[]): ChatCompletionMessageToolCall[] | undefined {
+    if (!toolCalls || toolCalls.length === 0) {
+      return undefined;
+    }
+    return toolCalls.map((toolCall) => ({
+      id: toolCall.toolCallId,
+      type: "function",
+      function: {
+        name: toolCall.toolName,
+        arguments: this.stringifyArguments(toolCall.args),
+      },
+    }));
+  }
+
+  /**
+   * Maps an AI SDK finish reason onto the OpenAI `finish_reason` vocabulary.
+   * @param finishReason The AI SDK finish reason.
+   * @returns The OpenAI finish reason.
+   */
+  public static toOpenAIFinishReason(finishReason: FinishReason | string): ChatCompletion.Choice['finish_reason'] {
+    switch (finishReason) {
+      case "length":
+        return "length";
+      case "content-filter":
+        return "content_filter";
+      case "tool-calls":
+        return "tool_calls";
+      default:
+        return "stop";
+    }
+  }
+
+  /**
+   * Serializes tool call arguments the way OpenAI does: as a JSON string.
+   */
+  public static stringifyArguments(args: unknown): string {
+    return typeof args === "string" ? args : JSON.stringify(args ?? {});
+  }
+
+  private static parseArguments(args: string): unknown {
+    try {
+      return JSON.parse(args);
+    } catch {
+      return args;
+    }
+  }
+
+  /**
+   * Flattens OpenAI message content (a string or an array of text parts) into plain text.
+   */
+  private static textContent(content: unknown): string {
+    if (typeof content === "string") {
+      return content;
+    }
+    if (Array.isArray(content)) {
+      return content
+        .filter((part) => part?.type === "text")
+        .map((part) => part.text)
+        .join("");
+    }
+    return "";
+  }
+}
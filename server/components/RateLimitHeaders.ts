@@ -0,0 +1,119 @@
+// Header pairs of "remaining" count and reset time used by the upstream APIs we route to.
+// OpenAI and Groq share one format, Anthropic has its own, and OpenRouter uses the
+// unsuffixed x-ratelimit-* headers.
+const REMAINING_RESET_HEADERS: [remaining: string, reset: string][] = [
+  // OpenAI, Groq
+  ["x-ratelimit-remaining-requests", "x-ratelimit-reset-requests"],
+  ["x-ratelimit-remaining-tokens", "x-ratelimit-reset-tokens"],
+  // Anthropic
+  ["anthropic-ratelimit-requests-remaining", "anthropic-ratelimit-requests-reset"],
+  ["anthropic-ratelimit-tokens-remaining", "anthropic-ratelimit-tokens-reset"],
+  ["anthropic-ratelimit-input-tokens-remaining", "anthropic-ratelimit-input-tokens-reset"],
+  ["anthropic-ratelimit-output-tokens-remaining", "anthropic-ratelimit-output-tokens-reset"],
+  // OpenRouter
+  ["x-ratelimit-remaining", "x-ratelimit-reset"],
+];
+
+// Duration units used in OpenAI-style reset values such as "6m0s" or "250ms"
+const DURATION_UNITS_MS: Record<string, number> = {
+  h: 3_600_000,
+  m: 60_000,
+  s: 1_000,
+  ms: 1,
+};
+
+/**
+ * Interprets upstream rate-limit response headers.
+ * This is a stateless utility class; no instance is required.
+ */
+export class RateLimitHeaders {
+  /**
+   * Works out until when an upstream has told us to stop sending requests.
+   * Considers `retry-after` / `retry-after-ms`, and any rate-limit window whose remaining
+   * count has reached zero, in which case the window's reset time applies.
+   * @param headers Response headers from the upstream call.
+   * @param now The current time in epoch milliseconds.
+   * @returns The epoch milliseconds at which requests may resume, or undefined if the
+   * headers do not indicate exhaustion.
+   */
+  public static getExhaustedUntil(headers: Record<string, string | undefined> | undefined, now: number = Date.now()): number | undefined {
+    if (!headers) {
+      return undefined;
+    }
+    const normalized = new Map(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value?.trim()])
+    );
+
+    const candidates: number[] = [];
+
+    // OpenAI sends a millisecond-precision retry-after-ms alongside retry-after
+    const retryAfterMs = Number(normalized.get("retry-after-ms") || NaN);
+    const retryAfter = Number.isFinite(retryAfterMs)
+      ? now + retryAfterMs
+      : this.parseRetryAfter(normalized.get("retry-after"), now);
+    if (retryAfter !== undefined) {
+      candidates.push(retryAfter);
+    }
+
+    for (const [remainingHeader, resetHeader] of REMAINING_RESET_HEADERS) {
+      const remaining = normalized.get(remainingHeader);
+      if (remaining === undefined || Number(remaining) > 0) {
+        continue;
+      }
+      const reset = this.parseResetTime(normalized.get(resetHeader), now);
+      if (reset !== undefined) {
+        candidates.push(reset);
+      }
+    }
+
+    if (candidates.length === 0) {
+      return undefined;
+    }
+    const until = Math.max(...candidates);
+    return until > now ? until : undefined;
+  }
+
+  /**
+   * Parses a `retry-after` value, which is either a number of seconds or an HTTP date.
+   */
+  private static parseRetryAfter(value: string | undefined, now: number): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) {
+      return now + seconds * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : date;
+  }
+
+  /**
+   * Parses a rate-limit reset value. Providers use a duration ("1m30s", OpenAI and Groq),
+   * an RFC 3339 timestamp (Anthropic), or a Unix timestamp in milliseconds (OpenRouter).
+   * Plain numbers that are too small to be timestamps are taken as seconds from now.
+   */
+  private static parseResetTime(value: string | undefined, now: number): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const numeric = Number(value);
+    if (Number.isFinite(numeric)) {
+      if (numeric > 1e12) return numeric; // epoch milliseconds
+      if (numeric > 1e9) return numeric * 1000; // epoch seconds
+      return now + numeric * 1000;
+    }
+
+    const duration = /^(\d+(?:\.\d+)?(?:ms|h|m|s))+$/.test(value)
+      ? [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)]
+        .reduce((total, [, amount, unit]) => total + Number(amount) * DURATION_UNITS_MS[unit], 0)
+      : undefined;
+    if (duration !== undefined) {
+      return now + duration;
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : date;
+  }
+}
@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from "express";
+import type { ChatCompletion, ChatCompletionChunk, CompletionUsage } from "openai/resources";
+
+/**
+ * A streaming response in progress, fed with OpenAI chat completion chunks.
+ */
+export interface ResponseStream {
+  writeChunk(chunk: ChatCompletionChunk): void;
+  /**
+   * Ends the stream after its last chunk.
+   * @param usage The token usage of the response, if the provider reported it.
+   */
+  end(usage?: CompletionUsage): void;
+  /** Ends the stream with an error, after some chunks may already have been sent. */
+  fail(message: string): void;
+}
+
+/**
+ * Writes responses in the wire format of the API a request came in on. The executor produces
+ * OpenAI Chat Completions objects; formats for other APIs translate them as they are sent.
+ * The format is chosen per request with `res.locals.responseFormat`.
+ */
+export interface ResponseFormat {
+  sendCompletion(res: Response, completion: ChatCompletion): void;
+  sendError(res: Response, status: number, message: string): void;
+  startStream(res: Response): ResponseStream;
+}
+
+/**
+ * The headers of a server-sent events stream, as OpenAI streams are sent.
+ */
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive'
+};
+
+/**
+ * Formats the event that ends an OpenAI stream with an error. OpenAI sends an error object
+ * in place of a chunk, which its SDKs raise as an API error.
+ */
+export function openAIErrorEvent(message: string): string {
+  return `data: ${JSON.stringify({ error: { message, type: "server_error", param: null, code: null } })}\n\n`;
+}
+
+/**
+ * The OpenAI Chat Completions format, used unless a route selects another one.
+ */
+export const openAIResponseFormat: ResponseFormat = {
+  sendCompletion(res, completion) {
+    res.json(completion);
+  },
+
+  sendError(res, status, message) {
+    res.status(status).json({ error: message });
+  },
+
+  startStream(res) {
+    res.writeHead(200, SSE_HEADERS);
+    return {
+      writeChunk(chunk) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      },
+      end() {
+        res.write('data: [DONE]\n\n');
+        res.end();
+      },
+      fail(message) {
+        res.write(openAIErrorEvent(message));
+        res.end();
+      },
+    };
+  },
+};
+
+/**
+ * Returns the format to answer a request in.
+ */
+export function getResponseFormat(res: Response): ResponseFormat {
+  return res.locals.responseFormat ?? openAIResponseFormat;
+}
+
+/**
+ * Express middleware that answers the requests of a route in the given format, including
+ * errors from middleware that runs after it, such as authentication.
+ */
+export function useResponseFormat(format: ResponseFormat) {
+  return (_req: Request, res: Response, next: NextFunction) => {
+    res.locals.responseFormat = format;
+    next();
+  };
+}
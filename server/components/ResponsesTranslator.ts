@@ -0,0 +1,435 @@
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import type {
+  ChatCompletion,
+  ChatCompletionAssistantMessageParam,
+  ChatCompletionContentPart,
+  ChatCompletionCreateParams,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+  ChatCompletionToolChoiceOption,
+  CompletionUsage,
+} from "openai/resources";
+import type {
+  Response as ResponseObject,
+  ResponseCreateParamsBase,
+  ResponseFunctionToolCall,
+  ResponseInputContent,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseOutputMessage,
+  ResponseOutputText,
+} from "openai/resources/responses/responses";
+import { ResponseFormat, SSE_HEADERS } from "./ResponseFormat.js";
+import { getErrorMessage } from "./Utils.js";
+
+/**
+ * A request body for `POST /v1/responses`.
+ */
+export type ResponsesRequest = ResponseCreateParamsBase;
+
+// OpenAI error types by HTTP status
+const ERROR_TYPES: Record<number, string> = {
+  400: "invalid_request_error",
+  401: "authentication_error",
+  403: "permission_error",
+  404: "not_found_error",
+  429: "rate_limit_exceeded",
+};
+
+/**
+ * Translates between the OpenAI Responses API wire format and the Chat Completions format the
+ * Router and executor work with. Responses are not stored, so every request must carry the
+ * whole conversation in `input`.
+ * This is a stateless utility class; no instance is required.
+ */
+export class ResponsesTranslator {
+  /**
+   * Converts a Responses API request into the equivalent chat completion request.
+   * `function_call` items become assistant `tool_calls` and `function_call_output` items
+   * become `tool` messages.
+   * @throws If the request is malformed or uses features the gateway cannot forward.
+   */
+  public static toChatCompletionRequest(body: ResponsesRequest): ChatCompletionCreateParams {
+    if (typeof body?.model !== "string") {
+      throw new Error("model is required");
+    }
+    if (body.previous_response_id) {
+      throw new Error("previous_response_id is not supported, as responses are not stored. Send the whole conversation in input.");
+    }
+    if (body.input === undefined) {
+      throw new Error("input is required");
+    }
+
+    const messages: ChatCompletionMessageParam[] = [];
+    if (body.instructions) {
+      messages.push({ role: "system", content: body.instructions });
+    }
+    if (typeof body.input === "string") {
+      messages.push({ role: "user", content: body.input });
+    } else {
+      for (const item of body.input) {
+        this.addInputItem(messages, item);
+      }
+    }
+
+    const format = body.text?.format;
+    return {
+      model: body.model,
+      messages,
+      ...(body.max_output_tokens != null && { max_tokens: body.max_output_tokens }),
+      ...(body.temperature != null && { temperature: body.temperature }),
+      ...(body.top_p != null && { top_p: body.top_p }),
+      ...(body.stream != null && { stream: body.stream }),
+      ...(body.user && { user: body.user }),
+      ...(body.tools && body.tools.length > 0 && { tools: body.tools.map((tool) => this.toChatTool(tool)) }),
+      ...(body.tool_choice && { tool_choice: this.toChatToolChoice(body.tool_choice) }),
+      ...(format?.type === "json_schema" && {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: format.name, schema: format.schema, strict: format.strict ?? undefined },
+        },
+      }),
+      ...(format?.type === "json_object" && { response_format: { type: "json_object" } }),
+    };
+  }
+
+  private static addInputItem(messages: ChatCompletionMessageParam[], item: ResponseInputItem): void {
+    switch (item.type ?? "message") {
+      case "message": {
+        const message = item as Extract<ResponseInputItem, { role: string }>;
+        if (message.role === "assistant") {
+          messages.push({ role: "assistant", content: this.outputText(message.content) });
+        } else if (typeof message.content === "string") {
+          messages.push({ role: message.role === "user" ? "user" : "system", content: message.content });
+        } else if (message.role === "user") {
+          messages.push({ role: "user", content: message.content.map((part) => this.toContentPart(part)) });
+        } else {
+          messages.push({ role: "system", content: this.outputText(message.content) });
+        }
+        return;
+      }
+      case "function_call": {
+        // Calls made in the same turn belong to one assistant message
+        const call = item as ResponseFunctionToolCall;
+        const toolCall = { id: call.call_id, type: "function" as const, function: { name: call.name, arguments: call.arguments } };
+        const last = messages[messages.length - 1];
+        if (last?.role === "assistant") {
+          (last as ChatCompletionAssistantMessageParam).tool_calls = [...(last.tool_calls ?? []), toolCall];
+        } else {
+          messages.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+        }
+        return;
+      }
+      case "function_call_output": {
+        const output = item as ResponseInputItem.FunctionCallOutput;
+        messages.push({ role: "tool", tool_call_id: output.call_id, content: output.output });
+        return;
+      }
+      case "reasoning":
+        // Reasoning from earlier turns is model-specific and not forwarded
+        return;
+      default:
+        throw new Error(`Unsupported input item type: ${item.type}`);
+    }
+  }
+
+  private static toContentPart(part: ResponseInputContent): ChatCompletionContentPart {
+    switch (part.type) {
+      case "input_text":
+        return { type: "text", text: part.text };
+      case "input_image":
+        if (!part.image_url) {
+          throw new Error("input_image parts must have an image_url; file_id references are not supported.");
+        }
+        return { type: "image_url", image_url: { url: part.image_url, detail: part.detail } };
+      case "input_file":
+        if (!part.file_data) {
+          throw new Error("input_file parts must have file_data; file_id and file_url references are not supported.");
+        }
+        return { type: "file", file: { file_data: part.file_data, ...(part.filename && { filename: part.filename }) } };
+      default:
+        throw new Error(`Unsupported content part type: ${(part as { type: string }).type}`);
+    }
+  }
+
+  /**
+   * Flattens message content in the Responses format into plain text.
+   */
+  private static outputText(content: string | { type: string; text?: string }[]): string {
+    if (typeof content === "string") {
+      return content;
+    }
+    return content
+      .filter((part) => part.type === "output_text" || part.type === "input_text")
+      .map((part) => part.text)
+      .join("");
+  }
+
+  private static toChatTool(tool: NonNullable<ResponsesRequest["tools"]>[number]): ChatCompletionTool {
+    if (tool.type !== "function") {
+      throw new Error(`Unsupported tool type: ${tool.type}. Only function tools are supported.`);
+    }
+    return {
+      type: "function",
+      function: {
+        name: tool.name,
+        ...(tool.description && { description: tool.description }),
+        parameters: tool.parameters ?? { type: "object", properties: {} },
+      },
+    };
+  }
+
+  private static toChatToolChoice(toolChoice: NonNullable<ResponsesRequest["tool_choice"]>): ChatCompletionToolChoiceOption {
+    if (typeof toolChoice === "string") {
+      return toolChoice;
+    }
+    if (toolChoice.type === "function") {
+      return { type: "function", function: { name: toolChoice.name } };
+    }
+    throw new Error(`Unsupported tool_choice type: ${toolChoice.type}`);
+  }
+
+  /**
+   * Converts a chat completion into a Responses API response.
+   */
+  public static toResponse(completion: ChatCompletion): ResponseObject {
+    const choice = completion.choices[0];
+    const output: ResponseOutputItem[] = [];
+    if (choice?.message.content) {
+      output.push(this.toOutputMessage(this.toItemId("msg", completion.id), choice.message.content, "completed"));
+    }
+    for (const toolCall of choice?.message.tool_calls ?? []) {
+      if (toolCall.type === "function") {
+        output.push(this.toFunctionCall(toolCall.id, toolCall.function.name, toolCall.function.arguments, "completed"));
+      }
+    }
+    return this.createResponse(completion.id, completion.model, output, choice?.finish_reason, completion.usage);
+  }
+
+  /**
+   * Builds a response object. Responses cut off by the token limit or a content filter are
+   * `incomplete`; a response without a finish reason is still `in_progress`.
+   * @param completionId The ID of the chat completion, from which the response ID is derived.
+   */
+  public static createResponse(
+    completionId: string,
+    model: string,
+    output: ResponseOutputItem[],
+    finishReason?: string | null,
+    usage?: CompletionUsage,
+  ): ResponseObject {
+    const incompleteReason = finishReason === "length"
+      ? "max_output_tokens"
+      : finishReason === "content_filter" ? "content_filter" : undefined;
+
+    return {
+      id: this.toItemId("resp", completionId),
+      object: "response",
+      created_at: Math.floor(Date.now() / 1000),
+      status: !finishReason ? "in_progress" : incompleteReason ? "incomplete" : "completed",
+      model,
+      output,
+      output_text: output
+        .flatMap((item) => (item.type === "message" ? item.content : []))
+        .map((part) => (part.type === "output_text" ? part.text : ""))
+        .join(""),
+      error: null,
+      incomplete_details: incompleteReason ? { reason: incompleteReason } : null,
+      instructions: null,
+      metadata: null,
+      parallel_tool_calls: true,
+      temperature: null,
+      tool_choice: "auto",
+      tools: [],
+      top_p: null,
+      ...(usage && {
+        usage: {
+          input_tokens: usage.prompt_tokens,
+          input_tokens_details: { cached_tokens: 0 },
+          output_tokens: usage.completion_tokens,
+          output_tokens_details: { reasoning_tokens: 0 },
+          total_tokens: usage.total_tokens,
+        },
+      }),
+    };
+  }
+
+  public static toOutputMessage(id: string, text: string, status: ResponseOutputMessage["status"]): ResponseOutputMessage {
+    return { type: "message", id, status, role: "assistant", content: [this.toOutputText(text)] };
+  }
+
+  public static toOutputText(text: string): ResponseOutputText {
+    return { type: "output_text", text, annotations: [] };
+  }
+
+  public static toFunctionCall(
+    callId: string,
+    name: string,
+    args: string,
+    status: NonNullable<ResponseFunctionToolCall["status"]>,
+  ): ResponseFunctionToolCall {
+    return { type: "function_call", id: `fc_${callId}`, call_id: callId, name, arguments: args, status };
+  }
+
+  /**
+   * Builds an OpenAI error body, typed by the HTTP status.
+   */
+  public static toErrorBody(status: number, message: string) {
+    return { error: { message, type: ERROR_TYPES[status] ?? "server_error", param: null, code: null } };
+  }
+
+  /**
+   * Derives the ID of a response or output item from the chat completion ID.
+   */
+  public static toItemId(prefix: string, completionId?: string): string {
+    return completionId?.startsWith("chatcmpl-")
+      ? `${prefix}_${completionId.slice("chatcmpl-".length)}`
+      : `${prefix}_${randomUUID().replace(/-/g, "")}`;
+  }
+}
+
+/**
+ * Answers in the Responses API format. Streams are sent as typed server-sent events:
+ * response.created and response.in_progress, then for each output item
+ * response.output_item.added, its text or function call argument deltas and done events and
+ * response.output_item.done, and finally response.completed (or response.incomplete).
+ */
+export const responsesResponseFormat: ResponseFormat = {
+  sendCompletion(res, completion) {
+    res.json(ResponsesTranslator.toResponse(completion));
+  },
+
+  sendError(res, status, message) {
+    res.status(status).json(ResponsesTranslator.toErrorBody(status, message));
+  },
+
+  startStream(res) {
+    res.writeHead(200, SSE_HEADERS);
+    let sequenceNumber = 0;
+    const send = (type: string, data: object) => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify({ type, sequence_number: sequenceNumber++, ...data })}\n\n`);
+    };
+
+    let completionId = "";
+    let model = "";
+    let finishReason: string | null = null;
+    // Output items in order, the one being streamed, and the items of each chat tool call index
+    const output: ResponseOutputItem[] = [];
+    let open: { outputIndex: number; text?: string; args?: string } | undefined;
+    const toolItems = new Map<number, number>();
+
+    const closeItem = () => {
+      if (!open) return;
+      const { outputIndex } = open;
+      const item = output[outputIndex];
+      if (item.type === "message") {
+        const text = open.text ?? "";
+        const part = ResponsesTranslator.toOutputText(text);
+        send("response.output_text.done", { item_id: item.id, output_index: outputIndex, content_index: 0, text, logprobs: [] });
+        send("response.content_part.done", { item_id: item.id, output_index: outputIndex, content_index: 0, part });
+        output[outputIndex] = ResponsesTranslator.toOutputMessage(item.id, text, "completed");
+      } else if (item.type === "function_call") {
+        const args = open.args ?? "";
+        send("response.function_call_arguments.done", { item_id: item.id, output_index: outputIndex, arguments: args });
+        output[outputIndex] = ResponsesTranslator.toFunctionCall(item.call_id, item.name, args, "completed");
+      }
+      send("response.output_item.done", { output_index: outputIndex, item: output[outputIndex] });
+      open = undefined;
+    };
+    const addItem = (item: ResponseOutputItem) => {
+      closeItem();
+      output.push(item);
+      open = { outputIndex: output.length - 1 };
+      send("response.output_item.added", { output_index: open.outputIndex, item });
+      return open;
+    };
+
+    return {
+      writeChunk(chunk) {
+        if (!completionId) {
+          completionId = chunk.id;
+          model = chunk.model;
+          const response = ResponsesTranslator.createResponse(completionId, model, []);
+          send("response.created", { response });
+          send("response.in_progress", { response });
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) {
+          return;
+        }
+        if (choice.delta.content) {
+          let item = open && output[open.outputIndex].type === "message" ? open : undefined;
+          if (!item) {
+            const id = ResponsesTranslator.toItemId("msg", `${completionId}_${output.length}`);
+            item = addItem({ type: "message", id, status: "in_progress", role: "assistant", content: [] });
+            send("response.content_part.added", {
+              item_id: id,
+              output_index: item.outputIndex,
+              content_index: 0,
+              part: ResponsesTranslator.toOutputText(""),
+            });
+          }
+          item.text = (item.text ?? "") + choice.delta.content;
+          send("response.output_text.delta", {
+            item_id: (output[item.outputIndex] as ResponseOutputMessage).id,
+            output_index: item.outputIndex,
+            content_index: 0,
+            delta: choice.delta.content,
+          });
+        }
+        for (const toolCall of choice.delta.tool_calls ?? []) {
+          if (toolCall.id) {
+            addItem(ResponsesTranslator.toFunctionCall(toolCall.id, toolCall.function?.name ?? "", "", "in_progress"));
+            toolItems.set(toolCall.index, open!.outputIndex);
+          }
+          const delta = toolCall.function?.arguments;
+          const outputIndex = toolItems.get(toolCall.index);
+          if (delta && open && outputIndex === open.outputIndex) {
+            open.args = (open.args ?? "") + delta;
+            send("response.function_call_arguments.delta", {
+              item_id: (output[outputIndex] as ResponseFunctionToolCall).id,
+              output_index: outputIndex,
+              delta,
+            });
+          }
+        }
+        if (choice.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+      },
+
+      end(usage) {
+        closeItem();
+        const response = ResponsesTranslator.createResponse(completionId, model, output, finishReason ?? "stop", usage);
+        send(response.status === "incomplete" ? "response.incomplete" : "response.completed", { response });
+        res.end();
+      },
+
+      fail(message) {
+        closeItem();
+        const response = {
+          ...ResponsesTranslator.createResponse(completionId, model, output),
+          status: "failed" as const,
+          error: { code: "server_error" as const, message },
+        };
+        send("response.failed", { response });
+        res.end();
+      },
+    };
+  },
+};
+
+/**
+ * Express middleware that translates a Responses API request body into the chat completion
+ * request the Router and executor expect. Invalid requests are rejected with a 400.
+ */
+export function translateResponsesRequest(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = ResponsesTranslator.toChatCompletionRequest(req.body);
+  } catch (error) {
+    return responsesResponseFormat.sendError(res, 400, `Invalid request: ${getErrorMessage(error)}`);
+  }
+  return next();
+}
@@ -1,23 +1,47 @@
 import { Provider } from "#schemas/provider.schema";
 import { Model } from "#schemas/model.schema";
+import { ApiKey } from "#schemas/apiKey.schema";
 import { ConfigManager } from "./config/ConfigManager.js";
 import { logger } from "./Logger.js";
 import { Request, Response, NextFunction } from "express";
-import { UsageManager } from "./UsageManager.js";
+import { UsageEstimate, UsageManager } from "./UsageManager.js";
+import { CircuitBreaker } from "./CircuitBreaker.js";
 import { PriceData } from "./PriceData.js";
+import { OpenAITranslator } from "./OpenAITranslator.js";
+import { EstimatableRequest, TokenEstimate, TokenEstimator } from "./TokenEstimator.js";
+import { ApiKeyManager } from "./ApiKeyManager.js";
+import { getResponseFormat } from "./ResponseFormat.js";
+import { getErrorMessage } from "./Utils.js";
+
+/**
+ * Capabilities a request needs from the model that serves it.
+ */
+export interface RoutingRequirements {
+  /** The request contains image input. */
+  requiresVision?: boolean;
+  /**
+   * The request being routed. Candidates whose remaining token or cost budget cannot
+   * cover its estimated worst-case usage are skipped.
+   */
+  request?: EstimatableRequest;
+  /** The gateway API key the request was made with. Its model allowlist and limits also apply. */
+  apiKey?: ApiKey;
+}
 
 export class Router {
   private static instance: Router;
   private usageManager: UsageManager;
+  private circuitBreaker: CircuitBreaker;
 
   // Private constructor now accepts dependencies.
-  private constructor(usageManager: UsageManager) {
+  private constructor(usageManager: UsageManager, circuitBreaker: CircuitBreaker) {
     this.usageManager = usageManager;
+    this.circuitBreaker = circuitBreaker;
   }
 
   /**
    * Initializes the singleton Router.
-   * This MUST be called after UsageManager is initialized.
+   * This MUST be called after UsageManager and CircuitBreaker are initialized.
    */
   public static initialize(): void {
     if (Router.instance) {
@@ -25,7 +49,8 @@ export class Router {
       return;
     }
     const usageManager = UsageManager.getInstance();
-    Router.instance = new Router(usageManager);
+    const circuitBreaker = CircuitBreaker.getInstance();
+    Router.instance = new Router(usageManager, circuitBreaker);
   }
 
   /**
@@ -135,16 +160,66 @@ export class Router {
   }
 
   /**
-   * Filters candidates to only those under rate limits.
+   * Estimates the worst-case usage of a request on a provider/model: its prompt tokens counted
+   * with the model family's tokenizer, plus max_tokens completion tokens (or, without max_tokens,
+   * the model's maximum output tokens) at the model's pricing.
+   * Unknown pricing is treated as free, as the cost of the request cannot be bounded.
+   * @param estimateTokens The request's token estimator, shared by all candidates.
+   */
+  private estimateUsage(
+    provider: Provider,
+    model: Model,
+    estimateTokens: (modelName: string, maxOutputTokens?: number) => TokenEstimate,
+  ): UsageEstimate {
+    const { promptTokens, maxCompletionTokens } = estimateTokens(model.name, model.maxOutputTokens);
+
+    let costInUSD = 0;
+    try {
+      // Priced the same way as the executor prices the response
+      const pricing = PriceData.getInstance().getPriceWithOverride(provider.type, model);
+      if (pricing?.costPerRequest) {
+        costInUSD = pricing.costPerRequest;
+      } else if (pricing) {
+        costInUSD =
+          (promptTokens / 1_000_000) * (pricing.inputCostPerMillionTokens ?? 0) +
+          (maxCompletionTokens / 1_000_000) * (pricing.outputCostPerMillionTokens ?? 0);
+      }
+    } catch (error) {
+      logger.debug(`Error estimating cost for ${provider.id}/${model.name}: ${getErrorMessage(error)}`);
+    }
+
+    return { tokens: promptTokens + maxCompletionTokens, costInUSD };
+  }
+
+  /**
+   * Filters candidates to only those under rate limits and whose circuit is not open.
+   * When the request is given, its estimated usage must also fit in each candidate's remaining limits,
+   * including those of the API key it was made with. The request is only estimated for candidates
+   * whose circuit is not open and that a token or cost limit applies to.
    */
   private async filterAvailableCandidates(
     candidates: { provider: Provider; model: Model }[],
-    modelname: string
+    modelname: string,
+    request?: EstimatableRequest,
+    apiKey?: ApiKey,
   ): Promise<{ provider: Provider; model: Model }[]> {
     const availableCandidates = [];
+    const estimateTokens = request && TokenEstimator.forRequest(request);
     for (const candidate of candidates) {
       const { provider, model } = candidate;
-      if (await this.usageManager.isUnderLimit(provider.id, model.name)) {
+      if (!this.circuitBreaker.isAvailable(provider.id, model.name)) {
+        logger.debug(
+          `Skipping provider '${provider.id}' for model '${modelname}' (real name: '${model.name}') because its circuit is open.`,
+        );
+        continue;
+      }
+      const estimate = estimateTokens && this.usageManager.hasTokenOrCostLimit(provider.id, model.name, apiKey?.id)
+        ? this.estimateUsage(provider, model, estimateTokens)
+        : undefined;
+      if (
+        await this.usageManager.isUnderLimit(provider.id, model.name, estimate) &&
+        (!apiKey || await this.usageManager.isApiKeyUnderLimit(apiKey.id, estimate))
+      ) {
         availableCandidates.push(candidate);
       } else {
         logger.debug(
@@ -199,6 +274,28 @@ export class Router {
     return undefined;
   }
 
+  /**
+   * Orders all available candidates for failover by repeatedly applying selectBestCandidate:
+   * zero-cost providers come first in random order, then paid providers from cheapest up.
+   */
+  private rankCandidates(
+    zeroCostCandidates: { provider: Provider; model: Model }[],
+    paidCandidates: { provider: Provider; model: Model }[]
+  ): { provider: Provider; model: Model }[] {
+    const ranked: { provider: Provider; model: Model }[] = [];
+    const remainingZeroCost = [...zeroCostCandidates];
+    const remainingPaid = [...paidCandidates];
+
+    let next = this.selectBestCandidate(remainingZeroCost, remainingPaid);
+    while (next) {
+      ranked.push(next);
+      const pool = remainingZeroCost.includes(next) ? remainingZeroCost : remainingPaid;
+      pool.splice(pool.indexOf(next), 1);
+      next = this.selectBestCandidate(remainingZeroCost, remainingPaid);
+    }
+    return ranked;
+  }
+
   /**
    * Randomly selects one item from an array.
    */
@@ -210,11 +307,25 @@ export class Router {
     return items[randomIndex];
   }
 
-  public async getBestProviderForModel(
+  /**
+   * Returns every usable provider/model pair for a model, best first.
+   * The executor walks this list when a provider call fails with a retryable error.
+   */
+  public async getRankedCandidatesForModel(
     modelName: string,
-  ): Promise<{ provider: Provider; model: Model } | { error: string; status: number }> {
+    requirements: RoutingRequirements = {},
+  ): Promise<{ candidates: { provider: Provider; model: Model }[] } | { error: string; status: number }> {
     logger.debug(`Finding a provider for model: ${modelName}`);
 
+    const { apiKey } = requirements;
+    if (!ApiKeyManager.allowsModel(apiKey, modelName)) {
+      logger.warn(`API key '${apiKey!.name}' is not allowed to use model: ${modelName}`);
+      return {
+        error: `This API key is not allowed to use model: ${modelName}`,
+        status: 403,
+      };
+    }
+
     const candidates = this.getProvidersForModel(modelName);
     if (!candidates || candidates.length === 0) {
       logger.warn(`No configured provider found for model: ${modelName}`);
@@ -227,12 +338,44 @@ export class Router {
       `Identified candidate providers: ${candidates.map((c) => c.provider.id).join(", ")}`,
     );
 
+    let capableCandidates = candidates;
+    if (requirements.requiresVision) {
+      capableCandidates = candidates.filter((c) => c.model.supportsVision === true);
+      if (capableCandidates.length === 0) {
+        logger.warn(`Request for model '${modelName}' contains images but no vision-capable provider is configured.`);
+        return {
+          error: `No vision-capable provider configured for model: ${modelName}`,
+          status: 400,
+        };
+      }
+    }
+
+    if (apiKey && !(await this.usageManager.isApiKeyUnderLimit(apiKey.id))) {
+      return {
+        error: `API key '${apiKey.name}' has reached its rate limit or budget. Please try again later.`,
+        status: 429,
+      };
+    }
+
     const availableCandidates = await this.filterAvailableCandidates(
-      candidates,
+      capableCandidates,
       modelName,
+      requirements.request,
+      apiKey,
     );
+    if (availableCandidates.length === 0 && requirements.request) {
+      // Tell requests that are too large for what is left apart from exhausted limits
+      const withoutEstimate = await this.filterAvailableCandidates(capableCandidates, modelName, undefined, apiKey);
+      if (withoutEstimate.length > 0) {
+        logger.warn(`Request for model '${modelName}' exceeds the remaining token or cost budget of every provider.`);
+        return {
+          error: `Request for model '${modelName}' exceeds the remaining token or cost budget of every provider. Reduce the prompt or max_tokens, or try again later.`,
+          status: 429,
+        };
+      }
+    }
     if (availableCandidates.length === 0) {
-      logger.error(`All providers for model '${modelName}' are at their rate limits.`);
+      logger.error(`All providers for model '${modelName}' are at their rate limits or have open circuits.`);
       return {
         error: `All providers for model '${modelName}' are currently at their rate limit. Please try again later.`,
         status: 503,
@@ -240,8 +383,23 @@ export class Router {
     }
 
     const { zeroCost, paid } = this.partitionCandidatesByCost(availableCandidates);
-    const selectedCandidate = this.selectBestCandidate(zeroCost, paid);
+    const ranked = this.rankCandidates(zeroCost, paid);
+    logger.debug(
+      `Ranked providers for model '${modelName}': ${ranked.map((c) => `${c.provider.id}/${c.model.name}`).join(", ")}`,
+    );
+    return { candidates: ranked };
+  }
 
+  public async getBestProviderForModel(
+    modelName: string,
+    requirements: RoutingRequirements = {},
+  ): Promise<{ provider: Provider; model: Model } | { error: string; status: number }> {
+    const result = await this.getRankedCandidatesForModel(modelName, requirements);
+    if ("error" in result) {
+      return result;
+    }
+
+    const selectedCandidate = result.candidates[0];
     if (!selectedCandidate) {
       logger.error(
         `Failed to select a provider from available candidates for model: ${modelName}`,
@@ -258,14 +416,31 @@ export class Router {
 
   public async chooseProvider(req: Request, res: Response, next: NextFunction) {
     const modelName = req.body.model;
-    const result = await this.getBestProviderForModel(modelName);
+    let result: Awaited<ReturnType<Router["getRankedCandidatesForModel"]>>;
+    try {
+      result = await this.getRankedCandidatesForModel(modelName, {
+        requiresVision: OpenAITranslator.hasImageContent(req.body.messages),
+        request: req.body,
+        apiKey: res.locals.apiKey,
+      });
+    } catch (error) {
+      // Express 4 does not catch rejections from async middleware. Malformed bodies are tolerated
+      // above, so anything thrown here is an internal failure whose details stay in the log.
+      logger.error(`Failed to route request for model ${modelName}: ${getErrorMessage(error)}`);
+      return getResponseFormat(res).sendError(res, 500, "Failed to select a suitable provider.");
+    }
 
     if ("error" in result) {
-      return res.status(result.status).json({ error: result.error });
+      return getResponseFormat(res).sendError(res, result.status, result.error);
+    }
+    if (result.candidates.length === 0) {
+      return getResponseFormat(res).sendError(res, 500, "Failed to select a suitable provider.");
     }
 
-    res.locals.chosenProvider = result.provider;
-    res.locals.chosenModel = result.model;
+    // The remaining candidates are fallbacks for the executor if the first one fails
+    res.locals.chosenProvider = result.candidates[0].provider;
+    res.locals.chosenModel = result.candidates[0].model;
+    res.locals.candidates = result.candidates;
     return next();
   }
 }
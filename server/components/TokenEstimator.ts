@@ -0,0 +1,218 @@
+import { Tiktoken, TiktokenBPE } from "js-tiktoken/lite";
+import cl100k_base from "js-tiktoken/ranks/cl100k_base";
+import o200k_base from "js-tiktoken/ranks/o200k_base";
+import type { ChatCompletionCreateParams, ChatCompletionMessageParam, EmbeddingCreateParams } from "openai/resources";
+
+/**
+ * The parts of a chat completion or embedding request that determine how many tokens it can use.
+ */
+export type EstimatableRequest = Partial<Pick<
+  ChatCompletionCreateParams,
+  "messages" | "tools" | "response_format" | "max_tokens" | "max_completion_tokens" | "n"
+>> & Partial<Pick<EmbeddingCreateParams, "input">>;
+
+/**
+ * The estimated size of a request for one model.
+ */
+export interface TokenEstimate {
+  /** Estimated prompt tokens, including tool definitions and response format. */
+  promptTokens: number;
+  /**
+   * The most completion tokens the request can produce across all choices: its max_tokens, or the
+   * model's maximum output tokens if it sets none. Always 0 for an embedding request.
+   */
+  maxCompletionTokens: number;
+}
+
+type EncodingName = "cl100k_base" | "o200k_base";
+
+// Prompt tokens as counted by a tokenizer, before a family's margin is applied
+interface PromptCount {
+  tokens: number;
+  images: number;
+}
+
+const ENCODING_RANKS: Record<EncodingName, TiktokenBPE> = { cl100k_base, o200k_base };
+
+// Tokenizer to estimate each model family with, matched against the provider's model name.
+// Families whose own tokenizer is not available locally get a margin, as theirs typically
+// split the same text into more tokens.
+const MODEL_FAMILIES: { pattern: RegExp; encoding: EncodingName; margin: number }[] = [
+  { pattern: /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|(^|\/)o[134]\b|gpt-oss/, encoding: "o200k_base", margin: 1 },
+  { pattern: /gpt-4|gpt-3\.5|text-embedding/, encoding: "cl100k_base", margin: 1 },
+  { pattern: /claude/, encoding: "cl100k_base", margin: 1.2 },
+  { pattern: /gemini|gemma/, encoding: "o200k_base", margin: 1.1 },
+  { pattern: /llama|mistral|mixtral|codestral|qwen|deepseek|grok/, encoding: "cl100k_base", margin: 1.1 },
+];
+const DEFAULT_FAMILY = { encoding: "cl100k_base" as EncodingName, margin: 1.2 };
+
+// Per-message formatting overhead and reply priming, as in OpenAI's chat format
+const TOKENS_PER_MESSAGE = 3;
+const TOKENS_PER_REPLY = 3;
+
+// Flat estimate per image, the cost of a 1024x1024 image at high detail on OpenAI models
+const TOKENS_PER_IMAGE = 765;
+
+// Completion tokens assumed for a request without max_tokens to a model whose maximum output
+// tokens are not configured, the output limit of many widely used models
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Estimates the token usage of chat completion and embedding requests before they are sent,
+ * using a local tokenizer for the target model's family.
+ * This is a stateless utility class; no instance is required.
+ */
+export class TokenEstimator {
+  // Tokenizers are expensive to build, so each encoding is created once on first use
+  private static encoders = new Map<EncodingName, Tiktoken>();
+
+  /**
+   * Estimates the prompt size and the largest completion of a request for a model.
+   * @param request The OpenAI request body.
+   * @param modelName The provider's name for the model, used to pick the tokenizer.
+   * @param maxOutputTokens The model's maximum output tokens, if configured, for requests without max_tokens.
+   * @returns The estimated prompt tokens and the completion token ceiling.
+   */
+  public static estimate(request: EstimatableRequest, modelName: string, maxOutputTokens?: number): TokenEstimate {
+    return this.forRequest(request)(modelName, maxOutputTokens);
+  }
+
+  /**
+   * Returns an estimator for one request across several models. The prompt is tokenized at
+   * most once per tokenizer, however many models share it, as tokenizing a long prompt blocks
+   * the event loop.
+   * @param request The OpenAI request body.
+   * @returns A function estimating the request for a model, as `estimate()` does.
+   */
+  public static forRequest(
+    request: EstimatableRequest,
+  ): (modelName: string, maxOutputTokens?: number) => TokenEstimate {
+    // The request has not been validated yet, so a malformed max_tokens counts as unset
+    const maxTokens = request.max_completion_tokens ?? request.max_tokens;
+    const requestedTokens = typeof maxTokens === "number" && maxTokens > 0 ? maxTokens : undefined;
+    const counts = new Map<EncodingName, PromptCount>();
+
+    return (modelName, maxOutputTokens = DEFAULT_MAX_OUTPUT_TOKENS) => {
+      const completionTokens = request.input !== undefined
+        ? 0
+        : (requestedTokens ?? maxOutputTokens) * (request.n ?? 1);
+      const family = this.getFamily(modelName);
+      let count = counts.get(family.encoding);
+      if (!count) {
+        count = this.countUnscaledPromptTokens(request, family.encoding);
+        counts.set(family.encoding, count);
+      }
+      return {
+        promptTokens: Math.ceil(count.tokens * family.margin) + count.images * TOKENS_PER_IMAGE,
+        maxCompletionTokens: Number.isFinite(completionTokens) ? completionTokens : 0,
+      };
+    };
+  }
+
+  /**
+   * Counts the prompt tokens of a request: messages, tool definitions and response format.
+   * Images count as a flat estimate; audio and file inputs are not counted.
+   * For an embedding request, counts its input, of which token arrays count as they are.
+   * The request has not been validated yet, so anything malformed counts as empty.
+   */
+  public static countPromptTokens(request: EstimatableRequest, modelName: string): number {
+    const family = this.getFamily(modelName);
+    const { tokens, images } = this.countUnscaledPromptTokens(request, family.encoding);
+    return Math.ceil(tokens * family.margin) + images * TOKENS_PER_IMAGE;
+  }
+
+  /**
+   * Counts the prompt tokens of a request with a tokenizer, see countPromptTokens.
+   */
+  private static countUnscaledPromptTokens(request: EstimatableRequest, encoding: EncodingName): PromptCount {
+    const encoder = this.getEncoder(encoding);
+    const count = (text: string) => encoder.encode(text, [], []).length;
+
+    if (request.input !== undefined) {
+      const inputs: unknown[] = Array.isArray(request.input) && typeof request.input[0] !== "number"
+        ? request.input
+        : [request.input];
+      const tokens = inputs.reduce<number>(
+        (sum, input) => sum + (typeof input === "string" ? count(input) : Array.isArray(input) ? input.length : 0),
+        0,
+      );
+      return { tokens, images: 0 };
+    }
+
+    let tokens = TOKENS_PER_REPLY;
+    let images = 0;
+    for (const message of Array.isArray(request.messages) ? request.messages : []) {
+      if (typeof message !== "object" || message === null) {
+        continue;
+      }
+      tokens += TOKENS_PER_MESSAGE + (typeof message.role === "string" ? count(message.role) : 0);
+      for (const text of this.messageTexts(message)) {
+        tokens += count(text);
+      }
+      images += this.countImages(message);
+    }
+    if (Array.isArray(request.tools) && request.tools.length > 0) {
+      tokens += count(JSON.stringify(request.tools));
+    }
+    if (request.response_format && request.response_format.type !== "text") {
+      tokens += count(JSON.stringify(request.response_format));
+    }
+
+    return { tokens, images };
+  }
+
+  /**
+   * Counts the tokens of plain text, such as output generated so far, for a model.
+   */
+  public static countTextTokens(text: string, modelName: string): number {
+    const family = this.getFamily(modelName);
+    return Math.ceil(this.getEncoder(family.encoding).encode(text, [], []).length * family.margin);
+  }
+
+  private static getFamily(modelName: string): { encoding: EncodingName; margin: number } {
+    return MODEL_FAMILIES.find((f) => f.pattern.test(modelName.toLowerCase())) ?? DEFAULT_FAMILY;
+  }
+
+  private static getEncoder(encoding: EncodingName): Tiktoken {
+    let encoder = this.encoders.get(encoding);
+    if (!encoder) {
+      encoder = new Tiktoken(ENCODING_RANKS[encoding]);
+      this.encoders.set(encoding, encoder);
+    }
+    return encoder;
+  }
+
+  /**
+   * Returns the text of a message that counts towards the prompt: its content, name and tool calls.
+   */
+  private static messageTexts(message: ChatCompletionMessageParam): string[] {
+    const texts: string[] = [];
+    if (typeof message.content === "string") {
+      texts.push(message.content);
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        if (part?.type === "text") {
+          texts.push(part.text);
+        } else if (part?.type === "refusal") {
+          texts.push(part.refusal);
+        }
+      }
+    }
+    if ("name" in message && message.name) {
+      texts.push(message.name);
+    }
+    if (message.role === "assistant" && Array.isArray(message.tool_calls)) {
+      for (const toolCall of message.tool_calls) {
+        texts.push(toolCall?.function?.name, toolCall?.function?.arguments);
+      }
+    }
+    return texts.filter((text) => typeof text === "string");
+  }
+
+  private static countImages(message: ChatCompletionMessageParam): number {
+    if (!Array.isArray(message.content)) {
+      return 0;
+    }
+    return (message.content as { type: string }[]).filter((part) => part?.type === "image_url").length;
+  }
+}
@@ -1,25 +1,39 @@
 import { Provider } from "#schemas/provider.schema";
+import { AppConfig } from "#schemas/appConfig.schema";
 import { Model } from "#schemas/model.schema";
+import { ApiKey } from "#schemas/apiKey.schema";
 import { UsageManager } from "./UsageManager.js";
+import { UsageLedger } from "./UsageLedger.js";
+import { CircuitBreaker } from "./CircuitBreaker.js";
 import { PriceData } from "./PriceData.js";
 import { logger } from "./Logger.js";
 import { Request, Response } from "express";
+import { randomUUID } from "crypto";
 import {
+  CoreMessage,
   GenerateTextResult,
   StreamTextResult,
+  TextStreamPart,
+  ToolChoice,
+  ToolSet,
+  embedMany,
   generateText,
   streamText
 } from "ai";
-import { getErrorMessage } from "./Utils.js";
+import { getErrorMessage, isRetryableError } from "./Utils.js";
+import { OpenAITranslator } from "./OpenAITranslator.js";
+import { RateLimitHeaders } from "./RateLimitHeaders.js";
+import { getResponseFormat } from "./ResponseFormat.js";
+import { TokenEstimator } from "./TokenEstimator.js";
 // Import OpenAI types for proper response formatting
-import type { ChatCompletion, ChatCompletionChunk } from "openai/resources";
+import type { ChatCompletion, ChatCompletionChunk, ChatCompletionMessage, CreateEmbeddingResponse } from "openai/resources";
 // Import AI SDK providers
 import { createOpenAI, OpenAIProviderSettings } from "@ai-sdk/openai";
 import { AnthropicProviderSettings, createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI, GoogleGenerativeAIProviderSettings } from "@ai-sdk/google";
 import { createVertex, GoogleVertexProviderSettings } from "@ai-sdk/google-vertex";
-//import { createAzure } from "@ai-sdk/azure"; // Commented out until wI figure out the resourceName
-//import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock"; // Commented out until we verify API
+import { createAzure } from "@ai-sdk/azure";
+import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
 import { createGroq, GroqProviderSettings } from "@ai-sdk/groq";
 import { createMistral, MistralProviderSettings } from "@ai-sdk/mistral";
 import { createDeepSeek, DeepSeekProviderSettings } from "@ai-sdk/deepseek";
@@ -28,6 +42,8 @@ import { createPerplexity, PerplexityProviderSettings } from "@ai-sdk/perplexity
 import { createTogetherAI, TogetherAIProviderSettings } from "@ai-sdk/togetherai";
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { CopilotTokenManager } from "./config/CopilotTokenManager.js";
+import { SecretCipher } from "./config/SecretCipher.js";
+import { ConfigManager } from "./config/ConfigManager.js";
 
 // import { createOpenRouter } from '@openrouter/ai-sdk-provider'; Only supports v5,
 // which nothing else does.  For now, treat it as openai-compatible
@@ -36,6 +52,56 @@ import { createQwen, QwenProviderSettings } from "qwen-ai-provider";
 import { createGeminiProvider } from "ai-sdk-provider-gemini-cli"
 import { createClaudeCode } from "ai-sdk-provider-claude-code"
 
+/**
+ * The subset of AI SDK call settings that map onto OpenAI sampling parameters.
+ */
+type SamplingSettings = Pick<
+  Parameters<typeof generateText>[0],
+  "temperature" | "topP" | "maxTokens" | "stopSequences" | "presencePenalty" | "frequencyPenalty" | "seed"
+>;
+
+/**
+ * Model-level settings passed as the second argument when creating an AI SDK model.
+ */
+interface ModelSettings {
+  user?: string;
+  structuredOutputs?: boolean;
+}
+
+/**
+ * A provider/model pair that can serve a request, as ranked by the Router.
+ */
+interface Candidate {
+  provider: Provider;
+  model: Model;
+}
+
+/**
+ * The provider-independent parts of a chat completion request, translated once
+ * and reused for every candidate that is attempted.
+ */
+interface PreparedRequest {
+  messages: CoreMessage[];
+  tools?: ToolSet;
+  toolChoice?: ToolChoice<ToolSet>;
+  output?: ReturnType<typeof OpenAITranslator.toOutput>;
+  strictSchema: boolean;
+  stream: boolean;
+  n: number;
+  // Aborted when the client disconnects
+  abortSignal: AbortSignal;
+}
+
+/**
+ * The provider-independent parts of an embeddings request, validated once
+ * and reused for every candidate that is attempted.
+ */
+interface PreparedEmbeddingRequest {
+  values: string[];
+  dimensions?: number;
+  encodingFormat: "float" | "base64";
+}
+
 /**
  * Unified executor that handles all AI SDK v5 providers.
  * Replaces the previous provider-specific executor classes.
@@ -43,7 +109,11 @@ import { createClaudeCode } from "ai-sdk-provider-claude-code"
 export class UnifiedExecutor {
   private static instance: UnifiedExecutor;
   private usageManager: UsageManager;
-  private providerInstances: Map<string, any> = new Map();
+  private circuitBreaker: CircuitBreaker;
+  private usageLedger: UsageLedger;
+  private secretCipher: SecretCipher;
+  // Provider instances by provider ID, with the signature of the settings they were created from
+  private providerInstances: Map<string, { signature: string; instance: any }> = new Map();
 
   // Map of provider types to their factory functions
   // Adding new providers is as simple as adding a new entry here!
@@ -63,6 +133,18 @@ export class UnifiedExecutor {
     ["google-vertex", (config: GoogleVertexProviderSettings) => createVertex({
       googleAuthOptions: config.googleAuthOptions
     })],
+    // Requests are sent to the provider's deployment, see upstreamModelName
+    ["azure", (config) => createAzure({
+      resourceName: config.resourceName,
+      apiKey: config.apiKey,
+      baseURL: config.baseURL // Replaces the resourceName, e.g. for a proxy
+    })],
+    ["bedrock", (config) => createAmazonBedrock({
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+      baseURL: config.baseURL // Support custom Bedrock runtime endpoints
+    })],
     ["groq", (config: GroqProviderSettings) => createGroq({
       apiKey: config.apiKey
     })],
@@ -111,10 +193,11 @@ export class UnifiedExecutor {
       baseURL: config.baseURL!,
       apiKey: config.apiKey!,
     })],
-    ["copilot", async (config) => createOpenAICompatible({
+    ["copilot", (config) => createOpenAICompatible({
       name: config.id,
-      apiKey: await CopilotTokenManager.getBearerToken(config),
       baseURL: config.baseURL || "https://api.githubcopilot.com/",
+      // The short-lived bearer token is set per request rather than once for the cached instance
+      fetch: CopilotTokenManager.createAuthorizedFetch(config),
       headers: {
         accept: "application/json",
         "editor-version": "vscode/1.85.1",
@@ -126,13 +209,79 @@ export class UnifiedExecutor {
     })],
   ]);
 
-  private constructor(usageManager: UsageManager) {
+  // OpenAI Chat Completions parameters that a provider type cannot honour.
+  // These are stripped before the AI SDK call and reported back to the client.
+  private static readonly UNSUPPORTED_PARAMETERS = new Map<string, string[]>([
+    ["anthropic", ["presence_penalty", "frequency_penalty", "seed", "user"]],
+    ["google", ["user"]],
+    ["google-vertex", ["user"]],
+    ["bedrock", ["presence_penalty", "frequency_penalty", "seed", "user"]],
+    ["mistral", ["presence_penalty", "frequency_penalty", "user"]],
+    ["perplexity", ["seed", "user"]],
+    ["ollama", ["user"]],
+    ["qwen", ["user"]],
+    ["gemini-cli", ["presence_penalty", "frequency_penalty", "seed", "user"]],
+    ["claude-code", [
+      "temperature", "top_p", "max_tokens", "stop",
+      "presence_penalty", "frequency_penalty", "seed", "user"
+    ]],
+  ]);
+
+  // Provider types whose AI SDK implementation can constrain generation to a JSON schema.
+  // Only these can honour a `strict` json_schema response_format.
+  private static readonly NATIVE_STRUCTURED_OUTPUT = new Set<string>(["openai", "azure", "google", "google-vertex"]);
+
+  // Provider types whose AI SDK implementation has text embedding models, mapped to the
+  // embedding model setting that takes the OpenAI `dimensions` option, if there is one.
+  private static readonly EMBEDDING_DIMENSIONS_SETTING = new Map<string, string | undefined>([
+    ["openai", "dimensions"],
+    ["azure", "dimensions"],
+    ["google", "outputDimensionality"],
+    ["google-vertex", "outputDimensionality"],
+    ["bedrock", "dimensions"],
+    ["mistral", undefined],
+    ["togetherai", undefined],
+    ["openai-compatible", "dimensions"],
+    ["custom", "dimensions"],
+    ["ollama", undefined],
+    ["qwen", "dimensions"],
+  ]);
+
+  // Response header listing every provider/model tried for the request, in order
+  private static readonly ATTEMPTED_PROVIDERS_HEADER = 'X-CostRouter-Attempted-Providers';
+
+  // Upstream errors caused by the request itself, which the client gets with the upstream status.
+  // Other upstream errors, such as a 401 for a bad provider key, are the gateway's and get a 502.
+  private static readonly CLIENT_ERROR_STATUSES = new Set([400, 413, 422, 429]);
+
+  private constructor(
+    usageManager: UsageManager,
+    circuitBreaker: CircuitBreaker,
+    usageLedger: UsageLedger,
+    secretCipher: SecretCipher = SecretCipher.fromMasterKey(undefined),
+  ) {
     this.usageManager = usageManager;
+    this.circuitBreaker = circuitBreaker;
+    this.usageLedger = usageLedger;
+    this.secretCipher = secretCipher;
   }
 
-  public static initialize(usageManager: UsageManager): void {
+  /**
+   * @param secretCipher Decrypts provider secrets stored encrypted in the config. Defaults to a
+   * cipher without a master key, for configs whose secrets are in plain text.
+   */
+  public static initialize(
+    usageManager: UsageManager,
+    circuitBreaker: CircuitBreaker,
+    usageLedger: UsageLedger,
+    secretCipher?: SecretCipher,
+  ): void {
     if (!UnifiedExecutor.instance) {
-      UnifiedExecutor.instance = new UnifiedExecutor(usageManager);
+      UnifiedExecutor.instance = new UnifiedExecutor(usageManager, circuitBreaker, usageLedger, secretCipher);
+
+      ConfigManager.getInstance().events.on('configUpdated', (newConfig: AppConfig) => {
+        UnifiedExecutor.getInstance().invalidateProviders(newConfig.providers);
+      });
     }
   }
 
@@ -160,6 +309,7 @@ export class UnifiedExecutor {
 
   /**
    * Creates an AI SDK provider instance based on the provider configuration.
+   * Secrets are decrypted here, so that they are only held in plain text by the provider instance.
    */
   private async createProviderInstance(config: Provider): Promise<any> {
     const factory = UnifiedExecutor.PROVIDER_FACTORIES.get(config.type);
@@ -171,75 +321,626 @@ export class UnifiedExecutor {
       );
     }
 
-    // The factory can be async now (e.g., for Copilot)
-    return await factory(config);
+    // The factory can be async
+    return await factory(this.secretCipher.decryptSecrets(config));
+  }
+
+  /**
+   * Identifies the settings a provider instance is created from. Models and limits are left out,
+   * as changing them does not require a new instance.
+   */
+  private static providerSignature(config: Provider): string {
+    const { models: _models, limits: _limits, ...settings } = config;
+    return JSON.stringify(settings);
+  }
+
+  /**
+   * The name a model is requested under from its provider. Azure OpenAI addresses models by
+   * deployment; the schema limits an Azure provider to the one model its deployment serves.
+   */
+  private static upstreamModelName(provider: Provider, model: Model): string {
+    return provider.type === "azure" ? provider.deploymentName ?? model.name : model.name;
   }
 
   /**
    * Gets or creates a provider instance, with caching.
+   * A cached instance is replaced if the provider's settings have changed since it was created.
    */
   private async getOrCreateProvider(config: Provider): Promise<any> {
-    const cacheKey = `${config.type}-${config.id}`;
+    const signature = UnifiedExecutor.providerSignature(config);
+    const cached = this.providerInstances.get(config.id);
 
-    if (!this.providerInstances.has(cacheKey)) {
-      logger.debug(`Creating new provider instance for ${config.type}:${config.id}`);
-      const instance = await this.createProviderInstance(config);
-      this.providerInstances.set(cacheKey, instance);
+    if (cached?.signature === signature) {
+      return cached.instance;
     }
 
-    return this.providerInstances.get(cacheKey);
+    logger.debug(`Creating new provider instance for ${config.type}:${config.id}`);
+    const instance = await this.createProviderInstance(config);
+    this.providerInstances.set(config.id, { signature, instance });
+    return instance;
+  }
+
+  /**
+   * Drops the cached instances of providers that were removed or whose settings changed,
+   * so that a changed apiKey or baseURL takes effect on the provider's next request.
+   * Instances of unchanged providers are kept.
+   */
+  private invalidateProviders(providers: Provider[]): void {
+    const signatures = new Map(providers.map((p) => [p.id, UnifiedExecutor.providerSignature(p)]));
+    for (const [id, cached] of this.providerInstances) {
+      if (signatures.get(id) !== cached.signature) {
+        this.providerInstances.delete(id);
+        logger.info(`Provider '${id}' was changed or removed; its instance will be recreated when next used.`);
+      }
+    }
+  }
+
+  /**
+   * Checks the types and ranges of the OpenAI Chat Completions sampling parameters,
+   * following the OpenAI API reference. Absent and null parameters are not checked.
+   * @throws {Error} Naming the first parameter with an invalid value.
+   */
+  private static validateSamplingParameters(body: any): void {
+    const isNumberIn = (value: unknown, min: number, max: number) =>
+      typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+    const rules: [string, (value: unknown) => boolean, string][] = [
+      ["temperature", (value) => isNumberIn(value, 0, 2), "a number between 0 and 2"],
+      ["top_p", (value) => isNumberIn(value, 0, 1), "a number between 0 and 1"],
+      ["max_tokens", (value) => Number.isInteger(value) && (value as number) > 0, "a positive integer"],
+      ["max_completion_tokens", (value) => Number.isInteger(value) && (value as number) > 0, "a positive integer"],
+      ["stop", (value) => typeof value === "string" ||
+        (Array.isArray(value) && value.every((item) => typeof item === "string")), "a string or an array of strings"],
+      ["presence_penalty", (value) => isNumberIn(value, -2, 2), "a number between -2 and 2"],
+      ["frequency_penalty", (value) => isNumberIn(value, -2, 2), "a number between -2 and 2"],
+      ["seed", (value) => Number.isSafeInteger(value), "an integer"],
+      ["user", (value) => typeof value === "string", "a string"],
+    ];
+
+    for (const [name, isValid, expected] of rules) {
+      const value = body[name];
+      if (value !== undefined && value !== null && !isValid(value)) {
+        throw new Error(`${name} must be ${expected}.`);
+      }
+    }
+  }
+
+  /**
+   * Maps the standard OpenAI Chat Completions sampling parameters onto AI SDK call settings.
+   * The parameters must have been checked with validateSamplingParameters.
+   * Parameters the provider type cannot honour are left out and returned in `unsupported`.
+   */
+  private buildSamplingSettings(body: any, provider: Provider): {
+    settings: SamplingSettings;
+    modelSettings?: ModelSettings;
+    unsupported: string[];
+  } {
+    const requested: Record<string, unknown> = {
+      temperature: body.temperature,
+      top_p: body.top_p,
+      // max_completion_tokens is the newer name for max_tokens in the OpenAI API
+      max_tokens: body.max_completion_tokens ?? body.max_tokens,
+      stop: body.stop,
+      presence_penalty: body.presence_penalty,
+      frequency_penalty: body.frequency_penalty,
+      seed: body.seed,
+      user: body.user,
+    };
+
+    const unsupportedForType = UnifiedExecutor.UNSUPPORTED_PARAMETERS.get(provider.type) ?? [];
+    const unsupported: string[] = [];
+    for (const [name, value] of Object.entries(requested)) {
+      if (value === undefined || value === null) {
+        delete requested[name];
+      } else if (unsupportedForType.includes(name)) {
+        unsupported.push(name);
+        delete requested[name];
+      }
+    }
+
+    const settings: SamplingSettings = {};
+    if (requested.temperature !== undefined) settings.temperature = requested.temperature as number;
+    if (requested.top_p !== undefined) settings.topP = requested.top_p as number;
+    if (requested.max_tokens !== undefined) settings.maxTokens = requested.max_tokens as number;
+    if (requested.stop !== undefined) {
+      settings.stopSequences = Array.isArray(requested.stop) ? requested.stop as string[] : [requested.stop as string];
+    }
+    if (requested.presence_penalty !== undefined) settings.presencePenalty = requested.presence_penalty as number;
+    if (requested.frequency_penalty !== undefined) settings.frequencyPenalty = requested.frequency_penalty as number;
+    if (requested.seed !== undefined) settings.seed = requested.seed as number;
+
+    // `user` is a model-level setting in the AI SDK rather than a call setting
+    const modelSettings = requested.user !== undefined ? { user: requested.user as string } : undefined;
+
+    return { settings, modelSettings, unsupported };
   }
 
   /**
    * Main execution method that handles requests for any provider type.
+   * Candidates ranked by the Router are tried in order: if a call fails with a retryable
+   * error before anything has been sent to the client, the next candidate is used.
    */
   public async execute(req: Request, res: Response): Promise<void> {
     const chosenProvider = res.locals.chosenProvider as Provider;
     const chosenModel = res.locals.chosenModel as Model;
+    const candidates: Candidate[] = res.locals.candidates ?? [{ provider: chosenProvider, model: chosenModel }];
 
     logger.debug(
       { provider: chosenProvider, model: chosenModel },
       `Executing request with ${chosenProvider.type} provider`
     );
 
+    // Extract request data
+    const { stream = false, n = 1, response_format: responseFormat } = req.body;
+
+    const strictSchema = responseFormat?.type === 'json_schema' && responseFormat.json_schema?.strict === true;
+    const eligible = strictSchema
+      ? candidates.filter(({ provider }) => UnifiedExecutor.NATIVE_STRUCTURED_OUTPUT.has(provider.type))
+      : candidates;
+    if (eligible.length === 0) {
+      getResponseFormat(res).sendError(
+        res,
+        400,
+        `Provider '${chosenProvider.id}' (${chosenProvider.type}) cannot honour a strict json_schema response_format.`
+      );
+      return;
+    }
+
     try {
-      // Get or create the AI SDK provider instance
-      const providerInstance = await this.getOrCreateProvider(chosenProvider);
+      UnifiedExecutor.validateSamplingParameters(req.body);
+    } catch (error) {
+      getResponseFormat(res).sendError(res, 400, `Invalid parameters: ${getErrorMessage(error)}`);
+      return;
+    }
+
+    let messages: CoreMessage[];
+    try {
+      messages = OpenAITranslator.toCoreMessages(req.body.messages ?? []);
+    } catch (error) {
+      getResponseFormat(res).sendError(res, 400, `Invalid messages: ${getErrorMessage(error)}`);
+      return;
+    }
+
+    let tools: ToolSet | undefined;
+    let toolChoice: ToolChoice<ToolSet> | undefined;
+    try {
+      tools = OpenAITranslator.toToolSet(req.body.tools);
+      toolChoice = OpenAITranslator.toToolChoice(req.body.tool_choice, tools);
+    } catch (error) {
+      getResponseFormat(res).sendError(res, 400, `Invalid tools: ${getErrorMessage(error)}`);
+      return;
+    }
+
+    let output: ReturnType<typeof OpenAITranslator.toOutput>;
+    try {
+      output = OpenAITranslator.toOutput(responseFormat);
+    } catch (error) {
+      getResponseFormat(res).sendError(res, 400, `Invalid response_format: ${getErrorMessage(error)}`);
+      return;
+    }
 
-      // Create the model using the provider
-      const model = providerInstance(chosenModel.name);
+    // The request's own 'close' event fires as soon as its body has been read,
+    // so a disconnect is detected by the response closing before it was ended
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
 
-      // Extract request data
-      const { messages, stream = false, n = 1 } = req.body;
+    const request: PreparedRequest = {
+      messages,
+      tools,
+      toolChoice,
+      output,
+      strictSchema,
+      stream,
+      n,
+      abortSignal: abortController.signal,
+    };
 
-      // Execute the request using AI SDK
-      if (stream) {
-        // Note: Streaming doesn't support multiple choices (n > 1) in OpenAI API
-        if (n > 1) {
-          logger.warn(`Streaming requests don't support n > 1. Using n = 1 instead of ${n}`);
+    // Normally assigned by the request logger; ledger records need one either way
+    res.locals.requestId ??= randomUUID();
+
+    await this.executeWithFailover(
+      req,
+      res,
+      eligible,
+      (provider, model, attempted, startedAt) =>
+        this.executeWithCandidate(req, res, provider, model, request, attempted, startedAt),
+      abortController.signal,
+    );
+  }
+
+  /**
+   * Handles OpenAI embeddings requests for any provider type with text embedding models.
+   * Candidates are filtered to those that can embed (with the requested `dimensions`, if any)
+   * and tried in order, like chat completions.
+   */
+  public async executeEmbeddings(req: Request, res: Response): Promise<void> {
+    const chosenProvider = res.locals.chosenProvider as Provider;
+    const candidates: Candidate[] = res.locals.candidates ?? [{ provider: chosenProvider, model: res.locals.chosenModel }];
+    const { input, dimensions, encoding_format: encodingFormat = "float" } = req.body;
+
+    const values = typeof input === "string" ? [input] : input;
+    if (!Array.isArray(values) || values.length === 0 || values.some((value) => typeof value !== "string")) {
+      getResponseFormat(res).sendError(
+        res,
+        400,
+        "input must be a string or a non-empty array of strings. Token arrays are not supported."
+      );
+      return;
+    }
+    if (encodingFormat !== "float" && encodingFormat !== "base64") {
+      getResponseFormat(res).sendError(res, 400, "encoding_format must be 'float' or 'base64'.");
+      return;
+    }
+    if (dimensions !== undefined && (!Number.isInteger(dimensions) || dimensions < 1)) {
+      getResponseFormat(res).sendError(res, 400, "dimensions must be a positive integer.");
+      return;
+    }
+
+    const eligible = candidates.filter(({ provider }) =>
+      UnifiedExecutor.EMBEDDING_DIMENSIONS_SETTING.has(provider.type) &&
+      (dimensions === undefined || UnifiedExecutor.EMBEDDING_DIMENSIONS_SETTING.get(provider.type) !== undefined)
+    );
+    if (eligible.length === 0) {
+      getResponseFormat(res).sendError(
+        res,
+        400,
+        `Provider '${chosenProvider.id}' (${chosenProvider.type}) does not support embeddings${dimensions !== undefined ? " with dimensions" : ""}.`
+      );
+      return;
+    }
+
+    const request: PreparedEmbeddingRequest = { values, dimensions, encodingFormat };
+
+    // Normally assigned by the request logger; ledger records need one either way
+    res.locals.requestId ??= randomUUID();
+
+    await this.executeWithFailover(req, res, eligible, (provider, model, attempted, startedAt) =>
+      this.embedWithCandidate(res, provider, model, request, attempted, startedAt)
+    );
+  }
+
+  /**
+   * Tries candidates in order until one serves the request. A candidate whose circuit does not
+   * admit the request, because its half-open circuit is already probing, is skipped.
+   * A failed attempt is recorded, and the next candidate is tried if the error is retryable and
+   * nothing has been sent to the client yet; otherwise the client gets the error, see sendUpstreamError.
+   * @param attempt Serves the request with a single candidate, throwing if it fails.
+   * @param abortSignal Aborted when the client disconnects. A call it aborts is not a provider failure.
+   */
+  private async executeWithFailover(
+    req: Request,
+    res: Response,
+    candidates: Candidate[],
+    attempt: (provider: Provider, model: Model, attempted: string[], startedAt: number) => Promise<void>,
+    abortSignal?: AbortSignal,
+  ): Promise<void> {
+    const attempted: string[] = [];
+    let lastError: unknown;
+    for (const { provider, model } of candidates) {
+      if (!this.circuitBreaker.startRequest(provider.id, model.name)) {
+        logger.debug(`Skipping ${provider.id}/${model.name} because its circuit is already probing.`);
+        continue;
+      }
+      if (lastError !== undefined) {
+        logger.warn(
+          `AI request failed for ${attempted[attempted.length - 1]}: ${getErrorMessage(lastError)}. Failing over to ${provider.id}/${model.name}.`
+        );
+      }
+      attempted.push(`${provider.id}/${model.name}`);
+      const startedAt = Date.now();
+      try {
+        await attempt(provider, model, attempted, startedAt);
+        if (attempted.length > 1) {
+          logger.info(`Request for model '${req.body.model}' served after failover: ${attempted.join(' -> ')}`);
         }
-        const result = streamText({ model: model as any, messages });
-        this.handleStreamingResponse(res, chosenProvider, chosenModel, result);
-      } else {
-        // Handle multiple choices for non-streaming requests
-        if (n > 1) {
-          const results = await Promise.all(
-            Array.from({ length: n }, () => generateText({ model: model as any, messages }))
-          );
-          this.handleMultipleChoicesResponse(res, chosenProvider, chosenModel, results);
-        } else {
-          const result = await generateText({ model: model as any, messages });
-          this.handleNonStreamingResponse(res, chosenProvider, chosenModel, result);
+        return;
+      } catch (error) {
+        if (abortSignal?.aborted) {
+          logger.info(`Client disconnected before ${provider.id}/${model.name} responded.`);
+          this.circuitBreaker.abandonRequest(provider.id, model.name);
+          this.recordRequest(res, provider, model, startedAt, { error: "Client disconnected" });
+          return;
+        }
+        this.circuitBreaker.recordFailure(provider.id, model.name, error);
+        this.applyRateLimitHeaders(provider, model, UnifiedExecutor.getErrorResponseHeaders(error));
+        this.recordRequest(res, provider, model, startedAt, { error: getErrorMessage(error) });
+        lastError = error;
+        if (res.headersSent || !isRetryableError(error)) {
+          break;
         }
       }
-    } catch (error) {
-      logger.error(
-        `AI request failed for provider ${chosenProvider.id}: ${getErrorMessage(error)}`
+    }
+
+    if (lastError === undefined) {
+      logger.error(`No provider for model '${req.body.model}' could be tried because their circuits are already probing.`);
+      getResponseFormat(res).sendError(
+        res,
+        503,
+        `All providers for model '${req.body.model}' are currently unavailable. Please try again later.`
       );
-      res.status(500).json({ error: "AI request failed" });
+      return;
+    }
+    logger.error(
+      `AI request failed for ${attempted[attempted.length - 1]}: ${getErrorMessage(lastError)} (attempted: ${attempted.join(' -> ')})`
+    );
+    if (!res.headersSent) {
+      res.setHeader(UnifiedExecutor.ATTEMPTED_PROVIDERS_HEADER, attempted.join(', '));
+      UnifiedExecutor.sendUpstreamError(res, lastError);
     }
   }
 
+  /**
+   * Embeds the request's input with a single provider/model, tracks its usage and cost,
+   * and sends the response in the OpenAI embeddings format.
+   * Throws, without writing to the response, if the upstream call fails.
+   */
+  private async embedWithCandidate(
+    res: Response,
+    provider: Provider,
+    model: Model,
+    request: PreparedEmbeddingRequest,
+    attempted: string[],
+    startedAt: number,
+  ): Promise<void> {
+    const { values, dimensions, encodingFormat } = request;
+
+    const providerInstance = await this.getOrCreateProvider(provider);
+    const dimensionsSetting = UnifiedExecutor.EMBEDDING_DIMENSIONS_SETTING.get(provider.type);
+    const embeddingModel = dimensions !== undefined && dimensionsSetting
+      ? providerInstance.textEmbeddingModel(UnifiedExecutor.upstreamModelName(provider, model), { [dimensionsSetting]: dimensions })
+      : providerInstance.textEmbeddingModel(UnifiedExecutor.upstreamModelName(provider, model));
+
+    // embedMany splits the values into as many upstream calls as the model's batch size requires
+    const result = await embedMany({ model: embeddingModel, values });
+    this.circuitBreaker.recordSuccess(provider.id, model.name);
+
+    const usageForManager = { promptTokens: result.usage.tokens, completionTokens: 0 };
+    const cost = this.calculateCost(provider, model, usageForManager);
+    this.usageManager.consume(provider.id, model.name, usageForManager, cost ?? 0, this.getApiKey(res)?.id);
+    this.recordRequest(res, provider, model, startedAt, { ...usageForManager, cost: cost ?? 0 });
+
+    // OpenAI clients decode base64 embeddings as little-endian float32 arrays
+    const response: Omit<CreateEmbeddingResponse, "data"> & {
+      data: { object: "embedding"; index: number; embedding: number[] | string }[];
+    } = {
+      object: "list",
+      data: result.embeddings.map((embedding, index) => ({
+        object: "embedding",
+        index,
+        embedding: encodingFormat === "base64"
+          ? Buffer.from(new Float32Array(embedding).buffer).toString("base64")
+          : embedding,
+      })),
+      model: model.mappedName || model.name,
+      usage: { prompt_tokens: result.usage.tokens, total_tokens: result.usage.tokens },
+    };
+
+    res.setHeader(UnifiedExecutor.ATTEMPTED_PROVIDERS_HEADER, attempted.join(', '));
+    res.json(response);
+  }
+
+  /**
+   * Runs a prepared request against a single provider/model and sends the response.
+   * Throws, without writing to the response, if the upstream call fails before any
+   * output is available, so the caller can fail over to another candidate.
+   */
+  private async executeWithCandidate(
+    req: Request,
+    res: Response,
+    provider: Provider,
+    model: Model,
+    request: PreparedRequest,
+    attempted: string[],
+    startedAt: number,
+  ): Promise<void> {
+    const { messages, tools, toolChoice, output, strictSchema, stream, n, abortSignal } = request;
+
+    // Get or create the AI SDK provider instance
+    const providerInstance = await this.getOrCreateProvider(provider);
+    const { settings, modelSettings, unsupported } = this.buildSamplingSettings(req.body, provider);
+
+    // OpenAI models only send the schema itself when structured outputs are enabled
+    const allModelSettings: ModelSettings = {
+      ...modelSettings,
+      ...(strictSchema && ["openai", "azure"].includes(provider.type) && { structuredOutputs: true }),
+    };
+
+    // Create the model using the provider
+    const modelName = UnifiedExecutor.upstreamModelName(provider, model);
+    const languageModel = Object.keys(allModelSettings).length > 0
+      ? providerInstance(modelName, allModelSettings)
+      : providerInstance(modelName);
+
+    // Tools are declared without an execute function, so the AI SDK stops after the
+    // first step and hands the tool calls back for the client to run.
+    const callOptions = {
+      model: languageModel as any,
+      messages,
+      ...settings,
+      ...(tools && { tools }),
+      ...(toolChoice && { toolChoice }),
+      ...(output && { experimental_output: output }),
+    };
+
+    // Headers describing how the request was served, set once a response is certain
+    const setRoutingHeaders = () => {
+      res.setHeader(UnifiedExecutor.ATTEMPTED_PROVIDERS_HEADER, attempted.join(', '));
+      if (unsupported.length > 0) {
+        logger.warn(
+          `Provider ${provider.id} (${provider.type}) does not support parameters: ${unsupported.join(', ')}. They were not forwarded.`
+        );
+        res.setHeader('X-CostRouter-Unsupported-Parameters', unsupported.join(', '));
+      }
+    };
+
+    // Execute the request using AI SDK
+    if (stream) {
+      // Note: Streaming doesn't support multiple choices (n > 1) in OpenAI API
+      if (n > 1) {
+        logger.warn(`Streaming requests don't support n > 1. Using n = 1 instead of ${n}`);
+      }
+      // Aborting stops the upstream generation when the client disconnects
+      const result = streamText({ ...callOptions, abortSignal, ...(tools && { toolCallStreaming: true }) });
+      const parts = await this.openStream(result.fullStream);
+      setRoutingHeaders();
+      await this.handleStreamingResponse(req, res, provider, model, result, parts, startedAt, abortSignal);
+    } else {
+      // Handle multiple choices for non-streaming requests
+      if (n > 1) {
+        const results = await Promise.all(
+          Array.from({ length: n }, () => generateText(callOptions))
+        );
+        this.circuitBreaker.recordSuccess(provider.id, model.name);
+        results.forEach((result) => this.applyRateLimitHeaders(provider, model, result.response?.headers));
+        setRoutingHeaders();
+        this.handleMultipleChoicesResponse(res, provider, model, results, startedAt, output !== undefined);
+      } else {
+        const result = await generateText(callOptions);
+        this.circuitBreaker.recordSuccess(provider.id, model.name);
+        this.applyRateLimitHeaders(provider, model, result.response?.headers);
+        setRoutingHeaders();
+        this.handleNonStreamingResponse(res, provider, model, result, startedAt, output !== undefined);
+      }
+    }
+  }
+
+  /**
+   * Waits for the first part of an AI SDK stream. Connection and HTTP errors arrive as
+   * the first part, so they are thrown here, before any bytes have been sent to the client.
+   * @returns An iterable that replays the first part followed by the rest of the stream.
+   */
+  private async openStream(
+    fullStream: AsyncIterable<TextStreamPart<any>>,
+  ): Promise<AsyncIterable<TextStreamPart<any>>> {
+    const iterator = fullStream[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    if (!first.done && first.value.type === 'error') {
+      throw first.value.error;
+    }
+    return {
+      async *[Symbol.asyncIterator]() {
+        if (first.done) return;
+        yield first.value;
+        for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+          yield next.value;
+        }
+      }
+    };
+  }
+
+  /**
+   * Marks the provider/model as exhausted in the UsageManager if the upstream's rate-limit
+   * headers say it is out of capacity, so the Router avoids it until the reset time.
+   */
+  private applyRateLimitHeaders(provider: Provider, model: Model, headers?: Record<string, string>): void {
+    const exhaustedUntil = RateLimitHeaders.getExhaustedUntil(headers);
+    if (exhaustedUntil !== undefined) {
+      this.usageManager.markUpstreamExhausted(provider.id, model.name, exhaustedUntil);
+    }
+  }
+
+  /**
+   * Extracts the upstream response headers from a failed AI SDK call, if it got that far.
+   */
+  private static getErrorResponseHeaders(error: unknown): Record<string, string> | undefined {
+    // The AI SDK wraps the final failure after exhausting its own retries
+    const cause = (error as { lastError?: unknown } | undefined)?.lastError ?? error;
+    return (cause as { responseHeaders?: Record<string, string> } | undefined)?.responseHeaders;
+  }
+
+  /**
+   * Returns the error from the upstream call itself, unwrapping the AI SDK's retry error.
+   */
+  private static getUpstreamError(error: unknown): unknown {
+    return (error as { lastError?: unknown } | undefined)?.lastError ?? error;
+  }
+
+  /**
+   * Answers a request whose last attempt failed. Upstream errors caused by the request, such as
+   * an exceeded context length or a rate limit, are passed on with their status and a sanitized
+   * message, and a 429 with its Retry-After. Other upstream errors get a 502, and failures
+   * without an upstream response a 500.
+   */
+  private static sendUpstreamError(res: Response, error: unknown): void {
+    const upstreamError = UnifiedExecutor.getUpstreamError(error);
+    const status = (upstreamError as { statusCode?: unknown } | undefined)?.statusCode;
+    if (typeof status !== "number") {
+      getResponseFormat(res).sendError(res, 500, "AI request failed");
+      return;
+    }
+    if (!UnifiedExecutor.CLIENT_ERROR_STATUSES.has(status)) {
+      getResponseFormat(res).sendError(res, 502, "Upstream provider request failed");
+      return;
+    }
+
+    if (status === 429) {
+      const until = RateLimitHeaders.getExhaustedUntil(UnifiedExecutor.getErrorResponseHeaders(error));
+      if (until !== undefined) {
+        res.setHeader("Retry-After", String(Math.ceil((until - Date.now()) / 1000)));
+      }
+    }
+    getResponseFormat(res).sendError(
+      res,
+      status,
+      `Upstream provider rejected the request: ${UnifiedExecutor.sanitizeUpstreamMessage(getErrorMessage(upstreamError))}`,
+    );
+  }
+
+  /**
+   * Makes an upstream error message fit to show to the client. Providers may quote credentials
+   * in their messages, so anything that looks like a key or token is masked.
+   */
+  private static sanitizeUpstreamMessage(message: string): string {
+    const masked = message
+      .replace(/\b(sk|gsk|xai|pk)-\S+/g, "[REDACTED]")
+      .replace(/[A-Za-z0-9_\-]{32,}/g, "[REDACTED]")
+      .replace(/\s+/g, " ")
+      .trim();
+    return masked.length > 500 ? `${masked.slice(0, 500)}...` : masked;
+  }
+
+  /**
+   * Returns the gateway API key the request was authenticated with, if any.
+   */
+  private getApiKey(res: Response): ApiKey | undefined {
+    return res.locals.apiKey;
+  }
+
+  /**
+   * Appends the outcome of a provider attempt to the usage ledger.
+   * Attempts with an `error` are recorded as failed, with no token usage.
+   */
+  private recordRequest(
+    res: Response,
+    provider: Provider,
+    model: Model,
+    startedAt: number,
+    outcome: { promptTokens?: number; completionTokens?: number; cost?: number; error?: string },
+  ): void {
+    // A count the provider left out, such as NaN, must not get the whole record rejected
+    const finiteOrZero = (value?: number) => (value !== undefined && Number.isFinite(value) ? value : 0);
+    const promptTokens = finiteOrZero(outcome.promptTokens);
+    const completionTokens = finiteOrZero(outcome.completionTokens);
+    this.usageLedger.append({
+      timestamp: new Date().toISOString(),
+      requestId: res.locals.requestId,
+      providerId: provider.id,
+      model: model.name,
+      mappedModel: model.mappedName || model.name,
+      apiKey: this.getApiKey(res)?.name,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: finiteOrZero(outcome.cost),
+      latencyMs: Date.now() - startedAt,
+      status: "error" in outcome ? "error" : "success",
+      error: outcome.error,
+    });
+  }
+
   /**
    * Calculates the cost of a request based on model pricing and usage.
    * Uses PriceData override logic: model.pricing if available, otherwise PriceData lookup.
@@ -285,61 +986,109 @@ export class UnifiedExecutor {
 
   /**
    * Handles streaming responses and usage tracking.
-   * Converts AI SDK stream to OpenAI API format.
+   * Converts AI SDK stream to OpenAI API chunks, which the response format sends on.
+   * If the client disconnects, the upstream call is aborted and its partial usage is recorded.
    */
   private async handleStreamingResponse(
+    req: Request,
     res: Response,
     provider: Provider,
     model: Model,
     result: StreamTextResult<any, any>,
+    parts: AsyncIterable<TextStreamPart<any>>,
+    startedAt: number,
+    abortSignal: AbortSignal,
   ): Promise<void> {
-    // Set up Server-Sent Events headers
-    res.writeHead(200, {
-      'Content-Type': 'text/plain; charset=utf-8',
-      'Transfer-Encoding': 'chunked',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive'
-    });
+    const stream = getResponseFormat(res).startStream(res);
 
     const streamId = `chatcmpl-${Date.now()}`;
     const created = Math.floor(Date.now() / 1000);
     const modelName = model.mappedName || model.name;
 
-    // Send initial chunk with role
-    const initialChunk: ChatCompletionChunk = {
-      id: streamId,
-      object: 'chat.completion.chunk',
-      created,
-      model: modelName,
-      choices: [{
-        index: 0,
-        delta: { role: 'assistant' },
-        finish_reason: null,
-        logprobs: null
-      }]
+    const writeChunk = (delta: ChatCompletionChunk.Choice.Delta) => {
+      const chunk: ChatCompletionChunk = {
+        id: streamId,
+        object: 'chat.completion.chunk',
+        created,
+        model: modelName,
+        choices: [{
+          index: 0,
+          delta,
+          finish_reason: null,
+          logprobs: null
+        }]
+      };
+      stream.writeChunk(chunk);
     };
-    res.write(`data: ${JSON.stringify(initialChunk)}\n\n`);
+
+    // Send initial chunk with role
+    writeChunk({ role: 'assistant' });
+
+    // The output generated so far, to estimate partial usage from if the client disconnects
+    let streamedText = '';
 
     try {
-      // Stream the text content
-      for await (const textDelta of result.textStream) {
-        const chunk: ChatCompletionChunk = {
-          id: streamId,
-          object: 'chat.completion.chunk',
-          created,
-          model: modelName,
-          choices: [{
-            index: 0,
-            delta: { content: textDelta },
-            finish_reason: null,
-            logprobs: null
-          }]
-        };
-        res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      // Stream text and tool call deltas. Each tool call gets an index in the order
+      // it starts, which is how OpenAI clients reassemble incremental arguments.
+      const toolCallIndexes = new Map<string, number>();
+      const argumentsStreamed = new Set<string>();
+      const startToolCall = (toolCallId: string, toolName: string): number => {
+        const index = toolCallIndexes.size;
+        toolCallIndexes.set(toolCallId, index);
+        writeChunk({
+          tool_calls: [{ index, id: toolCallId, type: 'function', function: { name: toolName, arguments: '' } }]
+        });
+        return index;
+      };
+
+      for await (const part of parts) {
+        switch (part.type) {
+          case 'text-delta':
+            streamedText += part.textDelta;
+            writeChunk({ content: part.textDelta });
+            break;
+          case 'tool-call-streaming-start':
+            startToolCall(part.toolCallId, part.toolName);
+            break;
+          case 'tool-call-delta': {
+            const index = toolCallIndexes.get(part.toolCallId) ?? startToolCall(part.toolCallId, part.toolName);
+            argumentsStreamed.add(part.toolCallId);
+            streamedText += part.argsTextDelta;
+            writeChunk({ tool_calls: [{ index, function: { arguments: part.argsTextDelta } }] });
+            break;
+          }
+          case 'tool-call': {
+            // Providers that don't stream tool calls only emit the completed call
+            if (argumentsStreamed.has(part.toolCallId)) break;
+            const index = toolCallIndexes.get(part.toolCallId) ?? startToolCall(part.toolCallId, part.toolName);
+            const args = OpenAITranslator.stringifyArguments(part.args);
+            streamedText += args;
+            writeChunk({ tool_calls: [{ index, function: { arguments: args } }] });
+            break;
+          }
+          case 'error':
+            throw part.error;
+        }
+      }
+
+      // An aborted stream may end without an error, and never settles its finish reason and usage
+      if (abortSignal.aborted) {
+        this.circuitBreaker.abandonRequest(provider.id, model.name);
+        this.recordPartialUsage(req, res, provider, model, streamedText, startedAt);
+        return;
       }
 
       // Wait for the stream to complete and get the finish reason
       const finishReason = await result.finishReason;
+      // Some formats report usage in their final events; failing to read it does not fail the stream
+      const usage = await Promise.resolve(result.usage).catch((error: any) => {
+        logger.error(`Failed to consume usage for streaming request: ${getErrorMessage(error)}`);
+        return undefined;
+      });
+      const usageForManager = this.estimateMissingUsage(req, model, usage && {
+        promptTokens: (usage as any).promptTokens ?? (usage as any).inputTokens,
+        completionTokens: (usage as any).completionTokens ?? (usage as any).outputTokens,
+      }, streamedText);
 
       // Send final chunk with finish_reason
       const finalChunk: ChatCompletionChunk = {
@@ -350,39 +1099,88 @@ export class UnifiedExecutor {
         choices: [{
           index: 0,
           delta: {},
-          finish_reason: finishReason as ChatCompletionChunk.Choice['finish_reason'],
+          finish_reason: OpenAITranslator.toOpenAIFinishReason(finishReason),
           logprobs: null
         }]
       };
-      res.write(`data: ${JSON.stringify(finalChunk)}\n\n`);
-      res.write('data: [DONE]\n\n');
-      res.end();
+      stream.writeChunk(finalChunk);
+      stream.end({
+        prompt_tokens: usageForManager.promptTokens,
+        completion_tokens: usageForManager.completionTokens,
+        total_tokens: usageForManager.promptTokens + usageForManager.completionTokens,
+      });
+      this.circuitBreaker.recordSuccess(provider.id, model.name);
 
       // Handle usage tracking
-      result.usage
-        .then((usage: any) => {
-          const cost = this.calculateCost(provider, model, usage);
-          // Convert usage format for UsageManager compatibility
-          const usageForManager = {
-            promptTokens: usage.promptTokens ?? usage.inputTokens ?? 0,
-            completionTokens: usage.completionTokens ?? usage.outputTokens ?? 0,
-          };
-          // Use the real model name for usage tracking
-          // Use 0 as fallback if cost is undefined (pricing data not available)
-          this.usageManager.consume(provider.id, model.name, usageForManager, cost ?? 0);
-        })
+      const cost = this.calculateCost(provider, model, usageForManager);
+      // Use the real model name for usage tracking
+      // Use 0 as fallback if cost is undefined (pricing data not available)
+      this.usageManager.consume(provider.id, model.name, usageForManager, cost ?? 0, this.getApiKey(res)?.id);
+      this.recordRequest(res, provider, model, startedAt, { ...usageForManager, cost: cost ?? 0 });
+
+      Promise.resolve(result.response)
+        .then((response) => this.applyRateLimitHeaders(provider, model, response?.headers))
         .catch((error: any) => {
-          logger.error(`Failed to consume usage for streaming request: ${getErrorMessage(error)}`);
+          logger.debug(`Failed to read rate-limit headers for streaming request: ${getErrorMessage(error)}`);
         });
 
     } catch (error) {
+      if (abortSignal.aborted) {
+        this.circuitBreaker.abandonRequest(provider.id, model.name);
+        this.recordPartialUsage(req, res, provider, model, streamedText, startedAt);
+        return;
+      }
       logger.error(`Streaming error: ${getErrorMessage(error)}`);
-      res.write(`data: {"error": "Streaming failed"}\n\n`);
-      res.write('data: [DONE]\n\n');
-      res.end();
+      this.circuitBreaker.recordFailure(provider.id, model.name, error);
+      this.recordRequest(res, provider, model, startedAt, { error: getErrorMessage(error) });
+      stream.fail("Streaming failed");
     }
   }
 
+  /**
+   * Records the usage of a stream the client disconnected from. An aborted upstream call
+   * reports no usage, so it is estimated from the prompt and the output generated so far.
+   */
+  private recordPartialUsage(
+    req: Request,
+    res: Response,
+    provider: Provider,
+    model: Model,
+    streamedText: string,
+    startedAt: number,
+  ): void {
+    const usage = this.estimateMissingUsage(req, model, undefined, streamedText);
+    const cost = this.calculateCost(provider, model, usage);
+    logger.info(
+      `Client disconnected from stream of ${provider.id}/${model.name}. Recording estimated usage: ${usage.promptTokens} prompt, ${usage.completionTokens} completion tokens.`
+    );
+    this.usageManager.consume(provider.id, model.name, usage, cost ?? 0, this.getApiKey(res)?.id);
+    this.recordRequest(res, provider, model, startedAt, { ...usage, cost: cost ?? 0, error: "Client disconnected" });
+  }
+
+  /**
+   * Fills in the token counts a stream did not report by estimating them from the prompt and
+   * the output. OpenAI-compatible providers report NaN when the upstream leaves usage out of
+   * the stream, and an aborted or failed stream reports none at all.
+   */
+  private estimateMissingUsage(
+    req: Request,
+    model: Model,
+    usage: { promptTokens?: number; completionTokens?: number } | undefined,
+    outputText: string,
+  ): { promptTokens: number; completionTokens: number } {
+    const promptTokens = usage?.promptTokens;
+    const completionTokens = usage?.completionTokens;
+    return {
+      promptTokens: promptTokens !== undefined && Number.isFinite(promptTokens)
+        ? promptTokens
+        : TokenEstimator.countPromptTokens(req.body, model.name),
+      completionTokens: completionTokens !== undefined && Number.isFinite(completionTokens)
+        ? completionTokens
+        : TokenEstimator.countTextTokens(outputText, model.name),
+    };
+  }
+
   /**
    * Handles non-streaming responses and usage tracking.
    * Preserved from BaseExecutor.
@@ -392,6 +1190,8 @@ export class UnifiedExecutor {
     provider: Provider,
     model: Model,
     result: GenerateTextResult<any, any>,
+    startedAt: number,
+    structuredOutput: boolean = false,
   ): void {
     const cost = this.calculateCost(provider, model, result.usage);
     // Convert usage format for UsageManager compatibility
@@ -401,7 +1201,12 @@ export class UnifiedExecutor {
     };
     // Use the real model name for usage tracking
     // Use 0 as fallback if cost is undefined (pricing data not available)
-    this.usageManager.consume(provider.id, model.name, usageForManager, cost ?? 0);
+    this.usageManager.consume(provider.id, model.name, usageForManager, cost ?? 0, this.getApiKey(res)?.id);
+    this.recordRequest(res, provider, model, startedAt, { ...usageForManager, cost: cost ?? 0 });
+
+    if (structuredOutput && this.rejectInvalidOutput(res, [result])) {
+      return;
+    }
 
     // Format response to match OpenAI API format using official types
     const openAIResponse: ChatCompletion = {
@@ -411,12 +1216,8 @@ export class UnifiedExecutor {
       model: model.mappedName || model.name, // Use the mapped name that the client requested
       choices: [{
         index: 0,
-        message: {
-          role: "assistant",
-          content: result.text,
-          refusal: null
-        },
-        finish_reason: result.finishReason as ChatCompletion.Choice['finish_reason'],
+        message: this.toAssistantMessage(result),
+        finish_reason: OpenAITranslator.toOpenAIFinishReason(result.finishReason),
         logprobs: null
       }],
       usage: {
@@ -426,7 +1227,7 @@ export class UnifiedExecutor {
       }
     };
 
-    res.json(openAIResponse);
+    getResponseFormat(res).sendCompletion(res, openAIResponse);
   }
 
   /**
@@ -438,6 +1239,8 @@ export class UnifiedExecutor {
     provider: Provider,
     model: Model,
     results: GenerateTextResult<any, any>[],
+    startedAt: number,
+    structuredOutput: boolean = false,
   ): void {
     // Calculate total cost and usage across all results
     let totalCost = 0;
@@ -461,7 +1264,12 @@ export class UnifiedExecutor {
       promptTokens: totalPromptTokens,
       completionTokens: totalCompletionTokens,
     };
-    this.usageManager.consume(provider.id, model.name, usageForManager, totalCost);
+    this.usageManager.consume(provider.id, model.name, usageForManager, totalCost, this.getApiKey(res)?.id);
+    this.recordRequest(res, provider, model, startedAt, { ...usageForManager, cost: totalCost });
+
+    if (structuredOutput && this.rejectInvalidOutput(res, results)) {
+      return;
+    }
 
     // Format response to match OpenAI API format with multiple choices
     const openAIResponse: ChatCompletion = {
@@ -471,12 +1279,8 @@ export class UnifiedExecutor {
       model: model.mappedName || model.name,
       choices: results.map((result, index) => ({
         index,
-        message: {
-          role: "assistant",
-          content: result.text,
-          refusal: null
-        },
-        finish_reason: result.finishReason as ChatCompletion.Choice['finish_reason'],
+        message: this.toAssistantMessage(result),
+        finish_reason: OpenAITranslator.toOpenAIFinishReason(result.finishReason),
         logprobs: null
       })),
       usage: {
@@ -486,12 +1290,48 @@ export class UnifiedExecutor {
       }
     };
 
-    res.json(openAIResponse);
+    getResponseFormat(res).sendCompletion(res, openAIResponse);
+  }
+
+  /**
+   * Checks that each result parses (and validates) as the requested structured output.
+   * Sends a 502 and returns true if any of them does not.
+   */
+  private rejectInvalidOutput(res: Response, results: GenerateTextResult<any, any>[]): boolean {
+    for (const result of results) {
+      try {
+        // Accessing the output runs the AI SDK's JSON parsing and schema validation
+        void result.experimental_output;
+      } catch (error) {
+        logger.warn(`Model response failed response_format validation: ${getErrorMessage(error)}`);
+        getResponseFormat(res).sendError(
+          res,
+          502,
+          `Model response did not match the requested response_format: ${getErrorMessage(error)}`
+        );
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Builds the OpenAI assistant message for a generateText result, including any tool calls.
+   */
+  private toAssistantMessage(result: GenerateTextResult<any, any>): ChatCompletionMessage {
+    const toolCalls = OpenAITranslator.toOpenAIToolCalls(result.toolCalls);
+    return {
+      role: "assistant",
+      // OpenAI sends null content when the model only called tools
+      content: toolCalls && !result.text ? null : result.text,
+      refusal: null,
+      ...(toolCalls && { tool_calls: toolCalls })
+    };
   }
 
   /**
    * Clears the provider instance cache.
-   * Useful for testing or when provider configurations change.
+   * Changed providers are already recreated automatically; this is mostly useful for testing.
    */
   public clearCache(): void {
     this.providerInstances.clear();
@@ -0,0 +1,254 @@
+import { UsageRecord } from "#schemas/usage.schema";
+
+export type UsageDimension = "provider" | "model" | "mappedModel" | "apiKey";
+export type UsageBucket = "hour" | "day" | "month";
+
+const DIMENSIONS: readonly UsageDimension[] = ["provider", "model", "mappedModel", "apiKey"];
+const BUCKETS: readonly UsageBucket[] = ["hour", "day", "month"];
+
+// How each dimension is read from a ledger record. Records made without a gateway
+// API key are grouped under null.
+const DIMENSION_VALUES: Record<UsageDimension, (record: UsageRecord) => string | null> = {
+  provider: (record) => record.providerId,
+  model: (record) => record.model,
+  mappedModel: (record) => record.mappedModel ?? record.model,
+  apiKey: (record) => record.apiKey ?? null,
+};
+
+/**
+ * Filters and grouping requested by a client of the usage analytics endpoints.
+ */
+export interface UsageQuery {
+  /** Inclusive start of the time range, in epoch milliseconds. */
+  from?: number;
+  /** Exclusive end of the time range, in epoch milliseconds. */
+  to?: number;
+  groupBy: UsageDimension[];
+  /** Only include records whose dimension value is one of the given values. */
+  filters: Partial<Record<UsageDimension, string[]>>;
+  bucket: UsageBucket;
+}
+
+export interface UsageTotals {
+  /** Successful requests. */
+  requests: number;
+  /** Failed provider attempts, including ones that were failed over. */
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Cost in USD. */
+  cost: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  key: Partial<Record<UsageDimension, string | null>>;
+}
+
+export interface UsageSummary {
+  from?: string;
+  to?: string;
+  groupBy: UsageDimension[];
+  totals: UsageTotals;
+  groups: UsageGroup[];
+}
+
+export interface UsageHistoryBucket extends UsageTotals {
+  /** ISO timestamp of the start of the bucket (UTC). */
+  start: string;
+  groups: UsageGroup[];
+}
+
+export interface UsageHistory {
+  from?: string;
+  to?: string;
+  bucket: UsageBucket;
+  groupBy: UsageDimension[];
+  buckets: UsageHistoryBucket[];
+}
+
+/**
+ * Aggregates usage ledger records into totals for the usage analytics endpoints.
+ * This is a stateless utility class; no instance is required.
+ */
+export class UsageAnalytics {
+  /**
+   * Parses the query string of a usage analytics request.
+   * Accepts `from` / `to` (ISO dates or epoch millisecond timestamps), `groupBy` (comma-separated dimensions),
+   * `bucket` (hour, day or month) and one filter parameter per dimension (comma-separated values).
+   * @returns The parsed query, or an error message for an invalid parameter.
+   */
+  public static parseQuery(params: Record<string, unknown>): { query: UsageQuery } | { error: string } {
+    const from = this.parseDate(params.from);
+    if (from === null) {
+      return { error: `Invalid 'from' date: ${params.from}` };
+    }
+    const to = this.parseDate(params.to);
+    if (to === null) {
+      return { error: `Invalid 'to' date: ${params.to}` };
+    }
+    if (from !== undefined && to !== undefined && from >= to) {
+      return { error: "'from' must be before 'to'." };
+    }
+
+    const groupBy = this.parseList(params.groupBy);
+    const unknownDimension = groupBy.find((dimension) => !DIMENSIONS.includes(dimension as UsageDimension));
+    if (unknownDimension !== undefined) {
+      return { error: `Invalid groupBy dimension '${unknownDimension}'. Expected one of: ${DIMENSIONS.join(", ")}` };
+    }
+
+    const bucket = params.bucket ?? "day";
+    if (!BUCKETS.includes(bucket as UsageBucket)) {
+      return { error: `Invalid bucket '${bucket}'. Expected one of: ${BUCKETS.join(", ")}` };
+    }
+
+    const filters: UsageQuery["filters"] = {};
+    for (const dimension of DIMENSIONS) {
+      const values = this.parseList(params[dimension]);
+      if (values.length > 0) {
+        filters[dimension] = values;
+      }
+    }
+
+    return {
+      query: {
+        from,
+        to,
+        groupBy: [...new Set(groupBy)] as UsageDimension[],
+        filters,
+        bucket: bucket as UsageBucket,
+      },
+    };
+  }
+
+  /**
+   * Totals the records matching a query, overall and per group.
+   * Groups are ordered by cost, most expensive first.
+   */
+  public static summarize(records: readonly UsageRecord[], query: UsageQuery): UsageSummary {
+    const matching = this.filterRecords(records, query);
+    return {
+      ...this.describeRange(query),
+      groupBy: query.groupBy,
+      totals: this.total(matching),
+      groups: this.group(matching, query.groupBy),
+    };
+  }
+
+  /**
+   * Totals the records matching a query per time bucket (UTC), oldest first.
+   * Buckets without any records are omitted.
+   */
+  public static history(records: readonly UsageRecord[], query: UsageQuery): UsageHistory {
+    const byBucket = new Map<number, UsageRecord[]>();
+    for (const record of this.filterRecords(records, query)) {
+      const start = this.bucketStart(Date.parse(record.timestamp), query.bucket);
+      const bucketRecords = byBucket.get(start) ?? [];
+      bucketRecords.push(record);
+      byBucket.set(start, bucketRecords);
+    }
+
+    const buckets = [...byBucket.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([start, bucketRecords]) => ({
+        start: new Date(start).toISOString(),
+        ...this.total(bucketRecords),
+        groups: this.group(bucketRecords, query.groupBy),
+      }));
+
+    return {
+      ...this.describeRange(query),
+      bucket: query.bucket,
+      groupBy: query.groupBy,
+      buckets,
+    };
+  }
+
+  private static filterRecords(records: readonly UsageRecord[], query: UsageQuery): UsageRecord[] {
+    const filters = Object.entries(query.filters) as [UsageDimension, string[]][];
+    return records.filter((record) => {
+      const time = Date.parse(record.timestamp);
+      if (query.from !== undefined && time < query.from) return false;
+      if (query.to !== undefined && time >= query.to) return false;
+      return filters.every(([dimension, values]) => values.includes(DIMENSION_VALUES[dimension](record) ?? ""));
+    });
+  }
+
+  private static group(records: UsageRecord[], groupBy: UsageDimension[]): UsageGroup[] {
+    if (groupBy.length === 0) {
+      return [];
+    }
+
+    const groups = new Map<string, { key: UsageGroup["key"]; records: UsageRecord[] }>();
+    for (const record of records) {
+      const key = Object.fromEntries(groupBy.map((dimension) => [dimension, DIMENSION_VALUES[dimension](record)]));
+      const id = JSON.stringify(groupBy.map((dimension) => key[dimension]));
+      const group = groups.get(id) ?? { key, records: [] as UsageRecord[] };
+      group.records.push(record);
+      groups.set(id, group);
+    }
+
+    return [...groups.values()]
+      .map(({ key, records: groupRecords }) => ({ key, ...this.total(groupRecords) }))
+      .sort((a, b) => b.cost - a.cost);
+  }
+
+  private static total(records: UsageRecord[]): UsageTotals {
+    const totals: UsageTotals = { requests: 0, errors: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    for (const record of records) {
+      if (record.status === "error") {
+        totals.errors++;
+      } else {
+        totals.requests++;
+      }
+      totals.promptTokens += record.promptTokens;
+      totals.completionTokens += record.completionTokens;
+      totals.totalTokens += record.totalTokens;
+      totals.cost += record.cost;
+    }
+    return totals;
+  }
+
+  private static bucketStart(time: number, bucket: UsageBucket): number {
+    const date = new Date(time);
+    switch (bucket) {
+      case "hour":
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), date.getUTCHours());
+      case "day":
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+      case "month":
+        return Date.UTC(date.getUTCFullYear(), date.getUTCMonth());
+    }
+  }
+
+  private static describeRange(query: UsageQuery): { from?: string; to?: string } {
+    return {
+      from: query.from !== undefined ? new Date(query.from).toISOString() : undefined,
+      to: query.to !== undefined ? new Date(query.to).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Parses an optional date parameter: an ISO date, or an epoch millisecond timestamp if all digits.
+   * @returns Epoch milliseconds, undefined if absent, or null if invalid.
+   */
+  private static parseDate(value: unknown): number | undefined | null {
+    if (value === undefined || value === "") {
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      return null;
+    }
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+
+  private static parseList(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .filter((item): item is string => typeof item === "string")
+      .flatMap((item) => item.split(","))
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+}
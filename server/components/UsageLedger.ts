@@ -0,0 +1,154 @@
+import { Low } from "lowdb";
+import { JSONFile } from "lowdb/node";
+import { UsageDatabase, UsageRecord, UsageRecordSchema } from "#schemas/usage.schema";
+import { AppConfig } from "#schemas/appConfig.schema";
+import { ConfigManager } from "./config/ConfigManager.js";
+import { logger } from "./Logger.js";
+import { getErrorMessage } from "./Utils.js";
+
+type InitializeParams = {
+  databasePath: string;
+};
+
+const DEFAULT_RETENTION_DAYS = 90;
+const DEFAULT_MAX_RECORDS = 100_000;
+// Appends are batched into one write per interval rather than rewriting the file per request
+const WRITE_DELAY_MS = 1000;
+const COMPACTION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Durable, append-only ledger of every completed request, stored in its own LowDB JSON file
+ * so that usage history survives rate-limiter windows expiring and config rewrites.
+ */
+export class UsageLedger {
+  private static instance: UsageLedger;
+  private db: Low<UsageDatabase>;
+  private writeTimer: NodeJS.Timeout | null = null;
+
+  private constructor(databasePath: string) {
+    this.db = new Low(new JSONFile<UsageDatabase>(databasePath), { records: [] });
+  }
+
+  /**
+   * Initializes the singleton UsageLedger, loading and compacting existing records.
+   * This MUST be called after ConfigManager is initialized.
+   */
+  public static async initialize(params: InitializeParams): Promise<void> {
+    if (UsageLedger.instance) {
+      logger.warn("UsageLedger has already been initialized.");
+      return;
+    }
+    logger.info(`Initializing usage ledger at ${params.databasePath}...`);
+    const ledger = new UsageLedger(params.databasePath);
+
+    await ledger.db.read();
+    ledger.db.data = { records: ledger.validRecords(ledger.db.data?.records) };
+    UsageLedger.instance = ledger;
+    await ledger.compact();
+
+    // Retention may have changed, so apply it straight away
+    ConfigManager.getInstance().events.on('configUpdated', (_newConfig: AppConfig) => {
+      UsageLedger.getInstance().compact();
+    });
+
+    // Records also age out while the config is unchanged
+    setInterval(() => ledger.compact(), COMPACTION_INTERVAL_MS).unref();
+    logger.info(`Usage ledger initialized with ${ledger.db.data.records.length} records.`);
+  }
+
+  /**
+   * Returns the singleton instance of the UsageLedger.
+   * Throws an error if it hasn't been initialized.
+   */
+  public static getInstance(): UsageLedger {
+    if (!UsageLedger.instance) {
+      throw new Error("UsageLedger must be initialized before use.");
+    }
+    return UsageLedger.instance;
+  }
+
+  /**
+   * Appends a record to the ledger. The record is validated and written to disk shortly after.
+   */
+  public append(record: UsageRecord): void {
+    const result = UsageRecordSchema.safeParse(record);
+    if (!result.success) {
+      logger.error(`Discarding invalid usage record for request ${record.requestId}: ${result.error.message}`);
+      return;
+    }
+    this.db.data.records.push(result.data);
+    this.scheduleWrite();
+  }
+
+  /**
+   * Returns all records currently in the ledger, oldest first.
+   */
+  public getRecords(): readonly UsageRecord[] {
+    return this.db.data.records;
+  }
+
+  /**
+   * Removes records older than the retention period and trims the ledger to the maximum
+   * number of records, then writes it to disk.
+   * @returns The number of records removed.
+   */
+  public async compact(): Promise<number> {
+    const settings = ConfigManager.getInstance().getConfig().usageLedger;
+    const retentionDays = settings?.retentionDays ?? DEFAULT_RETENTION_DAYS;
+    const maxRecords = settings?.maxRecords ?? DEFAULT_MAX_RECORDS;
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+
+    const records = this.db.data.records;
+    const retained = records.filter((record) => Date.parse(record.timestamp) >= cutoff);
+    const compacted = retained.length > maxRecords ? retained.slice(retained.length - maxRecords) : retained;
+    const removed = records.length - compacted.length;
+
+    if (removed > 0) {
+      this.db.data.records = compacted;
+      logger.info(`Compacted usage ledger: removed ${removed} records, ${compacted.length} remain.`);
+    }
+    await this.flush();
+    return removed;
+  }
+
+  /**
+   * Writes any pending records to disk immediately.
+   */
+  public async flush(): Promise<void> {
+    if (this.writeTimer) {
+      clearTimeout(this.writeTimer);
+      this.writeTimer = null;
+    }
+    try {
+      await this.db.write();
+    } catch (error) {
+      logger.error(`Failed to write usage ledger: ${getErrorMessage(error)}`);
+    }
+  }
+
+  private scheduleWrite(): void {
+    if (!this.writeTimer) {
+      this.writeTimer = setTimeout(() => this.flush(), WRITE_DELAY_MS);
+    }
+  }
+
+  /**
+   * Keeps only records that match the schema, so one corrupt entry does not lose the ledger.
+   */
+  private validRecords(records: unknown): UsageRecord[] {
+    if (!Array.isArray(records)) {
+      return [];
+    }
+    const valid: UsageRecord[] = [];
+    for (const record of records) {
+      const result = UsageRecordSchema.safeParse(record);
+      if (result.success) {
+        valid.push(result.data);
+      }
+    }
+    if (valid.length < records.length) {
+      logger.warn(`Dropped ${records.length - valid.length} invalid records from the usage ledger.`);
+    }
+    return valid;
+  }
+}
@@ -5,10 +5,31 @@ import { Provider } from "#schemas/provider.schema";
 import { Model } from "#schemas/model.schema";
 import { AppConfig } from "#schemas/appConfig.schema";
 import { logger } from "./Logger.js";
-import { Limits } from "#schemas/limits.schema.js";
+import { Limits, LimitType } from "#schemas/limits.schema.js";
 import { getErrorMessage, formatDuration } from "./Utils.js";
-
-type LimitType = keyof Limits;
+import { CircuitBreaker, CircuitStatus } from "./CircuitBreaker.js";
+import { LimitPeriod, PERIOD_SECONDS, WindowLimiter } from "./WindowLimiter.js";
+
+type Limiter = RateLimiterMemory | WindowLimiter;
+
+// Every limit type with the window period it covers and what it counts
+const LIMIT_DEFINITIONS: [LimitType, LimitPeriod, 'requests' | 'tokens' | 'cost'][] = [
+  ["requestsPerMinute", "minute", "requests"], ["requestsPerHour", "hour", "requests"], ["requestsPerDay", "day", "requests"],
+  ["requestsPerWeek", "week", "requests"], ["requestsPerMonth", "month", "requests"],
+  ["tokensPerMinute", "minute", "tokens"], ["tokensPerHour", "hour", "tokens"], ["tokensPerDay", "day", "tokens"],
+  ["tokensPerWeek", "week", "tokens"], ["tokensPerMonth", "month", "tokens"],
+  ["costPerMinute", "minute", "cost"], ["costPerHour", "hour", "cost"], ["costPerDay", "day", "cost"],
+  ["costPerWeek", "week", "cost"], ["costPerMonth", "month", "cost"],
+];
+
+// Consume keys for limits shared by all models of a provider, by every request, or by
+// every request made with a gateway API key
+const GLOBAL_SCOPE = "global";
+const providerScope = (providerId: string) => `provider:${providerId}`;
+const apiKeyScope = (keyId: string) => `apiKey:${keyId}`;
+
+// Maximum value for tracking without limits (2^31 - 1)
+const MAX_TRACKING_POINTS = 2147483647;
 
 // Types for usage dashboard
 export interface LimitUsage {
@@ -17,6 +38,9 @@ export interface LimitUsage {
   percentage: number;
   msBeforeNext: number;
   unit: 'requests' | 'tokens' | 'USD';
+  window: 'rolling' | 'calendar';
+  /** Epoch milliseconds at which the current window resets, if known. */
+  resetsAt?: number;
 }
 
 export interface ModelUsage {
@@ -25,25 +49,57 @@ export interface ModelUsage {
   limits: {
     [key in LimitType]?: LimitUsage;
   };
+  circuit?: CircuitStatus;
+  /** Epoch milliseconds until which the upstream has reported this model as rate limited. */
+  upstreamExhaustedUntil?: number;
 }
 
 export interface ProviderUsage {
   id: string;
   models: ModelUsage[];
+  /** Usage against limits shared by all of the provider's models, if any are configured. */
+  limits?: {
+    [key in LimitType]?: LimitUsage;
+  };
 }
 
 export interface UsageDashboardData {
   providers: ProviderUsage[];
+  /** Usage against the gateway-wide limits, if any are configured. */
+  global?: {
+    limits: {
+      [key in LimitType]?: LimitUsage;
+    };
+  };
   timestamp: number;
 }
 
+/**
+ * The worst-case usage of a request that has not been sent yet.
+ */
+export interface UsageEstimate {
+  /** Prompt tokens plus the most completion tokens the request can produce. */
+  tokens: number;
+  /** The most the request can cost, in USD. */
+  costInUSD: number;
+}
+
 // A multiplier to convert decimal currency into integer points for the limiter.
 // Using 10000 points = $1.00, so 1 point = $0.0001 (1/100th of a cent).
 const COST_MULTIPLIER = 10000;
 
 export class UsageManager {
   private static instance: UsageManager;
-  private limiters = new Map<string, RateLimiterMemory>();
+  private limiters = new Map<string, Limiter>();
+  // The limits each model's limiters were created from, keyed by "providerId/modelName"
+  private limitSignatures = new Map<string, string>();
+  // Provider-level, global and API key limiters, keyed by "<scope>/limitType" (see GLOBAL_SCOPE,
+  // providerScope and apiKeyScope)
+  private sharedLimiters = new Map<string, Limiter>();
+  // The limits each shared scope's limiters were created from, keyed by scope
+  private sharedLimitSignatures = new Map<string, string>();
+  // Reset times reported by upstream rate-limit headers, keyed by "providerId/modelName"
+  private upstreamExhaustedUntil = new Map<string, number>();
   private stateSaveInterval: NodeJS.Timeout | null = null;
 
   // Private constructor to enforce singleton pattern. Does not initialize.
@@ -121,6 +177,7 @@ export class UsageManager {
         this.updateLimitersForExistingProvider(provider);
       }
     }
+    this.updateSharedLimiters(config ?? ConfigManager.getInstance().getConfig());
     logger.info("Rate limiter update check complete.");
 
     // After updating all limiters, load any persisted state.
@@ -128,7 +185,8 @@ export class UsageManager {
   }
 
   /**
-   * For an existing provider, adds limiters for new models and removes limiters for old ones.
+   * For an existing provider, adds limiters for new models, recreates limiters for models whose
+   * limits changed and removes limiters for old ones.
    */
   private updateLimitersForExistingProvider(provider: Provider): void {
     const existingModelKeys = Array.from(this.limiters.keys()).filter(k => k.startsWith(`${provider.id}/`));
@@ -140,6 +198,11 @@ export class UsageManager {
       if (!existingModelNames.has(model.name)) {
         logger.info(`Adding new model '${model.name}' to provider '${provider.id}'.`);
         this.createLimitersForModel(provider, model);
+      } else if (this.limitSignatures.get(`${provider.id}/${model.name}`) !== JSON.stringify(model.limits ?? {})) {
+        // Consumption carries over when the persisted state is loaded after the update
+        logger.info(`Limits changed for model '${model.name}' on provider '${provider.id}'; recreating its limiters.`);
+        this.removeLimitersForModel(provider.id, model.name);
+        this.createLimitersForModel(provider, model);
       }
     }
 
@@ -162,14 +225,9 @@ export class UsageManager {
   }
 
   private createLimitersForModel(provider: Provider, model: Model): void {
-    const limitConfigs: [LimitType, number, 'requests' | 'tokens' | 'cost'][] = [
-      ["requestsPerMinute", 60, "requests"], ["requestsPerHour", 3600, "requests"], ["requestsPerDay", 86400, "requests"],
-      ["tokensPerMinute", 60, "tokens"], ["tokensPerHour", 3600, "tokens"], ["tokensPerDay", 86400, "tokens"],
-      ["costPerMinute", 60, "cost"], ["costPerHour", 3600, "cost"], ["costPerDay", 86400, "cost"],
-    ];
-    const MAX_TRACKING_POINTS = 2147483647;
+    this.limitSignatures.set(`${provider.id}/${model.name}`, JSON.stringify(model.limits ?? {}));
 
-    for (const [limitType, duration, type] of limitConfigs) {
+    for (const [limitType, period, type] of LIMIT_DEFINITIONS) {
       let points: number;
       if (model.limits && model.limits[limitType] !== undefined && model.limits[limitType]! > 0) {
         points = model.limits[limitType]!;
@@ -179,13 +237,90 @@ export class UsageManager {
       }
 
       const key = `${provider.id}/${model.name}/${limitType}`;
-      const opts: IRateLimiterOptions = { points, duration };
-      this.limiters.set(key, new RateLimiterMemory(opts));
+      this.limiters.set(key, this.createLimiter(model.limits, period, points));
 
+      const window = this.describeWindow(model.limits, period);
       if (points === MAX_TRACKING_POINTS) {
-        logger.debug(`Limiter: '${key}': unlimited tracking for ${type}/${formatDuration(duration)} (${duration}s).`);
+        logger.debug(`Limiter: '${key}': unlimited tracking for ${type}/${window}.`);
       } else {
-        logger.debug(`Limiter: '${key}': ${points} ${type}/${formatDuration(duration)} (${duration}s).`);
+        logger.debug(`Limiter: '${key}': ${points} ${type}/${window}.`);
+      }
+    }
+  }
+
+  /**
+   * Creates a limiter for one window period, aligned as configured in the limits.
+   */
+  private createLimiter(limits: Limits | undefined, period: LimitPeriod, points: number): Limiter {
+    const duration = PERIOD_SECONDS[period];
+    if (limits?.window === "calendar") {
+      return WindowLimiter.calendar(points, period, limits.timezone ?? "UTC");
+    }
+    if (period === "month") {
+      // Longer than a Node.js timer can wait, which RateLimiterMemory relies on to expire windows
+      return WindowLimiter.rolling(points, duration);
+    }
+    const opts: IRateLimiterOptions = { points, duration };
+    return new RateLimiterMemory(opts);
+  }
+
+  private describeWindow(limits: Limits | undefined, period: LimitPeriod): string {
+    const duration = PERIOD_SECONDS[period];
+    return limits?.window === "calendar"
+      ? `calendar ${period} (${limits.timezone ?? "UTC"})`
+      : `${formatDuration(duration)} (${duration}s)`;
+  }
+
+  /**
+   * Brings the provider-level, global and API key limiters in line with the config.
+   * Unlike model limiters, these only exist for the limit types that are configured.
+   */
+  private updateSharedLimiters(config: AppConfig): void {
+    const scopes = new Map<string, Limits>();
+    if (config.limits) {
+      scopes.set(GLOBAL_SCOPE, config.limits);
+    }
+    for (const provider of config.providers) {
+      if (provider.limits) {
+        scopes.set(providerScope(provider.id), provider.limits);
+      }
+    }
+    for (const apiKey of config.apiKeys ?? []) {
+      if (apiKey.limits && !apiKey.revokedAt) {
+        scopes.set(apiKeyScope(apiKey.id), apiKey.limits);
+      }
+    }
+
+    // Remove limiters for scopes whose limits were removed or changed
+    for (const [scope, signature] of this.sharedLimitSignatures) {
+      const limits = scopes.get(scope);
+      if (!limits || JSON.stringify(limits) !== signature) {
+        logger.info(`Removing shared limiters for '${scope}'.`);
+        for (const key of this.sharedLimiters.keys()) {
+          if (key.startsWith(`${scope}/`)) {
+            this.sharedLimiters.delete(key);
+          }
+        }
+        this.sharedLimitSignatures.delete(scope);
+      }
+    }
+
+    // Create limiters for new or changed scopes
+    for (const [scope, limits] of scopes) {
+      if (this.sharedLimitSignatures.has(scope)) {
+        continue;
+      }
+      logger.info(`Adding shared limiters for '${scope}'.`);
+      this.sharedLimitSignatures.set(scope, JSON.stringify(limits));
+      for (const [limitType, period, type] of LIMIT_DEFINITIONS) {
+        const configured = limits[limitType];
+        if (configured === undefined || configured <= 0) {
+          continue;
+        }
+        const points = type === 'cost' ? Math.floor(configured * COST_MULTIPLIER) : configured;
+        const key = `${scope}/${limitType}`;
+        this.sharedLimiters.set(key, this.createLimiter(limits, period, points));
+        logger.debug(`Limiter: '${key}': ${points} ${type}/${this.describeWindow(limits, period)}.`);
       }
     }
   }
@@ -197,6 +332,11 @@ export class UsageManager {
         this.limiters.delete(key);
       }
     }
+    for (const key of this.limitSignatures.keys()) {
+      if (key.startsWith(`${providerId}/`)) {
+        this.limitSignatures.delete(key);
+      }
+    }
   }
 
   private removeLimitersForModel(providerId: string, modelName: string): void {
@@ -206,32 +346,33 @@ export class UsageManager {
         this.limiters.delete(key);
       }
     }
+    this.limitSignatures.delete(`${providerId}/${modelName}`);
   }
 
   /**
    * Checks if a specific model has available capacity.
+   * @param estimate The worst-case usage of the request to route, if known. The model is then only
+   *   available if every token and cost limit has enough room left for it.
    */
-  public async isUnderLimit(providerId: string, modelName: string): Promise<boolean> {
-    const modelLimitKeys = Array.from(this.limiters.keys()).filter(key =>
-      key.startsWith(`${providerId}/${modelName}/`)
-    );
-    if (modelLimitKeys.length === 0) {
-      return true; // No limits configured for this model
+  public async isUnderLimit(providerId: string, modelName: string, estimate?: UsageEstimate): Promise<boolean> {
+    const exhaustedUntil = this.getUpstreamExhaustedUntil(providerId, modelName);
+    if (exhaustedUntil !== undefined) {
+      logger.debug(
+        `Model '${modelName}' on provider '${providerId}' is rate limited upstream until ${new Date(exhaustedUntil).toISOString()}.`
+      );
+      return false;
     }
 
     try {
-      for (const key of modelLimitKeys) {
-        const limiter = this.limiters.get(key);
-        // Cost-based limits are checked on consumption, not pre-flight,
-        // as the cost is unknown until the response is received.
-        if (key.includes('cost')) {
-          continue;
-        }
-        const res = await limiter?.get(`${providerId}/${modelName}`);
-        if (res && res.consumedPoints >= (limiter?.points ?? Infinity)) {
-          logger.warn(`Model '${modelName}' on provider '${providerId}' has exceeded limit '${key}'.`);
-          return false;
-        }
+      // Model limits, then limits shared with the provider's other models, then gateway-wide limits
+      const exceeded =
+        await this.findExceededLimit(this.limiters, `${providerId}/${modelName}`, estimate) ??
+        await this.findExceededLimit(this.sharedLimiters, providerScope(providerId), estimate) ??
+        await this.findExceededLimit(this.sharedLimiters, GLOBAL_SCOPE, estimate);
+      if (exceeded) {
+        const size = estimate ? ` for a request of up to ${estimate.tokens} tokens and $${estimate.costInUSD.toFixed(4)}` : "";
+        logger.warn(`Model '${modelName}' on provider '${providerId}' has no room left${size} under limit '${exceeded}'.`);
+        return false;
       }
       return true;
     } catch (error) {
@@ -240,14 +381,118 @@ export class UsageManager {
     }
   }
 
+  /**
+   * Checks if a gateway API key has available capacity under its own limits.
+   * @param estimate The worst-case usage of the request to route, if known.
+   */
+  public async isApiKeyUnderLimit(keyId: string, estimate?: UsageEstimate): Promise<boolean> {
+    try {
+      const exceeded = await this.findExceededLimit(this.sharedLimiters, apiKeyScope(keyId), estimate);
+      if (exceeded) {
+        logger.warn(`API key '${keyId}' has no room left under limit '${exceeded}'.`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      logger.error(`Error checking limits for API key '${keyId}': ${getErrorMessage(error)}`);
+      return false; // Fail closed
+    }
+  }
+
+  /**
+   * Checks whether any token or cost limit applies to requests for a model: its own, those shared
+   * with the provider's other models, the gateway-wide ones and those of the API key, if given.
+   * Requests that no such limit applies to do not need their usage estimated before routing.
+   */
+  public hasTokenOrCostLimit(providerId: string, modelName: string, apiKeyId?: string): boolean {
+    const scopes: [Map<string, Limiter>, string][] = [
+      [this.limiters, `${providerId}/${modelName}`],
+      [this.sharedLimiters, providerScope(providerId)],
+      [this.sharedLimiters, GLOBAL_SCOPE],
+    ];
+    if (apiKeyId) {
+      scopes.push([this.sharedLimiters, apiKeyScope(apiKeyId)]);
+    }
+    return scopes.some(([limiters, scope]) =>
+      LIMIT_DEFINITIONS.some(([limitType, , type]) => {
+        const limiter = type !== 'requests' ? limiters.get(`${scope}/${limitType}`) : undefined;
+        // Model limiters without a configured limit only track usage
+        return limiter !== undefined && limiter.points < MAX_TRACKING_POINTS;
+      })
+    );
+  }
+
+  /**
+   * Returns the key of the first limiter in a scope whose limit has been reached, or that
+   * does not have room left for the estimated request, if any.
+   */
+  private async findExceededLimit(
+    limiters: Map<string, Limiter>,
+    scope: string,
+    estimate?: UsageEstimate,
+  ): Promise<string | undefined> {
+    const neededByType = {
+      requests: 0,
+      tokens: estimate?.tokens ?? 0,
+      cost: Math.ceil((estimate?.costInUSD ?? 0) * COST_MULTIPLIER),
+    };
+
+    for (const [limitType, , type] of LIMIT_DEFINITIONS) {
+      const key = `${scope}/${limitType}`;
+      const limiter = limiters.get(key);
+      if (!limiter) {
+        continue;
+      }
+      const res = await limiter.get(scope);
+      const consumed = res?.consumedPoints ?? 0;
+      if (consumed >= limiter.points || consumed + neededByType[type] > limiter.points) {
+        return key;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Marks a model as exhausted upstream until the given time, as reported by the provider's
+   * rate-limit headers. This is independent of the locally configured limits.
+   */
+  public markUpstreamExhausted(providerId: string, modelName: string, until: number): void {
+    const key = `${providerId}/${modelName}`;
+    if (until <= (this.upstreamExhaustedUntil.get(key) ?? 0)) {
+      return;
+    }
+    this.upstreamExhaustedUntil.set(key, until);
+    logger.warn(
+      `Upstream reported '${key}' as rate limited; pausing it until ${new Date(until).toISOString()}.`
+    );
+  }
+
+  /**
+   * Returns the upstream reset time for a model, if it is still in the future.
+   */
+  private getUpstreamExhaustedUntil(providerId: string, modelName: string): number | undefined {
+    const key = `${providerId}/${modelName}`;
+    const until = this.upstreamExhaustedUntil.get(key);
+    if (until === undefined) {
+      return undefined;
+    }
+    if (until <= Date.now()) {
+      this.upstreamExhaustedUntil.delete(key);
+      return undefined;
+    }
+    return until;
+  }
+
   /**
    * Consumes resources for a given provider.
+   * @param apiKeyId The gateway API key the request was made with, if any.
    */
   public async consume(
     providerId: string,
     model: string,
     usage: { promptTokens?: number; completionTokens?: number },
     costInUSD: number = 0,
+    apiKeyId?: string,
   ): Promise<void> {
     logger.debug(`Consuming usage for provider '${providerId}':`, { model, usage, costInUSD });
 
@@ -256,28 +501,25 @@ export class UsageManager {
     const costInPoints = Math.floor(costInUSD * COST_MULTIPLIER);
     const consumptionJobs: Promise<any>[] = [];
 
-    const checkAndConsume = (limitType: LimitType, points: number) => {
-      const key = `${providerId}/${model}/${limitType}`;
-      const limiter = this.limiters.get(key);
-      if (limiter && points > 0) {
-        consumptionJobs.push(limiter.consume(`${providerId}/${model}`, points));
-      }
-    };
-
-    // Requests
-    checkAndConsume('requestsPerMinute', 1);
-    checkAndConsume('requestsPerHour', 1);
-    checkAndConsume('requestsPerDay', 1);
+    const pointsByType = { requests: 1, tokens: totalTokens, cost: costInPoints };
 
-    // Tokens
-    checkAndConsume('tokensPerMinute', totalTokens);
-    checkAndConsume('tokensPerHour', totalTokens);
-    checkAndConsume('tokensPerDay', totalTokens);
-
-    // Cost
-    checkAndConsume('costPerMinute', costInPoints);
-    checkAndConsume('costPerHour', costInPoints);
-    checkAndConsume('costPerDay', costInPoints);
+    const scopes: [Map<string, Limiter>, string][] = [
+      [this.limiters, `${providerId}/${model}`],
+      [this.sharedLimiters, providerScope(providerId)],
+      [this.sharedLimiters, GLOBAL_SCOPE],
+    ];
+    if (apiKeyId) {
+      scopes.push([this.sharedLimiters, apiKeyScope(apiKeyId)]);
+    }
+    for (const [limiters, scope] of scopes) {
+      for (const [limitType, , type] of LIMIT_DEFINITIONS) {
+        const limiter = limiters.get(`${scope}/${limitType}`);
+        const points = pointsByType[type];
+        if (limiter && points > 0) {
+          consumptionJobs.push(limiter.consume(scope, points));
+        }
+      }
+    }
 
     try {
       await Promise.all(consumptionJobs);
@@ -292,20 +534,10 @@ export class UsageManager {
    * Gets current usage data for all providers and models for the dashboard.
    */
   public async getCurrentUsageData(): Promise<UsageDashboardData> {
-    const providers = ConfigManager.getInstance().getProviders();
+    const config = ConfigManager.getInstance().getConfig();
     const providerUsages: ProviderUsage[] = [];
 
-    // Define limit configurations with their units
-    const limitConfigs: [LimitType, 'requests' | 'tokens' | 'USD'][] = [
-      ["requestsPerMinute", "requests"], ["requestsPerHour", "requests"], ["requestsPerDay", "requests"],
-      ["tokensPerMinute", "tokens"], ["tokensPerHour", "tokens"], ["tokensPerDay", "tokens"],
-      ["costPerMinute", "USD"], ["costPerHour", "USD"], ["costPerDay", "USD"],
-    ];
-
-    // Maximum value for tracking without limits (2^31 - 1)
-    const MAX_TRACKING_POINTS = 2147483647;
-
-    for (const provider of providers) {
+    for (const provider of config.providers) {
       const modelUsages: ModelUsage[] = [];
 
       // Process each model in the provider
@@ -313,64 +545,12 @@ export class UsageManager {
         const modelUsage: ModelUsage = {
           name: model.name,
           mappedName: model.mappedName,
-          limits: {}
+          // Process all limit types for this model (we now track everything)
+          limits: await this.getLimitUsages(this.limiters, `${provider.id}/${model.name}`, model.limits),
+          circuit: CircuitBreaker.getInstance().getStatus(provider.id, model.name),
+          upstreamExhaustedUntil: this.getUpstreamExhaustedUntil(provider.id, model.name)
         };
 
-        // Process all limit types for this model (we now track everything)
-        for (const [limitType, unit] of limitConfigs) {
-          const key = `${provider.id}/${model.name}/${limitType}`;
-          const limiter = this.limiters.get(key);
-
-          if (limiter) {
-            try {
-              const res = await limiter.get(`${provider.id}/${model.name}`);
-              let consumed = 0;
-              let limit: number;
-              let msBeforeNext = 0;
-              let isInfinite = false;
-
-              if (res) {
-                consumed = res.consumedPoints;
-                msBeforeNext = res.msBeforeNext;
-              }
-
-              // Determine the actual limit value
-              if (model.limits && model.limits[limitType] !== undefined && model.limits[limitType]! > 0) {
-                // Model has explicit limit configured
-                limit = model.limits[limitType]!;
-              } else {
-                // Model has no explicit limit - mark as infinite
-                limit = MAX_TRACKING_POINTS;
-                isInfinite = true;
-              }
-
-              // Convert cost points back to USD for display
-              if (unit === 'USD') {
-                consumed = consumed / COST_MULTIPLIER;
-                if (!isInfinite) {
-                  // limit is already in USD from config for explicit limits
-                } else {
-                  // For infinite limits, keep the large number for percentage calculation
-                  limit = MAX_TRACKING_POINTS / COST_MULTIPLIER;
-                }
-              }
-
-              const percentage = limit > 0 ? Math.round((consumed / limit) * 100) : 0;
-
-              modelUsage.limits[limitType] = {
-                consumed,
-                limit: isInfinite ? -1 : limit, // Use -1 to indicate infinite limit
-                percentage,
-                msBeforeNext,
-                unit
-              };
-            } catch (error) {
-              logger.warn(`Error getting usage data for ${key}: ${getErrorMessage(error)}`);
-              // Continue with other limiters even if one fails
-            }
-          }
-        }
-
         // Add all models to show in dashboard, even if they have no active limits
         // This allows the UI to show "No rate limits configured" message properly
         modelUsages.push(modelUsage);
@@ -380,15 +560,115 @@ export class UsageManager {
         id: provider.id,
         models: modelUsages
       };
+      if (provider.limits) {
+        providerUsage.limits = await this.getLimitUsages(this.sharedLimiters, providerScope(provider.id), provider.limits);
+      }
 
       providerUsages.push(providerUsage);
     }
 
     return {
       providers: providerUsages,
+      global: config.limits
+        ? { limits: await this.getLimitUsages(this.sharedLimiters, GLOBAL_SCOPE, config.limits) }
+        : undefined,
       timestamp: Date.now()
     };
   }
+
+  /**
+   * Gets current usage against a gateway API key's limits.
+   */
+  public async getApiKeyUsage(keyId: string): Promise<{ [key in LimitType]?: LimitUsage }> {
+    const apiKey = ConfigManager.getInstance().getConfig().apiKeys?.find((k) => k.id === keyId);
+    if (!apiKey?.limits) {
+      return {};
+    }
+    return this.getLimitUsages(this.sharedLimiters, apiKeyScope(keyId), apiKey.limits);
+  }
+
+  /**
+   * Reports the usage of every limiter in a scope against its configured limit.
+   */
+  private async getLimitUsages(
+    limiters: Map<string, Limiter>,
+    scope: string,
+    limits: Limits | undefined,
+  ): Promise<{ [key in LimitType]?: LimitUsage }> {
+    const usages: { [key in LimitType]?: LimitUsage } = {};
+
+    for (const [limitType, , type] of LIMIT_DEFINITIONS) {
+      const unit = type === 'cost' ? 'USD' : type;
+      const key = `${scope}/${limitType}`;
+      const limiter = limiters.get(key);
+
+      if (limiter) {
+        try {
+          const res = await limiter.get(scope);
+          let consumed = 0;
+          let limit: number;
+          let msBeforeNext = 0;
+          let isInfinite = false;
+
+          if (res) {
+            consumed = res.consumedPoints;
+            msBeforeNext = res.msBeforeNext;
+          }
+
+          // Determine the actual limit value
+          if (limits && limits[limitType] !== undefined && limits[limitType]! > 0) {
+            // Explicit limit configured
+            limit = limits[limitType]!;
+          } else {
+            // No explicit limit - mark as infinite
+            limit = MAX_TRACKING_POINTS;
+            isInfinite = true;
+          }
+
+          // Convert cost points back to USD for display
+          if (unit === 'USD') {
+            consumed = consumed / COST_MULTIPLIER;
+            if (!isInfinite) {
+              // limit is already in USD from config for explicit limits
+            } else {
+              // For infinite limits, keep the large number for percentage calculation
+              limit = MAX_TRACKING_POINTS / COST_MULTIPLIER;
+            }
+          }
+
+          const percentage = limit > 0 ? Math.round((consumed / limit) * 100) : 0;
+
+          // Calendar windows reset at a known time even before anything is consumed
+          let resetsAt: number | undefined;
+          if (limiter instanceof WindowLimiter && limits?.window === 'calendar') {
+            resetsAt = limiter.nextReset(scope);
+          } else if (res && msBeforeNext > 0) {
+            resetsAt = Date.now() + msBeforeNext;
+          }
+
+          usages[limitType] = {
+            consumed,
+            limit: isInfinite ? -1 : limit, // Use -1 to indicate infinite limit
+            percentage,
+            msBeforeNext,
+            unit,
+            window: limits?.window ?? 'rolling',
+            resetsAt
+          };
+        } catch (error) {
+          logger.warn(`Error getting usage data for ${key}: ${getErrorMessage(error)}`);
+          // Continue with other limiters even if one fails
+        }
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Restores persisted consumption into limiters that have no consumption of their own yet,
+   * i.e. after startup or when limiters were recreated because their limits changed.
+   */
   private async loadPersistedState(): Promise<void> {
     logger.info("Attempting to load persisted limiter state...");
     try {
@@ -400,14 +680,15 @@ export class UsageManager {
 
       let loadedCount = 0;
       for (const limiterKey in state) {
-        const limiter = this.limiters.get(limiterKey);
+        const limiter = this.limiters.get(limiterKey) ?? this.sharedLimiters.get(limiterKey);
         const stateEntry = state[limiterKey];
         // Only restore state for entries that have points and ms (skip empty objects)
-        if (limiter && 'points' in stateEntry && 'ms' in stateEntry) {
-          const { points, ms } = stateEntry;
+        if (limiter && 'points' in stateEntry && 'ms' in stateEntry && stateEntry.points > 0) {
           const consumeKey = limiterKey.substring(0, limiterKey.lastIndexOf('/'));
-          // Directly set the internal state. This is a "hack" but the only way.
-          (limiter as any)._memoryStorage.set(consumeKey, { points, ms });
+          if (await this.readLimiterState(limiter, consumeKey)) {
+            continue;
+          }
+          await this.writeLimiterState(limiter, consumeKey, stateEntry);
           loadedCount++;
         }
       }
@@ -420,18 +701,18 @@ export class UsageManager {
   }
 
   public async persistLimiterState(): Promise<void> {
-    logger.debug(`Persisting state for all ${this.limiters.size} limiters...`);
+    const allLimiters = [...this.limiters.entries(), ...this.sharedLimiters.entries()];
+    logger.debug(`Persisting state for all ${allLimiters.length} limiters...`);
     try {
       const state: LimiterState = {};
 
-      for (const [limiterKey, limiter] of this.limiters.entries()) {
-        const memoryStorage = (limiter as any)._memoryStorage as Map<string, { points: number; ms: number }>;
+      for (const [limiterKey, limiter] of allLimiters) {
         const consumeKey = limiterKey.substring(0, limiterKey.lastIndexOf('/'));
-        const storedValue = memoryStorage.get(consumeKey);
+        const storedValue = await this.readLimiterState(limiter, consumeKey);
 
         if (storedValue) {
           // If a consumption record exists, store its state.
-          state[limiterKey] = { points: storedValue.points, ms: storedValue.ms };
+          state[limiterKey] = storedValue;
         } else {
           // If no consumption record exists, store a default zero-state.
           state[limiterKey] = { points: 0, ms: 0 };
@@ -439,13 +720,43 @@ export class UsageManager {
       }
 
       await ConfigManager.getInstance().storeLimiterState(state);
-      logger.debug(`Successfully persisted state for ${this.limiters.size} limiters.`);
+      logger.debug(`Successfully persisted state for ${allLimiters.length} limiters.`);
 
     } catch (error) {
       logger.error(`Failed to persist limiter state: ${getErrorMessage(error)}`);
     }
   }
 
+  /**
+   * Reads a limiter's current window as the consumed points and the window's start time.
+   */
+  private async readLimiterState(limiter: Limiter, consumeKey: string): Promise<{ points: number; ms: number } | undefined> {
+    if (limiter instanceof WindowLimiter) {
+      return limiter.getState(consumeKey);
+    }
+    const res = await limiter.get(consumeKey);
+    if (!res || res.consumedPoints <= 0) {
+      return undefined;
+    }
+    // The window started one duration before it ends
+    const start = Date.now() + res.msBeforeNext - limiter.duration * 1000;
+    return { points: res.consumedPoints, ms: Math.max(0, Math.round(start)) };
+  }
+
+  /**
+   * Restores a window read by readLimiterState. Windows that have since ended are ignored.
+   */
+  private async writeLimiterState(limiter: Limiter, consumeKey: string, state: { points: number; ms: number }): Promise<void> {
+    if (limiter instanceof WindowLimiter) {
+      limiter.setState(consumeKey, state);
+      return;
+    }
+    const msRemaining = state.ms + limiter.duration * 1000 - Date.now();
+    if (msRemaining > 0) {
+      await limiter.set(consumeKey, state.points, msRemaining / 1000);
+    }
+  }
+
   public static async shutdown(): Promise<void> {
     if (UsageManager.instance) {
       logger.info("Shutting down UsageManager...");
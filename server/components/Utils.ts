@@ -24,3 +24,60 @@ export function formatDuration(seconds: number): string {
   if (seconds % 60 === 0) return `${seconds / 60} minute(s)`;
   return `${seconds} second(s)`;
 }
+
+// Node.js socket error codes that indicate the upstream could not be reached
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_CONNECT_TIMEOUT",
+  "UND_ERR_SOCKET",
+]);
+
+/**
+ * Determines whether a failed upstream call is worth retrying on another provider.
+ *
+ * Retryable errors are rate limits (429), server errors (5xx), request timeouts (408),
+ * aborted or timed out requests, and connection failures. Client errors such as invalid
+ * requests or bad credentials are not retryable.
+ *
+ * @param error - The error thrown by the AI SDK or the underlying fetch.
+ * @returns True if the request may succeed against a different provider.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== "object") {
+    return false;
+  }
+  const err = error as {
+    name?: string;
+    code?: string;
+    statusCode?: number;
+    isRetryable?: boolean;
+    lastError?: unknown;
+    cause?: unknown;
+  };
+
+  // The AI SDK wraps the final failure after exhausting its own retries
+  if (err.name === "AI_RetryError" && err.lastError !== undefined) {
+    return isRetryableError(err.lastError);
+  }
+  if (typeof err.statusCode === "number") {
+    return err.statusCode === 408 || err.statusCode === 429 || err.statusCode >= 500;
+  }
+  if (typeof err.isRetryable === "boolean") {
+    return err.isRetryable;
+  }
+  if (err.name === "AbortError" || err.name === "TimeoutError") {
+    return true;
+  }
+  if (err.code && CONNECTION_ERROR_CODES.has(err.code)) {
+    return true;
+  }
+  if (error instanceof TypeError && error.message === "fetch failed") {
+    return true;
+  }
+  return err.cause !== undefined && err.cause !== error && isRetryableError(err.cause);
+}
@@ -0,0 +1,194 @@
+export type LimitPeriod = "minute" | "hour" | "day" | "week" | "month";
+
+export const PERIOD_SECONDS: Record<LimitPeriod, number> = {
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+  week: 7 * 86400,
+  // Rolling monthly windows last 30 days
+  month: 30 * 86400,
+};
+
+interface Window {
+  consumed: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * A fixed-window limiter whose windows can end on calendar boundaries.
+ *
+ * It mirrors the parts of rate-limiter-flexible's RateLimiterMemory that UsageManager uses
+ * (`points`, `get` and `consume`), but works out each window's end from its start, which lets
+ * windows be aligned to midnight, Monday or the 1st of the month in a given timezone. It also
+ * supports windows longer than the ~24.8 days a Node.js timer can wait, as it expires windows
+ * lazily instead of with timers.
+ */
+export class WindowLimiter {
+  public readonly points: number;
+  private readonly windowEnd: (start: number) => number;
+  private windows = new Map<string, Window>();
+
+  private constructor(points: number, windowEnd: (start: number) => number) {
+    this.points = points;
+    this.windowEnd = windowEnd;
+  }
+
+  /**
+   * Creates a limiter whose windows last a fixed duration from their first request.
+   */
+  public static rolling(points: number, durationSeconds: number): WindowLimiter {
+    return new WindowLimiter(points, (start) => start + durationSeconds * 1000);
+  }
+
+  /**
+   * Creates a limiter whose windows end at the next calendar boundary in a timezone.
+   */
+  public static calendar(points: number, period: LimitPeriod, timeZone: string = "UTC"): WindowLimiter {
+    return new WindowLimiter(points, (start) => WindowLimiter.nextBoundary(start, period, timeZone));
+  }
+
+  /**
+   * Returns the consumption in the current window, or null if no window is active.
+   */
+  public async get(key: string): Promise<{ consumedPoints: number; msBeforeNext: number } | null> {
+    const now = Date.now();
+    const window = this.currentWindow(key, now);
+    return window ? { consumedPoints: window.consumed, msBeforeNext: window.end - now } : null;
+  }
+
+  /**
+   * Adds points to the current window, starting a new one if needed.
+   * Like RateLimiterMemory, the points are recorded even when they exceed the limit.
+   * @throws If the window's consumption exceeds the limit.
+   */
+  public async consume(key: string, points: number): Promise<{ consumedPoints: number; msBeforeNext: number }> {
+    const now = Date.now();
+    let window = this.currentWindow(key, now);
+    if (!window) {
+      window = { consumed: 0, start: now, end: this.windowEnd(now) };
+      this.windows.set(key, window);
+    }
+    window.consumed += points;
+
+    if (window.consumed > this.points) {
+      throw new Error(`Limit of ${this.points} exceeded for '${key}' until ${new Date(window.end).toISOString()}.`);
+    }
+    return { consumedPoints: window.consumed, msBeforeNext: window.end - now };
+  }
+
+  /**
+   * Returns the end of the window that would be active for a new request made now.
+   * Used to show when a calendar window resets before anything has been consumed.
+   */
+  public nextReset(key: string): number {
+    const now = Date.now();
+    return this.currentWindow(key, now)?.end ?? this.windowEnd(now);
+  }
+
+  /**
+   * Exports a window for persistence as the consumed points and the window's start time.
+   */
+  public getState(key: string): { points: number; ms: number } | undefined {
+    const window = this.currentWindow(key, Date.now());
+    return window ? { points: window.consumed, ms: window.start } : undefined;
+  }
+
+  /**
+   * Restores a persisted window. Windows that have since ended are ignored.
+   */
+  public setState(key: string, state: { points: number; ms: number }): void {
+    const end = this.windowEnd(state.ms);
+    if (end > Date.now()) {
+      this.windows.set(key, { consumed: state.points, start: state.ms, end });
+    }
+  }
+
+  private currentWindow(key: string, now: number): Window | undefined {
+    const window = this.windows.get(key);
+    if (window && window.end <= now) {
+      this.windows.delete(key);
+      return undefined;
+    }
+    return window;
+  }
+
+  /**
+   * Finds the first calendar boundary (start of the next minute, hour, day, ISO week or month)
+   * after a point in time, as observed on the wall clock in the given timezone.
+   */
+  public static nextBoundary(time: number, period: LimitPeriod, timeZone: string): number {
+    const local = WindowLimiter.wallClock(time, timeZone);
+    // Date.UTC normalizes overflowing fields, e.g. day 32 becomes the 1st of the next month
+    let boundary: number;
+    switch (period) {
+      case "minute":
+        boundary = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute + 1);
+        break;
+      case "hour":
+        boundary = Date.UTC(local.year, local.month - 1, local.day, local.hour + 1);
+        break;
+      case "day":
+        boundary = Date.UTC(local.year, local.month - 1, local.day + 1);
+        break;
+      case "week": {
+        // Weeks start on Monday; getUTCDay() is 0 for Sunday
+        const weekday = new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay();
+        const daysUntilMonday = weekday === 0 ? 1 : 8 - weekday;
+        boundary = Date.UTC(local.year, local.month - 1, local.day + daysUntilMonday);
+        break;
+      }
+      case "month":
+        boundary = Date.UTC(local.year, local.month);
+        break;
+    }
+    return WindowLimiter.fromWallClock(boundary, timeZone);
+  }
+
+  /**
+   * Returns the wall-clock date and time at an instant in a timezone.
+   */
+  private static wallClock(time: number, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(new Date(time));
+    const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+    return {
+      year: value("year"),
+      month: value("month"),
+      day: value("day"),
+      hour: value("hour"),
+      minute: value("minute"),
+      second: value("second"),
+    };
+  }
+
+  /**
+   * Converts a wall-clock time in a timezone (encoded as if it were UTC) to an instant.
+   * Wall-clock times skipped by a DST change resolve to the instant the clocks jump forward.
+   */
+  private static fromWallClock(wallTime: number, timeZone: string): number {
+    const wallTimeAt = (time: number) => {
+      const local = WindowLimiter.wallClock(time, timeZone);
+      return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+    };
+    const offsetAt = (time: number) => wallTimeAt(time) - Math.floor(time / 1000) * 1000;
+
+    const first = wallTime - offsetAt(wallTime);
+    const second = wallTime - offsetAt(first);
+    if (first === second) {
+      return first;
+    }
+    // Near a DST change the two estimates use different offsets. Prefer one that really shows
+    // the wall time; if neither does, the wall time was skipped and the later one is the jump.
+    const exact = [first, second].filter((time) => wallTimeAt(time) === wallTime);
+    return exact.length > 0 ? Math.min(...exact) : Math.max(first, second);
+  }
+}
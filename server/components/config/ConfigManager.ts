@@ -1,11 +1,14 @@
 import { IConfigManager, LimiterState } from './IConfigManager.js';
 import { DatabaseConfigManager } from './DatabaseConfigManager.js';
+import { SecretCipher } from './SecretCipher.js';
 import { AppConfig } from '#schemas/appConfig.schema.js';
 import { Provider } from '#schemas/provider.schema.js';
 import EventEmitter from 'events';
 
 type InitializeParams = {
   databasePath: string;
+  /** Encrypts provider secrets before they are written to the database. */
+  secretCipher: SecretCipher;
 };
 
 export class ConfigManager implements IConfigManager {
@@ -18,7 +21,7 @@ export class ConfigManager implements IConfigManager {
   }
 
   public static async initialize(params: InitializeParams): Promise<void> {
-    const manager = await DatabaseConfigManager.initialize(params.databasePath);
+    const manager = await DatabaseConfigManager.initialize(params.databasePath, params.secretCipher);
     new ConfigManager(manager);
   }
 
@@ -0,0 +1,62 @@
+import { AppConfig } from '#schemas/appConfig.schema';
+import { PROVIDER_SECRET_FIELDS } from '#schemas/provider.schema';
+
+/**
+ * The value shown in place of a secret in a redacted config.
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Hides provider credentials when the config is shown, and puts them back when a redacted
+ * config is saved, so that clients can edit and save the config without ever receiving them.
+ * This is a stateless utility class; no instance is required.
+ */
+export class ConfigRedactor {
+  /**
+   * Returns a copy of the config with every provider secret replaced by REDACTED.
+   */
+  public static redact(config: AppConfig): AppConfig {
+    return {
+      ...config,
+      providers: config.providers.map((provider) => {
+        const redacted = { ...provider };
+        for (const field of PROVIDER_SECRET_FIELDS) {
+          if (redacted[field]) {
+            redacted[field] = REDACTED;
+          }
+        }
+        return redacted;
+      }),
+    };
+  }
+
+  /**
+   * Replaces the REDACTED placeholders in a config that is about to be saved with the secrets of
+   * the current config, matching providers by ID. Secrets that were changed are kept as given.
+   * @returns The config to save, or an error if a placeholder has no secret to restore.
+   */
+  public static restore(
+    newConfig: AppConfig,
+    currentConfig: AppConfig,
+  ): { config: AppConfig } | { error: string; status: number } {
+    const providers = [];
+    for (const provider of newConfig.providers ?? []) {
+      const current = currentConfig.providers.find((p) => p.id === provider.id);
+      const restored = { ...provider };
+      for (const field of PROVIDER_SECRET_FIELDS) {
+        if (restored[field] !== REDACTED) {
+          continue;
+        }
+        if (!current?.[field]) {
+          return {
+            error: `The ${field} of provider '${provider.id}' is redacted and has no saved value to keep. Please enter it again.`,
+            status: 400,
+          };
+        }
+        restored[field] = current[field];
+      }
+      providers.push(restored);
+    }
+    return { config: { ...newConfig, providers } };
+  }
+}
@@ -0,0 +1,143 @@
+import { readFileSync } from 'fs';
+import { AppConfig } from '#schemas/appConfig.schema';
+import { getErrorMessage } from '../Utils.js';
+
+// `${env:NAME}` anywhere in a string value
+const ENV_REFERENCE = /\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * A provider field whose value is read from a file, e.g. a Docker or Kubernetes secret.
+ */
+type FileReference = { file: string };
+
+/**
+ * Resolves references to environment variables and files in provider fields, including the
+ * fields of its `models` and `limits`, so that a config can be committed without the secrets
+ * and deployment-specific values it uses:
+ *
+ * - `"${env:OPENAI_KEY}"` is replaced by the environment variable, also inside a longer string
+ *   such as `"https://${env:LLM_HOST}/v1"`.
+ * - `{ "file": "/run/secrets/groq" }` is replaced by the contents of the file, without the
+ *   trailing newline.
+ *
+ * The config database keeps the references; only the config held in memory is resolved.
+ * This is a stateless utility class; no instance is required.
+ */
+export class ConfigReferences {
+  public static isReference(value: unknown): boolean {
+    return ConfigReferences.isFileReference(value)
+      || (typeof value === 'string' && new RegExp(ENV_REFERENCE).test(value));
+  }
+
+  private static isFileReference(value: unknown): value is FileReference {
+    return ConfigReferences.isObject(value)
+      && Object.keys(value).length === 1 && typeof (value as FileReference).file === 'string';
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Returns a copy of a stored config with every reference in its providers' fields resolved.
+   * Throws an error listing every reference that cannot be resolved.
+   */
+  public static resolve(config: AppConfig): AppConfig {
+    const errors: string[] = [];
+    const providers = (config.providers ?? []).map((provider) => {
+      const resolved: Record<string, unknown> = { ...provider };
+      for (const [field, value] of Object.entries(provider)) {
+        resolved[field] = ConfigReferences.resolveNested(value, field, (path, error) => {
+          errors.push(`Provider '${provider.id}' field '${path}' ${error}`);
+        });
+      }
+      return resolved as typeof provider;
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`Unresolved config references: ${errors.join('; ')}`);
+    }
+    return { ...config, providers };
+  }
+
+  /**
+   * Prepares a config for storage by putting the references of the stored config back into
+   * the provider fields whose value is still the one resolved from them, at any depth, matching
+   * providers by ID. Fields that were changed are stored as given, replacing their reference.
+   * @param newConfig The config to store, with resolved values.
+   * @param storedConfig The config currently stored, with references.
+   * @param resolvedConfig The current config with its references resolved.
+   */
+  public static restore(newConfig: AppConfig, storedConfig: AppConfig, resolvedConfig: AppConfig): AppConfig {
+    return {
+      ...newConfig,
+      providers: (newConfig.providers ?? []).map((provider) => {
+        const stored = storedConfig.providers?.find((p) => p.id === provider.id) as Record<string, unknown> | undefined;
+        const resolved = resolvedConfig.providers?.find((p) => p.id === provider.id) as Record<string, unknown> | undefined;
+        if (!stored || !resolved) {
+          return provider;
+        }
+
+        return ConfigReferences.restoreNested(provider, stored, resolved) as typeof provider;
+      }),
+    };
+  }
+
+  /**
+   * Resolves the references in a value and in everything nested in it.
+   * @param path The field path of the value, for error messages, e.g. `models[0].name`.
+   */
+  private static resolveNested(value: unknown, path: string, onError: (path: string, error: string) => void): unknown {
+    if (ConfigReferences.isReference(value)) {
+      return ConfigReferences.resolveValue(value, (error) => onError(path, error));
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => ConfigReferences.resolveNested(item, `${path}[${index}]`, onError));
+    }
+    if (ConfigReferences.isObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, ConfigReferences.resolveNested(item, `${path}.${key}`, onError)]),
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Returns a new value with the references of its stored counterpart put back wherever the
+   * new value still equals the value resolved from them.
+   */
+  private static restoreNested(newValue: unknown, storedValue: unknown, resolvedValue: unknown): unknown {
+    if (ConfigReferences.isReference(storedValue)) {
+      return newValue === resolvedValue ? storedValue : newValue;
+    }
+    if (Array.isArray(newValue) && Array.isArray(storedValue) && Array.isArray(resolvedValue)) {
+      return newValue.map((item, index) => ConfigReferences.restoreNested(item, storedValue[index], resolvedValue[index]));
+    }
+    if (ConfigReferences.isObject(newValue) && ConfigReferences.isObject(storedValue) && ConfigReferences.isObject(resolvedValue)) {
+      return Object.fromEntries(
+        Object.entries(newValue).map(([key, item]) => [key, ConfigReferences.restoreNested(item, storedValue[key], resolvedValue[key])]),
+      );
+    }
+    return newValue;
+  }
+
+  private static resolveValue(value: unknown, onError: (error: string) => void): unknown {
+    if (ConfigReferences.isFileReference(value)) {
+      try {
+        return readFileSync(value.file, 'utf8').replace(/\r?\n$/, '');
+      } catch (error) {
+        onError(`references file ${value.file}, which cannot be read: ${getErrorMessage(error)}`);
+        return undefined;
+      }
+    }
+
+    return (value as string).replace(ENV_REFERENCE, (_match, name: string) => {
+      const envValue = process.env[name];
+      if (envValue === undefined) {
+        onError(`references environment variable ${name}, which is not set`);
+        return '';
+      }
+      return envValue;
+    });
+  }
+}
@@ -82,4 +82,19 @@ export class CopilotTokenManager {
 
     return meta?.token || "";
   }
+
+  /**
+   * Creates a fetch function that authorizes every request with a valid bearer token.
+   * Bearer tokens expire after about 30 minutes, so this keeps a cached provider instance working
+   * for as long as its OAuth token is valid.
+   * @param provider The Copilot provider configuration.
+   * @returns A fetch function that sets the Authorization header.
+   */
+  public static createAuthorizedFetch(provider: Provider): typeof fetch {
+    return async (input, init) => {
+      const headers = new Headers(init?.headers);
+      headers.set("Authorization", `Bearer ${await this.getBearerToken(provider)}`);
+      return fetch(input, { ...init, headers });
+    };
+  }
 }
\ No newline at end of file
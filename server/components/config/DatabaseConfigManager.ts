@@ -4,26 +4,35 @@ import { JSONFile } from 'lowdb/node';
 import { AppConfig, AppConfigSchema } from '#schemas/appConfig.schema';
 import { Provider } from '#schemas/provider.schema';
 import { IConfigManager, LimiterState } from './IConfigManager.js';
+import { SecretCipher } from './SecretCipher.js';
+import { ConfigReferences } from './ConfigReferences.js';
 import { logger } from '../Logger.js';
 
 /**
  * Manages application configuration using a LowDB JSON file.
+ * Provider secrets are written encrypted when a master key is configured; the config held in
+ * memory keeps them encrypted too. References to environment variables and files in provider
+ * fields are resolved in memory only, and stay references in the database.
  */
 export class DatabaseConfigManager implements IConfigManager {
   public events = new EventEmitter();
+  // The config as stored, with references
   private db: Low<AppConfig>;
+  // The config with references resolved
   private config: AppConfig;
+  private secretCipher: SecretCipher;
 
-  private constructor(dbPath: string) {
+  private constructor(dbPath: string, secretCipher: SecretCipher) {
+    this.secretCipher = secretCipher;
     const adapter = new JSONFile<AppConfig>(dbPath);
     // Set default data if the file doesn't exist or is empty
     this.db = new Low(adapter, { providers: [], limiterState: {} });
     this.config = { providers: [], limiterState: {} };
   }
 
-  public static async initialize(databasePath: string): Promise<DatabaseConfigManager> {
+  public static async initialize(databasePath: string, secretCipher: SecretCipher): Promise<DatabaseConfigManager> {
     logger.info(`Initializing config database at ${databasePath}...`);
-    const instance = new DatabaseConfigManager(databasePath);
+    const instance = new DatabaseConfigManager(databasePath, secretCipher);
 
     await instance.db.read();
 
@@ -58,7 +67,8 @@ export class DatabaseConfigManager implements IConfigManager {
     }
 
     // Validate the loaded configuration
-    instance.config = AppConfigSchema.parse(instance.db.data);
+    instance.config = DatabaseConfigManager.resolve(instance.db.data);
+    await instance.protectSecrets();
 
     logger.info("Config database initialized.");
     return instance;
@@ -73,11 +83,13 @@ export class DatabaseConfigManager implements IConfigManager {
   }
 
   public async updateConfig(newConfig: AppConfig): Promise<void> {
+    // Keep the references of unchanged fields rather than their resolved values, and encrypt any new secrets
+    const storedConfig = this.secretCipher.encryptSecrets(ConfigReferences.restore(newConfig, this.db.data, this.config));
     // Validate the new configuration before updating
-    const validatedConfig = AppConfigSchema.parse(newConfig);
+    const validatedConfig = DatabaseConfigManager.resolve(storedConfig);
 
     this.config = validatedConfig;
-    Object.assign(this.db.data, validatedConfig);
+    Object.assign(this.db.data, { ...validatedConfig, providers: storedConfig.providers });
     await this.db.write();
 
     this.events.emit('configUpdated', this.config);
@@ -114,13 +126,45 @@ export class DatabaseConfigManager implements IConfigManager {
     }
 
     // Validate and update the config
-    this.config = AppConfigSchema.parse(this.db.data);
+    this.config = DatabaseConfigManager.resolve(this.db.data);
+    await this.protectSecrets();
     
     // Emit the configUpdated event so other components can react
     this.events.emit('configUpdated', this.config);
     logger.info("Configuration reloaded successfully from database.");
   }
 
+  /**
+   * Resolves the references in a stored config and validates the result.
+   */
+  private static resolve(storedConfig: AppConfig): AppConfig {
+    return AppConfigSchema.parse(ConfigReferences.resolve(storedConfig));
+  }
+
+  /**
+   * Checks that every encrypted secret can be decrypted with the master key, and encrypts
+   * secrets still stored in plain text, e.g. after the master key was first set or the
+   * config file was edited by hand.
+   */
+  private async protectSecrets(): Promise<void> {
+    // Throws if the master key is missing or wrong, so that this is found at startup
+    this.config.providers.forEach((provider) => this.secretCipher.decryptSecrets(provider));
+
+    const plainTextCount = SecretCipher.countPlainTextSecrets(this.db.data);
+    if (plainTextCount === 0) {
+      return;
+    }
+    if (!this.secretCipher.isEnabled) {
+      logger.warn(`${plainTextCount} provider secret(s) are stored in plain text. Set COSTROUTER_MASTER_KEY or COSTROUTER_MASTER_KEY_FILE to encrypt them.`);
+      return;
+    }
+
+    this.db.data.providers = this.secretCipher.encryptSecrets(this.db.data).providers;
+    this.config = DatabaseConfigManager.resolve(this.db.data);
+    await this.db.write();
+    logger.info(`Encrypted ${plainTextCount} plain text provider secret(s) in the config database.`);
+  }
+
   public async getLimiterState(): Promise<LimiterState | undefined> {
     await this.db.read();
     return this.db.data.limiterState;
@@ -0,0 +1,154 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFileSync } from 'fs';
+import { AppConfig } from '#schemas/appConfig.schema';
+import { Provider, PROVIDER_SECRET_FIELDS } from '#schemas/provider.schema';
+import { ConfigReferences } from './ConfigReferences.js';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+// Fixed salt for deriving the encryption key from the master key. The master key itself is the secret.
+const KEY_SALT = 'costrouter-secret-encryption';
+const MIN_MASTER_KEY_LENGTH = 16;
+
+type MasterKeyOptions = {
+  /** Path to a file holding the master key. Takes precedence over the environment. */
+  masterKeyFile?: string;
+};
+
+/**
+ * Encrypts provider secrets for storage in the config database, with a key derived from a master key.
+ *
+ * Encrypted values are stored as `enc:v1:<iv>:<auth tag>:<ciphertext>`, so they can sit next to
+ * values that are still in plain text. Decrypting a plain text value returns it unchanged. Without
+ * a master key, nothing is encrypted and any encrypted value fails to decrypt. References to
+ * environment variables and files are never encrypted, as they hold no secret themselves.
+ */
+export class SecretCipher {
+  private constructor(private readonly key: Buffer | undefined) { }
+
+  /**
+   * Creates a cipher for a master key, or one that leaves secrets in plain text if there is none.
+   */
+  public static fromMasterKey(masterKey: string | undefined): SecretCipher {
+    if (masterKey === undefined) {
+      return new SecretCipher(undefined);
+    }
+    if (masterKey.length < MIN_MASTER_KEY_LENGTH) {
+      throw new Error(`The master key must be at least ${MIN_MASTER_KEY_LENGTH} characters long.`);
+    }
+    return new SecretCipher(scryptSync(masterKey, KEY_SALT, 32));
+  }
+
+  /**
+   * Reads the master key from the given key file, the file named by COSTROUTER_MASTER_KEY_FILE,
+   * or COSTROUTER_MASTER_KEY, in that order.
+   * @returns The master key, or undefined if none is configured.
+   */
+  public static readMasterKey(options: MasterKeyOptions = {}): string | undefined {
+    const keyFile = options.masterKeyFile ?? process.env.COSTROUTER_MASTER_KEY_FILE;
+    if (keyFile) {
+      return readFileSync(keyFile, 'utf8').trim();
+    }
+    return process.env.COSTROUTER_MASTER_KEY || undefined;
+  }
+
+  public static isEncrypted(value: unknown): boolean {
+    return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  /**
+   * Counts the provider secrets in a config that are stored in plain text.
+   */
+  public static countPlainTextSecrets(config: AppConfig): number {
+    return config.providers
+      .flatMap((provider) => PROVIDER_SECRET_FIELDS.map((field) => provider[field]))
+      .filter((value) => SecretCipher.isPlainText(value))
+      .length;
+  }
+
+  private static isPlainText(value: unknown): value is string {
+    return !!value && !SecretCipher.isEncrypted(value) && !ConfigReferences.isReference(value);
+  }
+
+  /**
+   * Whether this cipher has a master key, and therefore encrypts secrets.
+   */
+  public get isEnabled(): boolean {
+    return this.key !== undefined;
+  }
+
+  public encrypt(value: string): string {
+    if (!this.key) {
+      throw new Error('Cannot encrypt secrets without a master key.');
+    }
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return `${ENCRYPTED_PREFIX}${[iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64')).join(':')}`;
+  }
+
+  public decrypt(value: string): string {
+    if (!SecretCipher.isEncrypted(value)) {
+      return value;
+    }
+    if (!this.key) {
+      throw new Error('The config contains encrypted secrets but no master key is configured. Set COSTROUTER_MASTER_KEY or COSTROUTER_MASTER_KEY_FILE.');
+    }
+
+    const [iv, authTag, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':').map((part) => Buffer.from(part, 'base64'));
+    try {
+      const decipher = createDecipheriv(ALGORITHM, this.key, iv);
+      decipher.setAuthTag(authTag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('Failed to decrypt a secret. The master key does not match the one the config was encrypted with.');
+    }
+  }
+
+  /**
+   * Returns a copy of the provider with its secrets decrypted.
+   */
+  public decryptSecrets(provider: Provider): Provider {
+    return this.mapSecrets(provider, (value) => this.decrypt(value));
+  }
+
+  /**
+   * Returns a copy of the config with every plain text provider secret encrypted.
+   * The config is returned unchanged when there is no master key.
+   */
+  public encryptSecrets(config: AppConfig): AppConfig {
+    if (!this.isEnabled) {
+      return config;
+    }
+    return {
+      ...config,
+      providers: config.providers.map((provider) => this.mapSecrets(
+        provider,
+        (value) => (SecretCipher.isPlainText(value) ? this.encrypt(value) : value),
+      )),
+    };
+  }
+
+  /**
+   * Returns a copy of the config with every provider secret decrypted with this cipher and
+   * encrypted with the next one, for rotating the master key.
+   */
+  public rotateSecrets(config: AppConfig, next: SecretCipher): AppConfig {
+    return next.encryptSecrets({
+      ...config,
+      providers: config.providers.map((provider) => this.decryptSecrets(provider)),
+    });
+  }
+
+  private mapSecrets(provider: Provider, map: (value: string) => string): Provider {
+    const mapped = { ...provider };
+    for (const field of PROVIDER_SECRET_FIELDS) {
+      const value = mapped[field];
+      if (value) {
+        mapped[field] = map(value);
+      }
+    }
+    return mapped;
+  }
+}
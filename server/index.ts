@@ -7,14 +7,44 @@ import { ConfigManager } from "./components/config/ConfigManager.js";
 import { PriceData } from "./components/PriceData.js";
 import { Router } from "./components/Router.js";
 import { UsageManager } from "./components/UsageManager.js";
+import { CircuitBreaker } from "./components/CircuitBreaker.js";
+import { UsageLedger } from "./components/UsageLedger.js";
+import { UsageAnalytics } from "./components/UsageAnalytics.js";
+import { ApiKeyManager, ApiKeySettings } from "./components/ApiKeyManager.js";
+import { AdminAuth } from "./components/AdminAuth.js";
+import { ConfigRedactor } from "./components/config/ConfigRedactor.js";
+import { SecretCipher } from "./components/config/SecretCipher.js";
 import { logger, responseBodyLogger, requestResponseLogger, PinoLogger } from "./components/Logger.js";
 import { UnifiedExecutor } from "./components/UnifiedExecutor.js";
+import { anthropicResponseFormat, translateAnthropicRequest } from "./components/AnthropicTranslator.js";
+import { responsesResponseFormat, translateResponsesRequest } from "./components/ResponsesTranslator.js";
+import { completionsResponseFormat, translateCompletionsRequest } from "./components/CompletionsTranslator.js";
+import { geminiResponseFormat, translateGeminiRequest } from "./components/GeminiTranslator.js";
+import {
+  OllamaTranslator,
+  ollamaChatResponseFormat,
+  ollamaGenerateResponseFormat,
+  translateOllamaChatRequest,
+  translateOllamaGenerateRequest,
+} from "./components/OllamaTranslator.js";
+import { useResponseFormat } from "./components/ResponseFormat.js";
 import { getErrorMessage } from "./components/Utils.js";
+import { ApiKey } from "#schemas/apiKey.schema";
 
 const COPILOT_CLIENT_ID = 'Iv1.b507a08c87ecfe98';
 const COPILOT_DEVICE_CODE_URL = 'https://github.com/login/device/code';
 const COPILOT_OAUTH_TOKEN_URL = 'https://github.com/login/oauth/access_token';
 
+/**
+ * Parses a 'trust proxy' setting given as text into the boolean, hop count or address list Express expects.
+ */
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === "true" || value === "false") {
+    return value === "true";
+  }
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
 async function main() {
   // --- 1. Argument Parsing ---
   const argv = await yargs(hideBin(process.argv))
@@ -24,19 +54,39 @@ async function main() {
       description: "Path to the configuration LowDB JSON database file",
       required: true,
     })
+    .option("usage-database", {
+      alias: "ud",
+      type: "string",
+      description: "Path to the usage ledger LowDB JSON database file (defaults to usage.json next to the config database)",
+    })
     .option("loglevel", {
       alias: "l",
       type: "string",
       description: "Logging level (info, debug, warn, error)",
       default: "info",
     })
+    .option("master-key-file", {
+      type: "string",
+      description: "Path to a file holding the master key that encrypts provider secrets in the config database (defaults to COSTROUTER_MASTER_KEY_FILE or COSTROUTER_MASTER_KEY)",
+    })
+    .option("admin-token", {
+      type: "string",
+      description: "Token required by the config, admin and usage routes and the web UI (defaults to COSTROUTER_ADMIN_TOKEN, or a random token logged at startup)",
+    })
+    .option("trust-proxy", {
+      type: "string",
+      description: "Express 'trust proxy' setting for running behind a reverse proxy, e.g. 'true', a hop count or a subnet list (defaults to COSTROUTER_TRUST_PROXY); client IPs are then read from X-Forwarded-For",
+    })
     .parse();
 
   // Set initial log level from CLI argument
   logger.level = argv.loglevel;
 
   // --- 2. Initialize Singletons in Order ---
-  await ConfigManager.initialize({ databasePath: argv.configDatabase as string });
+  const secretCipher = SecretCipher.fromMasterKey(
+    SecretCipher.readMasterKey({ masterKeyFile: argv.masterKeyFile as string | undefined }),
+  );
+  await ConfigManager.initialize({ databasePath: argv.configDatabase as string, secretCipher });
 
   // Apply log level from config if available, otherwise use CLI argument
   try {
@@ -50,19 +100,33 @@ async function main() {
     PinoLogger.setLogLevel(argv.loglevel);
   }
   PriceData.initialize();
+  AdminAuth.initialize({ adminToken: (argv.adminToken as string | undefined) ?? process.env.COSTROUTER_ADMIN_TOKEN });
+  ApiKeyManager.initialize();
+  CircuitBreaker.initialize();
   await UsageManager.initialize();
+  await UsageLedger.initialize({
+    databasePath: (argv.usageDatabase as string | undefined)
+      ?? path.join(path.dirname(argv.configDatabase as string), "usage.json"),
+  });
   Router.initialize();
 
 
   // --- 3. Get Instances ---
   const router = Router.getInstance();
   const usageManager = UsageManager.getInstance();
-  UnifiedExecutor.initialize(usageManager);
+  const apiKeyManager = ApiKeyManager.getInstance();
+  const adminAuth = AdminAuth.getInstance();
+  UnifiedExecutor.initialize(usageManager, CircuitBreaker.getInstance(), UsageLedger.getInstance(), secretCipher);
   const executor = UnifiedExecutor.getInstance();
 
   // --- 3. Express Server Setup ---
   // Initialize Express application
   const app = express();
+  const trustProxy = (argv.trustProxy as string | undefined) ?? process.env.COSTROUTER_TRUST_PROXY;
+  if (trustProxy) {
+    // Without this, every client behind a proxy has the proxy's IP and shares its failed login limit
+    app.set("trust proxy", parseTrustProxy(trustProxy));
+  }
   // Enable JSON body parsing for incoming requests with increased size limit
   app.use(express.json({ limit: '5mb' }));
   app.use(cors());
@@ -82,24 +146,78 @@ async function main() {
   });
 
   // --- 5. Core API Route ---
+  // Requests to the other APIs are answered in their own format, authentication errors included
+  app.use("/v1/messages", useResponseFormat(anthropicResponseFormat));
+  app.use("/v1/responses", useResponseFormat(responsesResponseFormat));
+  app.use("/v1/completions", useResponseFormat(completionsResponseFormat));
+  app.use("/v1beta", useResponseFormat(geminiResponseFormat));
+  app.use("/api/chat", useResponseFormat(ollamaChatResponseFormat));
+  app.use("/api/generate", useResponseFormat(ollamaGenerateResponseFormat));
+
+  // Every /v1, /v1beta and Ollama endpoint requires a gateway API key once any key is configured
+  app.use(
+    ["/v1", "/v1beta", "/api/chat", "/api/generate", "/api/tags"],
+    apiKeyManager.authenticate.bind(apiKeyManager),
+  );
+
   app.post(
     "/v1/chat/completions",
     router.chooseProvider.bind(router),
     executor.execute.bind(executor),
   );
 
-  app.get("/v1/models", (_req, res) => {
-    try {
-      const providers = ConfigManager.getInstance().getProviders();
-      const allModels = new Set<string>();
+  app.post(
+    "/v1/messages",
+    translateAnthropicRequest,
+    router.chooseProvider.bind(router),
+    executor.execute.bind(executor),
+  );
+
+  app.post(
+    "/v1/responses",
+    translateResponsesRequest,
+    router.chooseProvider.bind(router),
+    executor.execute.bind(executor),
+  );
+
+  app.post(
+    "/v1/completions",
+    translateCompletionsRequest,
+    router.chooseProvider.bind(router),
+    executor.execute.bind(executor),
+  );
+
+  // Gemini's {model}:generateContent and {model}:streamGenerateContent methods
+  app.post(
+    "/v1beta/models/:modelAction",
+    translateGeminiRequest,
+    router.chooseProvider.bind(router),
+    executor.execute.bind(executor),
+  );
+
+  app.post(
+    "/v1/embeddings",
+    router.chooseProvider.bind(router),
+    executor.executeEmbeddings.bind(executor),
+  );
 
-      for (const provider of providers) {
-        for (const model of provider.models) {
-          allModels.add(model.mappedName ?? model.name);
+  // The mapped model names the caller's API key may use, across all providers
+  const listModelNames = (apiKey?: ApiKey): string[] => {
+    const allModels = new Set<string>();
+    for (const provider of ConfigManager.getInstance().getProviders()) {
+      for (const model of provider.models) {
+        const modelName = model.mappedName ?? model.name;
+        if (ApiKeyManager.allowsModel(apiKey, modelName)) {
+          allModels.add(modelName);
         }
       }
+    }
+    return Array.from(allModels);
+  };
 
-      const modelData = Array.from(allModels).map((modelId) => ({
+  app.get("/v1/models", (_req, res) => {
+    try {
+      const modelData = listModelNames(res.locals.apiKey).map((modelId) => ({
         id: modelId,
         object: "model",
         created: 1686935002, // Fixed timestamp as requested
@@ -117,11 +235,57 @@ async function main() {
     }
   });
 
+  // --- 5.1. Ollama API ---
+  // For apps that only speak Ollama; mapped models are listed as Ollama models
+  app.post(
+    "/api/chat",
+    translateOllamaChatRequest,
+    router.chooseProvider.bind(router),
+    executor.execute.bind(executor),
+  );
+
+  app.post(
+    "/api/generate",
+    translateOllamaGenerateRequest,
+    router.chooseProvider.bind(router),
+    executor.execute.bind(executor),
+  );
+
+  app.get("/api/tags", (_req, res) => {
+    try {
+      res.json(OllamaTranslator.toModelList(listModelNames(res.locals.apiKey)));
+    } catch (error) {
+      logger.error(`Failed to get models: ${getErrorMessage(error)}`);
+      res.status(500).json({ error: "Failed to retrieve models." });
+    }
+  });
+
+  // --- 5.2. Admin Authentication ---
+  // The web UI exchanges the admin token for a session; this is the only open admin route
+  // Failed attempts are limited per client IP
+  app.post("/admin/login", adminAuth.handleLogin.bind(adminAuth));
+
+  // Everything below that manages or reveals the gateway's config and usage requires admin authentication
+  app.use(["/config", "/admin", "/usage", "/api/copilot"], adminAuth.authenticate.bind(adminAuth));
+
+  app.post("/admin/logout", (req, res) => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? "");
+    if (match) {
+      adminAuth.logout(match[1]);
+    }
+    res.json({ message: "Logged out." });
+  });
+
   // --- 6. Config API Routes ---
-  app.get("/config/get", (_req, res) => {
+  // Provider secrets are redacted unless ?includeSecrets=true is passed
+  app.get("/config/get", (req, res) => {
     try {
       const config = ConfigManager.getInstance().getConfig();
-      res.json(config);
+      if (req.query.includeSecrets === "true") {
+        logger.info("Config requested with secrets included.");
+        return res.json({ ...config, providers: config.providers.map((p) => secretCipher.decryptSecrets(p)) });
+      }
+      res.json(ConfigRedactor.redact(config));
     } catch (error) {
       const message = getErrorMessage(error);
       logger.error(`Failed to get config: ${message}`);
@@ -131,8 +295,13 @@ async function main() {
 
   app.post("/config/set", async (req, res) => {
     try {
-      const newConfig = req.body;
-      await ConfigManager.getInstance().updateConfig(newConfig);
+      // Secrets that are still redacted keep their saved values
+      const configManager = ConfigManager.getInstance();
+      const result = ConfigRedactor.restore(req.body, configManager.getConfig());
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      await configManager.updateConfig(result.config);
       res.json({ message: "Configuration updated successfully." });
     } catch (error) {
       const message = getErrorMessage(error);
@@ -160,7 +329,8 @@ async function main() {
     } catch (error) {
       const message = getErrorMessage(error);
       logger.error(`Failed to reload configuration: ${message}`);
-      res.status(500).json({ error: "Failed to reload configuration." });
+      // The message names any environment variable or file the config references that cannot be read
+      res.status(500).json({ error: `Failed to reload configuration: ${message}` });
     }
   });
 
@@ -197,6 +367,95 @@ async function main() {
     }
   });
 
+  // --- 7.1. API Key Admin API Routes ---
+  // Only the allowed models and limits of a key can be set; anything else in the body is ignored
+  const parseApiKeySettings = (body: any): ApiKeySettings => ({
+    allowedModels: body?.allowedModels ?? undefined,
+    limits: body?.limits ?? undefined,
+  });
+
+  app.get("/admin/api-keys", (_req, res) => {
+    try {
+      res.json({ keys: apiKeyManager.listKeys() });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to list API keys: ${message}`);
+      res.status(500).json({ error: "Failed to retrieve API keys." });
+    }
+  });
+
+  app.post("/admin/api-keys", async (req, res) => {
+    try {
+      const { name } = req.body;
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({ error: "API key name is required and must be a string." });
+      }
+
+      const result = await apiKeyManager.createKey(name, parseApiKeySettings(req.body));
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.status(201).json({ ...result.apiKey, key: result.key });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to create API key: ${message}`);
+      res.status(500).json({ error: "Failed to create API key." });
+    }
+  });
+
+  app.get("/admin/api-keys/:id", async (req, res) => {
+    try {
+      const apiKey = apiKeyManager.getKey(req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({ error: `API key not found: ${req.params.id}` });
+      }
+
+      // Current usage against the key's limits, and its totals in the usage ledger
+      const summary = UsageAnalytics.summarize(UsageLedger.getInstance().getRecords(), {
+        groupBy: [],
+        filters: { apiKey: [apiKey.name] },
+        bucket: "day",
+      });
+      res.json({
+        ...apiKey,
+        limitUsage: await usageManager.getApiKeyUsage(apiKey.id),
+        totals: summary.totals,
+      });
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to get API key: ${message}`);
+      res.status(500).json({ error: "Failed to retrieve API key." });
+    }
+  });
+
+  app.put("/admin/api-keys/:id", async (req, res) => {
+    try {
+      const result = await apiKeyManager.updateKey(req.params.id, parseApiKeySettings(req.body));
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.apiKey);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to update API key: ${message}`);
+      res.status(500).json({ error: "Failed to update API key." });
+    }
+  });
+
+  app.delete("/admin/api-keys/:id", async (req, res) => {
+    try {
+      const result = await apiKeyManager.revokeKey(req.params.id);
+      if ("error" in result) {
+        return res.status(result.status).json({ error: result.error });
+      }
+      res.json(result.apiKey);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to revoke API key: ${message}`);
+      res.status(500).json({ error: "Failed to revoke API key." });
+    }
+  });
+
   // --- 8. Copilot Auth API Routes ---
   app.post("/api/copilot/auth/start", async (_req, res) => {
     try {
@@ -254,8 +513,12 @@ async function main() {
         const provider = currentConfig.providers.find(p => p.id === providerId);
 
         if (provider) {
-          provider.oauthToken = data.access_token;
-          await configManager.updateConfig(currentConfig);
+          // Replace the provider rather than changing the current config in place, which would
+          // hide the change from updateConfig's comparison with the current config
+          await configManager.updateConfig({
+            ...currentConfig,
+            providers: currentConfig.providers.map((p) => (p.id === providerId ? { ...p, oauthToken: data.access_token } : p)),
+          });
           logger.info(`Successfully authorized and saved Copilot token for provider: ${providerId}`);
         } else {
           logger.warn(`Provider with ID ${providerId} not found during Copilot auth poll.`);
@@ -330,6 +593,35 @@ async function main() {
     }
   });
 
+  // --- 9.1. Usage Analytics API Routes (backed by the usage ledger) ---
+  app.get("/usage/summary", (req, res) => {
+    try {
+      const parsed = UsageAnalytics.parseQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      res.json(UsageAnalytics.summarize(UsageLedger.getInstance().getRecords(), parsed.query));
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to get usage summary: ${message}`);
+      res.status(500).json({ error: "Failed to retrieve usage summary." });
+    }
+  });
+
+  app.get("/usage/history", (req, res) => {
+    try {
+      const parsed = UsageAnalytics.parseQuery(req.query);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      res.json(UsageAnalytics.history(UsageLedger.getInstance().getRecords(), parsed.query));
+    } catch (error) {
+      const message = getErrorMessage(error);
+      logger.error(`Failed to get usage history: ${message}`);
+      res.status(500).json({ error: "Failed to retrieve usage history." });
+    }
+  });
+
   // --- 9.5. Logging Admin API Routes ---
   app.get("/admin/logging/level", (_req, res) => {
     try {
@@ -418,6 +710,7 @@ async function main() {
     server.close(async () => {
       logger.info("HTTP server closed.");
       await UsageManager.shutdown();
+      await UsageLedger.getInstance().flush();
       process.exit(0);
     });
   };
@@ -0,0 +1,62 @@
+import yargs from "yargs/yargs";
+import { hideBin } from "yargs/helpers";
+import { readFileSync } from "fs";
+import { Low } from "lowdb";
+import { JSONFile } from "lowdb/node";
+import { AppConfig } from "#schemas/appConfig.schema";
+import { SecretCipher } from "./components/config/SecretCipher.js";
+import { logger } from "./components/Logger.js";
+
+/**
+ * Re-encrypts the provider secrets in a config database with a new master key.
+ * Stop the gateway first: a running gateway would write its secrets back with the old key.
+ *
+ * The current master key is read like the gateway reads it; secrets still in plain text are
+ * encrypted with the new key as well.
+ */
+async function main() {
+  const argv = await yargs(hideBin(process.argv))
+    .usage("Usage: $0 --config-database <path> --new-master-key-file <path>")
+    .option("config-database", {
+      alias: "cd",
+      type: "string",
+      description: "Path to the configuration LowDB JSON database file",
+      required: true,
+    })
+    .option("master-key-file", {
+      type: "string",
+      description: "Path to a file holding the current master key (defaults to COSTROUTER_MASTER_KEY_FILE or COSTROUTER_MASTER_KEY)",
+    })
+    .option("new-master-key-file", {
+      type: "string",
+      description: "Path to a file holding the new master key (defaults to COSTROUTER_NEW_MASTER_KEY)",
+    })
+    .parse();
+
+  const newMasterKey = argv.newMasterKeyFile
+    ? readFileSync(argv.newMasterKeyFile, "utf8").trim()
+    : process.env.COSTROUTER_NEW_MASTER_KEY;
+  if (!newMasterKey) {
+    throw new Error("A new master key is required. Pass --new-master-key-file or set COSTROUTER_NEW_MASTER_KEY.");
+  }
+
+  const currentCipher = SecretCipher.fromMasterKey(SecretCipher.readMasterKey({ masterKeyFile: argv.masterKeyFile }));
+  const newCipher = SecretCipher.fromMasterKey(newMasterKey);
+
+  const db = new Low<AppConfig>(new JSONFile<AppConfig>(argv.configDatabase), { providers: [] });
+  await db.read();
+  // The config is used as stored, so that references to environment variables and files stay as they are
+  const config = { ...db.data, providers: db.data.providers ?? [] };
+
+  // Decrypting every secret before anything is written leaves the file untouched if the current key is wrong
+  db.data.providers = currentCipher.rotateSecrets(config, newCipher).providers;
+  await db.write();
+
+  logger.info(`Re-encrypted the secrets of ${config.providers.length} provider(s) in ${argv.configDatabase} with the new master key.`);
+  logger.info("Start the gateway with the new master key.");
+}
+
+main().catch((error) => {
+  console.error("Failed to rotate the master key:", error);
+  process.exit(1);
+});
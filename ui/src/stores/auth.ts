@@ -0,0 +1,77 @@
+import { computed, ref } from 'vue';
+import { defineStore } from 'pinia';
+
+const API_BASE = 'http://localhost:3000';
+const SESSION_STORAGE_KEY = 'costrouter-admin-session';
+
+export const useAuthStore = defineStore('auth', () => {
+  // Kept in sessionStorage so that a page reload does not log out, but closing the tab does
+  const session = ref<string | null>(sessionStorage.getItem(SESSION_STORAGE_KEY));
+  const error = ref<string | null>(null);
+
+  const isAuthenticated = computed(() => session.value !== null);
+
+  function setSession(value: string | null) {
+    session.value = value;
+    if (value) {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, value);
+    } else {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  }
+
+  function authHeaders(): Record<string, string> {
+    return session.value ? { Authorization: `Bearer ${session.value}` } : {};
+  }
+
+  async function login(token: string) {
+    error.value = null;
+    try {
+      const response = await fetch(`${API_BASE}/admin/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setSession(data.session);
+    } catch (e: any) {
+      error.value = e.message;
+    }
+  }
+
+  async function logout() {
+    try {
+      await fetch(`${API_BASE}/admin/logout`, { method: 'POST', headers: authHeaders() });
+    } finally {
+      setSession(null);
+    }
+  }
+
+  /**
+   * Calls an admin API route with the session. An expired session returns to the login screen.
+   */
+  async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { ...init.headers as Record<string, string>, ...authHeaders() },
+    });
+    if (response.status === 401) {
+      setSession(null);
+      error.value = 'Your session has expired. Please log in again.';
+    }
+    return response;
+  }
+
+  return {
+    session,
+    error,
+    isAuthenticated,
+    authHeaders,
+    login,
+    logout,
+    apiFetch,
+  };
+});
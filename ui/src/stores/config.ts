@@ -1,8 +1,10 @@
 import { ref } from 'vue';
 import { defineStore } from 'pinia';
 import type { AppConfig } from '#schemas/appConfig.schema';
+import { useAuthStore } from './auth';
 
 export const useConfigStore = defineStore('config', () => {
+  const authStore = useAuthStore();
   const config = ref<AppConfig | null>(null);
   const loading = ref(false);
   const error = ref<string | null>(null);
@@ -12,7 +14,7 @@ export const useConfigStore = defineStore('config', () => {
     loading.value = true;
     error.value = null;
     try {
-      const response = await fetch('http://localhost:3000/config/get');
+      const response = await authStore.apiFetch('/config/get');
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -36,7 +38,7 @@ export const useConfigStore = defineStore('config', () => {
       config.value = newConfig; // Optimistic update
 
       try {
-        const response = await fetch('http://localhost:3000/config/set', {
+        const response = await authStore.apiFetch('/config/set', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(newConfig),
@@ -55,7 +57,7 @@ export const useConfigStore = defineStore('config', () => {
 
   async function fetchCurrentLogLevel() {
     try {
-      const response = await fetch('http://localhost:3000/admin/logging/level');
+      const response = await authStore.apiFetch('/admin/logging/level');
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -70,7 +72,7 @@ export const useConfigStore = defineStore('config', () => {
 
   async function updateLogLevel(level: string) {
     try {
-      const response = await fetch('http://localhost:3000/admin/logging/level', {
+      const response = await authStore.apiFetch('/admin/logging/level', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ level }),